@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PlayerAPI, PlayerImportField, PlayerImportResult, PlayerImportRow } from '../services/api';
+
+const FIELD_LABELS: Record<PlayerImportField, string> = {
+  name: 'Name',
+  firstName: 'First name',
+  lastName: 'Last name',
+  rank: 'Rank',
+  club: 'Club',
+  country: 'Country',
+  agaId: 'AGA ID',
+  egdPin: 'EGD PIN',
+  cwaId: '中国围协 ID',
+};
+
+const ACTION_LABELS: Record<PlayerImportRow['action'], { label: string; color: 'success' | 'info' | 'error' }> = {
+  CREATE: { label: 'New', color: 'success' },
+  MATCH: { label: 'Existing', color: 'info' },
+  ERROR: { label: 'Error', color: 'error' },
+};
+
+interface PlayerImportDialogProps {
+  open: boolean;
+  tournamentId?: string;  // 同时把选手加入这个比赛
+  onClose: () => void;
+  onImported: (result: PlayerImportResult) => void;
+}
+
+// 从表格（CSV/TSV）批量导入选手：先预览，确认后导入
+const PlayerImportDialog = ({ open, tournamentId, onClose, onImported }: PlayerImportDialogProps) => {
+  const [csv, setCsv] = useState('');
+  const [mapping, setMapping] = useState<Partial<Record<PlayerImportField, string>>>({});
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [preview, setPreview] = useState<PlayerImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const reset = () => {
+    setCsv('');
+    setMapping({});
+    setSkipInvalid(false);
+    setPreview(null);
+    setError('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setCsv(await file.text());
+    setMapping({});
+    setPreview(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    try {
+      setError('');
+      const result = await PlayerAPI.import(csv, { mapping, skipInvalid, dryRun }, tournamentId);
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        reset();
+        onImported(result);
+      }
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      setError(message || 'Failed to import players');
+    }
+  };
+
+  const rowDetails = (row: PlayerImportRow) => [
+    ...row.errors,
+    ...row.warnings,
+    ...(row.updates.length > 0 ? [`Adds ${row.updates.join(', ')}`] : []),
+    ...(row.inTournament ? ['Already in the tournament'] : []),
+  ].join('; ');
+
+  const canImport = preview !== null && preview.rows.length > preview.skipped && (preview.skipped === 0 || skipInvalid);
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Players</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box>
+            <Button variant="outlined" component="label">
+              Choose CSV/TSV File
+              <input type="file" hidden accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} />
+            </Button>
+          </Box>
+          <TextField
+            label="Or paste rows with a header line"
+            multiline
+            minRows={4}
+            maxRows={10}
+            value={csv}
+            onChange={(e) => {
+              setCsv(e.target.value);
+              setPreview(null);
+            }}
+          />
+
+          {preview && (
+            <>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                {(Object.keys(FIELD_LABELS) as PlayerImportField[]).map((field) => (
+                  <FormControl key={field} size="small" sx={{ minWidth: 150 }}>
+                    <InputLabel>{FIELD_LABELS[field]}</InputLabel>
+                    <Select
+                      label={FIELD_LABELS[field]}
+                      value={mapping[field] ?? preview.columns[field] ?? ''}
+                      onChange={(e) => {
+                        setMapping({ ...mapping, [field]: e.target.value || undefined });
+                        setPreview(null);
+                      }}
+                    >
+                      <MenuItem value="">-</MenuItem>
+                      {preview.headers.map((header) => (
+                        <MenuItem key={header} value={header}>{header}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ))}
+              </Box>
+
+              <Typography>
+                {`${preview.created} new, ${preview.matched} existing`}
+                {tournamentId ? `, ${preview.added} to add to the tournament` : ''}
+                {preview.skipped > 0 ? `, ${preview.skipped} with errors` : ''}
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Row</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Rank</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>{row.rank}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={ACTION_LABELS[row.action].label} color={ACTION_LABELS[row.action].color} />
+                      </TableCell>
+                      <TableCell>{rowDetails(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {preview.skipped > 0 && (
+                <FormControlLabel
+                  control={<Checkbox checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />}
+                  label="Skip rows with errors"
+                />
+              )}
+            </>
+          )}
+
+          {error && (
+            <Typography color="error">
+              {error}
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={() => run(true)} disabled={!csv.trim()}>
+          Preview
+        </Button>
+        <Button onClick={() => run(false)} variant="contained" disabled={!canImport}>
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PlayerImportDialog;
@@ -12,12 +12,15 @@ import {
   MenuItem,
   Box,
   Divider,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import axios from 'axios';
-import { api } from '../services/api';
+import { api, TournamentAPI } from '../services/api';
 
 const NewTournament = () => {
   const navigate = useNavigate();
+  const [importError, setImportError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     format: 'ROUNDROBIN',
@@ -30,6 +33,38 @@ const NewTournament = () => {
     minimumScore: -3,
     roundCount: 5,
     groups: ['业余组', '职业组'],
+    // Elimination specific fields
+    thirdPlaceMatch: false,
+    bracketReset: true,
+    doubleRoundRobin: false,
+    // 分组赛（循环赛、瑞士制），组名和段位区间用逗号分隔
+    groupMethod: '',
+    groupNames: 'A组, B组',
+    groupRankBands: '',
+    // 团体赛每场出场台数，留空为个人赛
+    boardCount: '',
+    // 排名规则，按选择顺序比较，留空使用赛制默认规则
+    tieBreakers: [] as string[],
+    // Handicap and komi
+    handicapPolicy: 'NONE',
+    handicapReduction: 0,
+    maxHandicap: 9,
+    komi: 7.5,
+    handicapKomi: 0.5,
+    // Registration
+    maxParticipants: '',
+    requireApproval: false,
+    // Check-in and late entry
+    requireCheckIn: false,
+    lateEntryPoints: 1,
+    // Absence and withdrawal scores
+    skipRoundPoints: 0,
+    withdrawalPoints: 0,
+    // Bye policy
+    byeAssignment: 'LOWEST_SCORE',
+    repeatByes: false,
+    byePoints: 2,
+    byeCountsForSos: false,
   });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | { name?: string; value: unknown }>) => {
@@ -53,9 +88,14 @@ const NewTournament = () => {
         }
       }
 
+      const splitList = (text: string) => text.split(',').map((item) => item.trim()).filter(Boolean);
+      const { groupNames, groupRankBands, ...fields } = formData;
+      const teamEvent = formData.boardCount !== '' && ['ROUNDROBIN', 'SWISS'].includes(formData.format);
+      const grouped = !teamEvent && formData.groupMethod !== '' && ['ROUNDROBIN', 'SWISS'].includes(formData.format);
+
       // 转换数字字段
       const dataToSubmit = {
-        ...formData,
+        ...fields,
         startDate: new Date(formData.startDate).toISOString(),
         endDate: new Date(formData.endDate).toISOString(),
         // McMahon specific fields
@@ -64,7 +104,25 @@ const NewTournament = () => {
           initialScore: Number(formData.initialScore),
           minimumScore: Number(formData.minimumScore),
           roundCount: Number(formData.roundCount),
-        })
+        }),
+        handicapReduction: Number(formData.handicapReduction),
+        maxHandicap: Number(formData.maxHandicap),
+        komi: Number(formData.komi),
+        handicapKomi: Number(formData.handicapKomi),
+        // 留空表示不限人数
+        maxParticipants: formData.maxParticipants === '' ? null : Number(formData.maxParticipants),
+        lateEntryPoints: Number(formData.lateEntryPoints),
+        skipRoundPoints: Number(formData.skipRoundPoints),
+        withdrawalPoints: Number(formData.withdrawalPoints),
+        byePoints: Number(formData.byePoints),
+        // Groups
+        groupMethod: grouped ? formData.groupMethod : null,
+        ...(grouped && {
+          groups: splitList(groupNames),
+          groupRankBands: formData.groupMethod === 'RANK_BANDS' ? splitList(groupRankBands) : [],
+        }),
+        // Teams
+        boardCount: teamEvent ? Number(formData.boardCount) : null,
       };
 
       console.log('Submitting data:', dataToSubmit); // 添加日志
@@ -76,11 +134,38 @@ const NewTournament = () => {
     }
   };
 
+  // 从 OpenGotha 文件导入，直接生成比赛、选手和已赛轮次
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const tournament = await TournamentAPI.importOpenGotha(await file.text());
+      navigate(`/tournament/${tournament._id}`);
+    } catch (error) {
+      const response = (error as { response?: { data?: { message?: string } } }).response;
+      console.error('Error importing OpenGotha file:', response?.data || error);
+      setImportError(response?.data?.message || 'Failed to import OpenGotha file');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
   return (
     <div>
-      <Typography variant="h4" component="h1" gutterBottom>
-        Create New Tournament
-      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Create New Tournament
+        </Typography>
+        <Button variant="outlined" component="label">
+          Import OpenGotha
+          <input type="file" accept=".xml,application/xml,text/xml" hidden onChange={handleImport} />
+        </Button>
+      </Box>
+      {importError && (
+        <Typography color="error" gutterBottom>
+          {importError}
+        </Typography>
+      )}
 
       <Paper sx={{ p: 3 }}>
         <form onSubmit={handleSubmit}>
@@ -134,7 +219,7 @@ const NewTournament = () => {
                     value={formData.upperBar}
                     onChange={handleChange}
                     required
-                    helperText="高于此等级的选手将获得相同的起始分数"
+                    helperText="高于此等级的选手将获得相同的起始分数（5 = 5段，1 = 1段，0 = 1级）"
                   />
                 </Grid>
 
@@ -160,7 +245,7 @@ const NewTournament = () => {
                     value={formData.minimumScore}
                     onChange={handleChange}
                     required
-                    helperText="最低分数限制"
+                    helperText="最低分数限制（每低一个段位少1分，最低不低于此分数）"
                   />
                 </Grid>
 
@@ -179,6 +264,334 @@ const NewTournament = () => {
               </>
             )}
 
+            {/* Elimination specific fields */}
+            {formData.format === 'SINGLEELIMINATION' && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={formData.thirdPlaceMatch}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, thirdPlaceMatch: e.target.checked }))}
+                    />
+                  }
+                  label="三四名决赛 Third-place match"
+                />
+              </Grid>
+            )}
+
+            {formData.format === 'ROUNDROBIN' && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={formData.doubleRoundRobin}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, doubleRoundRobin: e.target.checked }))}
+                    />
+                  }
+                  label="双循环 Double round robin (colors reversed in the second cycle)"
+                />
+              </Grid>
+            )}
+
+            {(formData.format === 'ROUNDROBIN' || formData.format === 'SWISS') && (
+              <>
+                <Grid item xs={12} sm={4}>
+                  <TextField
+                    fullWidth
+                    type="number"
+                    label="团体赛台数 Boards per team"
+                    name="boardCount"
+                    value={formData.boardCount}
+                    onChange={handleChange}
+                    inputProps={{ min: 1, max: 10 }}
+                    helperText="Leave empty for an individual tournament"
+                  />
+                </Grid>
+                {formData.boardCount === '' && (
+                  <Grid item xs={12} sm={4}>
+                    <FormControl fullWidth>
+                      <InputLabel>分组 Groups</InputLabel>
+                      <Select
+                        value={formData.groupMethod}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, groupMethod: e.target.value }))}
+                        label="分组 Groups"
+                      >
+                        <MenuItem value="">不分组 None</MenuItem>
+                        <MenuItem value="SNAKE">蛇形分组 Snake seeding by rating</MenuItem>
+                        <MenuItem value="RANK_BANDS">按段位分组 Rank bands</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                )}
+                {formData.boardCount === '' && formData.groupMethod !== '' && (
+                  <Grid item xs={12} sm={4}>
+                    <TextField
+                      fullWidth
+                      label="组名 Group names"
+                      name="groupNames"
+                      value={formData.groupNames}
+                      onChange={handleChange}
+                      helperText="Comma separated, strongest group first"
+                    />
+                  </Grid>
+                )}
+                {formData.boardCount === '' && formData.groupMethod === 'RANK_BANDS' && (
+                  <Grid item xs={12} sm={4}>
+                    <TextField
+                      fullWidth
+                      label="最低段位 Minimum ranks"
+                      name="groupRankBands"
+                      value={formData.groupRankBands}
+                      onChange={handleChange}
+                      helperText="One per group except the last, e.g. 3d, 5k"
+                    />
+                  </Grid>
+                )}
+              </>
+            )}
+
+            {formData.format === 'DOUBLEELIMINATION' && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={formData.bracketReset}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, bracketReset: e.target.checked }))}
+                    />
+                  }
+                  label="总决赛加赛 Bracket reset"
+                />
+              </Grid>
+            )}
+
+            <Grid item xs={12}>
+              <Divider sx={{ my: 2 }}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Handicap & Komi
+                </Typography>
+              </Divider>
+            </Grid>
+
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>让子规则 Handicap</InputLabel>
+                <Select
+                  value={formData.handicapPolicy}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, handicapPolicy: e.target.value as string }))}
+                >
+                  <MenuItem value="NONE">分先 No handicap</MenuItem>
+                  <MenuItem value="FULL">按段位差让子 Full rank difference</MenuItem>
+                  <MenuItem value="REDUCED">段位差减 N 让子 Difference minus N</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+
+            {formData.handicapPolicy === 'REDUCED' && (
+              <Grid item xs={12} sm={3}>
+                <TextField
+                  fullWidth
+                  label="N"
+                  name="handicapReduction"
+                  type="number"
+                  value={formData.handicapReduction}
+                  onChange={handleChange}
+                  inputProps={{ min: 0, max: 9 }}
+                />
+              </Grid>
+            )}
+
+            {formData.handicapPolicy !== 'NONE' && (
+              <Grid item xs={12} sm={3}>
+                <TextField
+                  fullWidth
+                  label="Max Handicap"
+                  name="maxHandicap"
+                  type="number"
+                  value={formData.maxHandicap}
+                  onChange={handleChange}
+                  inputProps={{ min: 0, max: 9 }}
+                  helperText="最多让 9 子"
+                />
+              </Grid>
+            )}
+
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Komi"
+                name="komi"
+                type="number"
+                value={formData.komi}
+                onChange={handleChange}
+                inputProps={{ step: 0.5 }}
+                helperText="分先对局贴目"
+              />
+            </Grid>
+
+            {formData.handicapPolicy !== 'NONE' && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Handicap Komi"
+                  name="handicapKomi"
+                  type="number"
+                  value={formData.handicapKomi}
+                  onChange={handleChange}
+                  inputProps={{ step: 0.5 }}
+                  helperText="让子对局贴目"
+                />
+              </Grid>
+            )}
+
+            {formData.format !== 'SINGLEELIMINATION' && formData.format !== 'DOUBLEELIMINATION' && (
+              <>
+                <Grid item xs={12} sm={6}>
+                  <FormControl fullWidth>
+                    <InputLabel>轮空分配 Bye assignment</InputLabel>
+                    <Select
+                      value={formData.byeAssignment}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, byeAssignment: e.target.value as string }))}
+                    >
+                      <MenuItem value="LOWEST_SCORE">积分最低 Lowest score</MenuItem>
+                      <MenuItem value="LOWEST_RANK">段位最低 Lowest rank</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Bye Points"
+                    name="byePoints"
+                    type="number"
+                    value={formData.byePoints}
+                    onChange={handleChange}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="轮空得分（胜 2，和 1）"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={formData.repeatByes}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, repeatByes: e.target.checked }))}
+                      />
+                    }
+                    label="允许重复轮空 Allow repeat byes"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={formData.byeCountsForSos}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, byeCountsForSos: e.target.checked }))}
+                      />
+                    }
+                    label="轮空计入对手分 Bye counts for SOS"
+                  />
+                </Grid>
+              </>
+            )}
+
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Max Participants"
+                name="maxParticipants"
+                type="number"
+                value={formData.maxParticipants}
+                onChange={handleChange}
+                inputProps={{ min: 2 }}
+                helperText="参赛人数上限，留空不限；满员后自助报名进入候补"
+              />
+            </Grid>
+
+            <Grid item xs={12} sm={6}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.requireApproval}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, requireApproval: e.target.checked }))}
+                  />
+                }
+                label="报名需审核 Require approval"
+              />
+            </Grid>
+
+            {(formData.format === 'SWISS' || formData.format === 'MCMAHON') && (
+              <>
+                <Grid item xs={12} sm={6}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={formData.requireCheckIn}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, requireCheckIn: e.target.checked }))}
+                      />
+                    }
+                    label="每轮需签到 Require check-in"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Late Entry Points"
+                    name="lateEntryPoints"
+                    type="number"
+                    value={formData.lateEntryPoints}
+                    onChange={handleChange}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="补报名选手每个缺席轮次补给的分数（胜 2，和 1）"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Skipped Round Points"
+                    name="skipRoundPoints"
+                    type="number"
+                    value={formData.skipRoundPoints}
+                    onChange={handleChange}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="请假一轮的得分"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Withdrawal Points"
+                    name="withdrawalPoints"
+                    type="number"
+                    value={formData.withdrawalPoints}
+                    onChange={handleChange}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="退赛后每轮的得分"
+                  />
+                </Grid>
+              </>
+            )}
+
+            <Grid item xs={12}>
+              <FormControl fullWidth>
+                <InputLabel>排名规则 Tie-breakers</InputLabel>
+                <Select
+                  multiple
+                  name="tieBreakers"
+                  value={formData.tieBreakers}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, tieBreakers: e.target.value as string[] }))}
+                  renderValue={(selected) => (selected as string[]).join(' > ')}
+                >
+                  <MenuItem value="MMS">MMS 主分</MenuItem>
+                  <MenuItem value="SOS">SOS 对手分</MenuItem>
+                  <MenuItem value="SOSOS">SOSOS 对手的对手分</MenuItem>
+                  <MenuItem value="SODOS">SODOS 所胜对手分</MenuItem>
+                  <MenuItem value="WINS">胜局数 Wins</MenuItem>
+                  <MenuItem value="CUT_SOS">Cut-SOS 去最低对手分</MenuItem>
+                  <MenuItem value="DIRECT">直接对局 Direct encounter</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+
             <Grid item xs={12} sm={6}>
               <TextField
                 fullWidth
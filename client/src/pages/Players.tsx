@@ -26,12 +26,18 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
 import axios from 'axios';
 import { api } from '../services/api';
+import PlayerImportDialog from '../components/PlayerImportDialog';
 
 interface Player {
   _id: string;
   name: string;
   rank: string;
   rating?: number;
+  club?: string;
+  country?: string;
+  agaId?: string;
+  egdPin?: string;
+  cwaId?: string;
   wins: number;
   losses: number;
   draws: number;
@@ -44,6 +50,11 @@ const Players = () => {
   const [error, setError] = useState('');
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
+  // 编辑俱乐部、国家和各协会会员号
+  const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
+  const [profile, setProfile] = useState({ club: '', country: '', agaId: '', egdPin: '', cwaId: '' });
+  const [profileError, setProfileError] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
 
   const fetchPlayers = async () => {
     try {
@@ -80,6 +91,32 @@ const Players = () => {
     }
   };
 
+  const openProfile = (player: Player) => {
+    setEditingPlayer(player);
+    setProfile({
+      club: player.club || '',
+      country: player.country || '',
+      agaId: player.agaId || '',
+      egdPin: player.egdPin || '',
+      cwaId: player.cwaId || '',
+    });
+    setProfileError('');
+  };
+
+  const handleSaveProfile = async () => {
+    if (!editingPlayer) return;
+    try {
+      await api.put(`/tournaments/players/${editingPlayer._id}`, profile);
+      setEditingPlayer(null);
+      fetchPlayers();
+      setSnackbarMessage('Player updated successfully');
+      setSnackbarOpen(true);
+    } catch (error) {
+      const data = (error as { response?: { data?: { message?: string; errors?: { msg: string }[] } } }).response?.data;
+      setProfileError(data?.message || data?.errors?.[0]?.msg || 'Failed to update player');
+    }
+  };
+
   const handleDeletePlayer = async (playerId: string) => {
     try {
       await api.delete(`/tournaments/players/${playerId}`);
@@ -99,9 +136,14 @@ const Players = () => {
         <Typography variant="h4" gutterBottom>
           Players
         </Typography>
-        <Button variant="contained" onClick={() => setOpenDialog(true)}>
-          Add Player
-        </Button>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="outlined" onClick={() => setImportOpen(true)}>
+            Import Players
+          </Button>
+          <Button variant="contained" onClick={() => setOpenDialog(true)}>
+            Add Player
+          </Button>
+        </Box>
       </Box>
 
       <TableContainer component={Paper}>
@@ -111,6 +153,8 @@ const Players = () => {
               <TableCell>Name</TableCell>
               <TableCell>Rank</TableCell>
               <TableCell>Rating</TableCell>
+              <TableCell>Country</TableCell>
+              <TableCell>AGA / EGD / 中国围协</TableCell>
               <TableCell>Win/Loss/Draw</TableCell>
               <TableCell>Actions</TableCell>
             </TableRow>
@@ -121,8 +165,15 @@ const Players = () => {
                 <TableCell>{player.name}</TableCell>
                 <TableCell>{player.rank}</TableCell>
                 <TableCell>{player.rating || 'N/A'}</TableCell>
+                <TableCell>{player.country || '-'}</TableCell>
+                <TableCell>
+                  {[player.agaId, player.egdPin, player.cwaId].map((id) => id || '-').join(' / ')}
+                </TableCell>
                 <TableCell>{`${player.wins}/${player.losses}/${player.draws}`}</TableCell>
                 <TableCell>
+                  <IconButton onClick={() => openProfile(player)}>
+                    <EditIcon />
+                  </IconButton>
                   <IconButton onClick={() => handleDeletePlayer(player._id)}>
                     <DeleteIcon />
                   </IconButton>
@@ -174,6 +225,63 @@ const Players = () => {
         </DialogActions>
       </Dialog>
 
+      <Dialog open={editingPlayer !== null} onClose={() => setEditingPlayer(null)}>
+        <DialogTitle>{editingPlayer?.name}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              label="Club"
+              value={profile.club}
+              onChange={(e) => setProfile({ ...profile, club: e.target.value })}
+            />
+            <TextField
+              label="Country"
+              value={profile.country}
+              onChange={(e) => setProfile({ ...profile, country: e.target.value.toUpperCase() })}
+              inputProps={{ maxLength: 2 }}
+              helperText="Two-letter code, e.g. CN"
+            />
+            <TextField
+              label="AGA ID"
+              value={profile.agaId}
+              onChange={(e) => setProfile({ ...profile, agaId: e.target.value })}
+            />
+            <TextField
+              label="EGD PIN"
+              value={profile.egdPin}
+              onChange={(e) => setProfile({ ...profile, egdPin: e.target.value })}
+            />
+            <TextField
+              label="中国围棋协会 ID"
+              value={profile.cwaId}
+              onChange={(e) => setProfile({ ...profile, cwaId: e.target.value })}
+            />
+            {profileError && (
+              <Typography color="error">
+                {profileError}
+              </Typography>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingPlayer(null)}>Cancel</Button>
+          <Button onClick={handleSaveProfile} variant="contained">
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <PlayerImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={(result) => {
+          setImportOpen(false);
+          fetchPlayers();
+          setSnackbarMessage(`Imported players: ${result.created} new, ${result.matched} existing`);
+          setSnackbarOpen(true);
+        }}
+      />
+
       <Snackbar
         open={snackbarOpen}
         autoHideDuration={6000}
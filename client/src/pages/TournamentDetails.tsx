@@ -21,9 +21,16 @@ import {
   InputLabel,
   Snackbar,
   Stack,
-  Checkbox
+  Checkbox,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
-import { api } from '../services/api';
+import PlayerImportDialog from '../components/PlayerImportDialog';
+import { api, TournamentAPI, RegistrationQueue, RegistrationStatus, RoundRobinSchedule, StageList, TournamentFormat, GroupList, Team, TeamAPI, TournamentTeams } from '../services/api';
 
 interface Tournament {
   _id: string;
@@ -33,6 +40,10 @@ interface Tournament {
   endDate: string;
   status: string;
   description?: string;
+  maxParticipants?: number | null;
+  parentTournament?: string | null;
+  groupMethod?: string | null;
+  boardCount?: number | null;
   players?: Array<{
     _id: string;
     name: string;
@@ -46,6 +57,14 @@ interface Player {
   rank: string;
 }
 
+const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  [RegistrationStatus.PENDING]: '待审核 Pending',
+  [RegistrationStatus.CONFIRMED]: '已确认 Confirmed',
+  [RegistrationStatus.WAITLISTED]: '候补 Waitlisted',
+  [RegistrationStatus.WITHDRAWN]: '已退出 Withdrawn',
+  [RegistrationStatus.REJECTED]: '已拒绝 Rejected'
+};
+
 enum TournamentStatus {
   UPCOMING = 'UPCOMING',
   ONGOING = 'ONGOING',
@@ -61,10 +80,24 @@ const TournamentDetails = () => {
   const [newPlayer, setNewPlayer] = useState({ name: '', rank: '' });
   const [error, setError] = useState('');
   const [snackbarOpen, setSnackbarOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [existingPlayers, setExistingPlayers] = useState<Player[]>([]);
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
   const [page, setPage] = useState(0);
   const [rowsPerPage] = useState(10);
+  const [queue, setQueue] = useState<RegistrationQueue | null>(null);
+  const [schedule, setSchedule] = useState<RoundRobinSchedule | null>(null);
+  const [stages, setStages] = useState<StageList | null>(null);
+  const [groups, setGroups] = useState<GroupList | null>(null);
+  const [teams, setTeams] = useState<TournamentTeams | null>(null);
+  const [existingTeams, setExistingTeams] = useState<Team[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState('');
+  const [newStage, setNewStage] = useState({
+    name: '',
+    format: TournamentFormat.SINGLEELIMINATION,
+    method: 'TOP_N' as 'TOP_N' | 'GROUP_WINNERS',
+    count: 8
+  });
 
   // 过滤掉已经添加的选手
   const availablePlayers = existingPlayers.filter(player => 
@@ -85,6 +118,21 @@ const TournamentDetails = () => {
         console.log('Players:', response.data.players);
       }
       setTournament(response.data);
+      setQueue(await TournamentAPI.getRegistrations(id!));
+      // 循环赛：显示完整赛程（开赛前为预览）
+      if (response.data.format === 'ROUNDROBIN' && response.data.players?.length >= 2) {
+        setSchedule(await TournamentAPI.getSchedule(id!));
+      }
+      setStages(await TournamentAPI.getStages(id!));
+      // 分组赛：显示各组选手（开赛前为预览）
+      if (response.data.groupMethod && ['ROUNDROBIN', 'SWISS'].includes(response.data.format)) {
+        setGroups(await TournamentAPI.getGroups(id!));
+      }
+      // 团体赛：显示参赛队伍和名单
+      if (response.data.boardCount) {
+        setTeams(await TournamentAPI.getTeams(id!));
+        setExistingTeams(await TeamAPI.getAll());
+      }
     } catch (error) {
       console.error('Error fetching tournament:', error);
       setError('Failed to fetch tournament data');
@@ -92,6 +140,12 @@ const TournamentDetails = () => {
     }
   };
 
+  // 团体循环赛的赛程中是队伍
+  const playerName = (playerId: string) =>
+    tournament?.players?.find(player => player._id === playerId)?.name
+      || teams?.teams.find(entry => entry.team._id === playerId)?.team.name
+      || '?';
+
   const fetchExistingPlayers = async () => {
     try {
       const response = await api.get(`/tournaments/players`);
@@ -148,6 +202,84 @@ const TournamentDetails = () => {
     }
   };
 
+  // 审核报名、拒绝或退出，完成后刷新选手列表和报名队列
+  const handleRegistrationAction = async (action: 'approve' | 'reject' | 'withdraw', playerId: string) => {
+    try {
+      if (action === 'approve') {
+        await TournamentAPI.approveRegistration(id!, playerId);
+      } else if (action === 'reject') {
+        await TournamentAPI.rejectRegistration(id!, playerId);
+      } else {
+        await TournamentAPI.withdrawRegistration(id!, playerId);
+      }
+      await fetchTournament();
+    } catch (error) {
+      console.error(`Error (${action}) registration:`, error);
+      const response = (error as { response?: { data?: { message?: string } } }).response;
+      setError(response?.data?.message || 'Failed to update registration');
+      setSnackbarOpen(true);
+    }
+  };
+
+  // 在最后追加一个阶段，上一阶段结束时晋级选手自动进入
+  const handleAddTeam = async () => {
+    try {
+      setTeams(await TournamentAPI.addTeam(id!, selectedTeam));
+      setSelectedTeam('');
+      fetchTournament();
+    } catch (error) {
+      console.error('Error adding team:', error);
+      const response = (error as { response?: { data?: { message?: string } } }).response;
+      setError(response?.data?.message || 'Failed to add team');
+      setSnackbarOpen(true);
+    }
+  };
+
+  const handleRemoveTeam = async (teamId: string) => {
+    try {
+      setTeams(await TournamentAPI.removeTeam(id!, teamId));
+      fetchTournament();
+    } catch (error) {
+      console.error('Error removing team:', error);
+      const response = (error as { response?: { data?: { message?: string } } }).response;
+      setError(response?.data?.message || 'Failed to remove team');
+      setSnackbarOpen(true);
+    }
+  };
+
+  // 下载 OpenGotha 文件，便于在 OpenGotha 中继续比赛
+  const handleExportOpenGotha = async () => {
+    try {
+      const blob = await TournamentAPI.exportOpenGotha(id!);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${tournament?.name || 'tournament'}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting OpenGotha file:', error);
+      setError('Failed to export OpenGotha file');
+      setSnackbarOpen(true);
+    }
+  };
+
+  const handleAddStage = async () => {
+    try {
+      setStages(await TournamentAPI.addStage(id!, {
+        name: newStage.name,
+        format: newStage.format,
+        qualification: { method: newStage.method, count: newStage.count }
+      }));
+      setNewStage(prev => ({ ...prev, name: '' }));
+    } catch (error) {
+      console.error('Error adding stage:', error);
+      const response = (error as { response?: { data?: { message?: string } } }).response;
+      setError(response?.data?.message || 'Failed to add stage');
+      setSnackbarOpen(true);
+    }
+  };
+
   const handlePlayerSelect = (playerId: string) => {
     setSelectedPlayers(prev => {
       if (prev.includes(playerId)) {
@@ -291,6 +423,22 @@ const TournamentDetails = () => {
           >
             Add Player
           </Button>
+          {!tournament.boardCount && !tournament.parentTournament && (
+            <Button
+              variant="outlined"
+              onClick={() => setImportOpen(true)}
+              sx={{ mr: 2 }}
+            >
+              Import Players
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            onClick={handleExportOpenGotha}
+            sx={{ mr: 2 }}
+          >
+            Export OpenGotha
+          </Button>
           <StatusButton />
         </Box>
       </Box>
@@ -339,7 +487,13 @@ const TournamentDetails = () => {
               {tournament.players && tournament.players.length > 0 ? (
                 tournament.players.map((player, index) => (
                   <div key={`player-${player._id}-${index}`}>
-                    <ListItem>
+                    <ListItem
+                      secondaryAction={tournament.status === TournamentStatus.UPCOMING && (
+                        <Button size="small" color="error" onClick={() => handleRegistrationAction('withdraw', player._id)}>
+                          Withdraw
+                        </Button>
+                      )}
+                    >
                       <ListItemText
                         primary={player.name}
                         secondary={`Rank: ${player.rank}`}
@@ -355,6 +509,237 @@ const TournamentDetails = () => {
               )}
             </List>
           </Paper>
+
+          {queue && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Registration Queue
+              </Typography>
+              <Typography color="textSecondary" gutterBottom>
+                已确认 {queue.confirmedCount}{queue.maxParticipants ? ` / ${queue.maxParticipants}` : ''}
+                {queue.requireApproval && ' · 报名需审核'}
+              </Typography>
+              <List>
+                {queue.registrations.filter(entry => entry.status !== RegistrationStatus.CONFIRMED).length > 0 ? (
+                  queue.registrations
+                    .filter(entry => entry.status !== RegistrationStatus.CONFIRMED)
+                    .map(entry => (
+                      <div key={`registration-${entry.player._id}`}>
+                        <ListItem
+                          secondaryAction={tournament.status === TournamentStatus.UPCOMING
+                            && (entry.status === RegistrationStatus.PENDING || entry.status === RegistrationStatus.WAITLISTED) && (
+                            <Stack direction="row" spacing={1}>
+                              <Button size="small" onClick={() => handleRegistrationAction('approve', entry.player._id)}>
+                                Approve
+                              </Button>
+                              <Button size="small" color="error" onClick={() => handleRegistrationAction('reject', entry.player._id)}>
+                                Reject
+                              </Button>
+                            </Stack>
+                          )}
+                        >
+                          <ListItemText
+                            primary={
+                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                {entry.player.name}
+                                <Chip size="small" label={REGISTRATION_STATUS_LABELS[entry.status]} />
+                                {entry.waitlistPosition && (
+                                  <Typography variant="caption" color="textSecondary">
+                                    #{entry.waitlistPosition}
+                                  </Typography>
+                                )}
+                              </Box>
+                            }
+                            secondary={`Rank: ${entry.player.rank}`}
+                          />
+                        </ListItem>
+                        <Divider />
+                      </div>
+                    ))
+                ) : (
+                  <Typography color="textSecondary" sx={{ p: 2 }}>
+                    No pending or waitlisted registrations.
+                  </Typography>
+                )}
+              </List>
+            </Paper>
+          )}
+
+          {stages && (stages.stages.length > 0 || (!tournament?.parentTournament && tournament?.status !== TournamentStatus.COMPLETED)) && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Stages 比赛阶段
+              </Typography>
+              <List>
+                {stages.stages.map((stage, index) => (
+                  <ListItem
+                    key={stage.tournament._id}
+                    sx={{ cursor: 'pointer', bgcolor: stage.tournament._id === id ? 'action.selected' : undefined }}
+                    onClick={() => navigate(`/tournament/${stage.tournament._id}`)}
+                  >
+                    <ListItemText
+                      primary={`${index + 1}. ${stage.name} (${stage.tournament.format})`}
+                      secondary={stage.qualification
+                        ? `${stage.qualification.method === 'TOP_N' ? '前' : '每组前'} ${stage.qualification.count} 名晋级`
+                          + (stage.qualifiedAt ? ` · 已晋级 ${stage.tournament.players.length} 人` : '')
+                        : `${stage.tournament.players.length} 名选手`}
+                    />
+                    <Chip label={stage.tournament.status} size="small" />
+                  </ListItem>
+                ))}
+              </List>
+              {!tournament?.parentTournament && tournament?.status !== TournamentStatus.COMPLETED && (
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <TextField
+                    size="small"
+                    label="Stage name"
+                    value={newStage.name}
+                    onChange={(e) => setNewStage(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                  <Select
+                    size="small"
+                    value={newStage.format}
+                    onChange={(e) => setNewStage(prev => ({ ...prev, format: e.target.value as TournamentFormat }))}
+                  >
+                    {Object.values(TournamentFormat).map(format => (
+                      <MenuItem key={format} value={format}>{format}</MenuItem>
+                    ))}
+                  </Select>
+                  <Select
+                    size="small"
+                    value={newStage.method}
+                    onChange={(e) => setNewStage(prev => ({ ...prev, method: e.target.value as 'TOP_N' | 'GROUP_WINNERS' }))}
+                  >
+                    <MenuItem value="TOP_N">前 N 名</MenuItem>
+                    <MenuItem value="GROUP_WINNERS">每组前 N 名</MenuItem>
+                  </Select>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="N"
+                    value={newStage.count}
+                    onChange={(e) => setNewStage(prev => ({ ...prev, count: Number(e.target.value) }))}
+                    sx={{ width: 80 }}
+                  />
+                  <Button variant="outlined" disabled={!newStage.name} onClick={handleAddStage}>
+                    Add Stage
+                  </Button>
+                </Stack>
+              )}
+            </Paper>
+          )}
+
+          {teams && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Teams 参赛队伍（每场 {teams.boardCount} 台）
+              </Typography>
+              <Grid container spacing={2}>
+                {teams.teams.map(entry => (
+                  <Grid item xs={12} sm={6} key={entry.team._id}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="subtitle1">
+                        {entry.team.name}{entry.team.club ? ` · ${entry.team.club}` : ''}
+                      </Typography>
+                      {tournament?.status === TournamentStatus.UPCOMING && (
+                        <Button size="small" color="error" onClick={() => handleRemoveTeam(entry.team._id)}>
+                          Remove
+                        </Button>
+                      )}
+                    </Stack>
+                    <List dense>
+                      {entry.roster.map((player, index) => (
+                        <ListItem key={player._id}>
+                          <ListItemText
+                            primary={player.name}
+                            secondary={`${player.rank}${index >= (teams.boardCount || 0) ? ' · 替补 Reserve' : ''}`}
+                          />
+                        </ListItem>
+                      ))}
+                    </List>
+                  </Grid>
+                ))}
+              </Grid>
+              {tournament?.status === TournamentStatus.UPCOMING && (
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 2 }}>
+                  <FormControl size="small" sx={{ minWidth: 200 }}>
+                    <InputLabel>Team</InputLabel>
+                    <Select
+                      value={selectedTeam}
+                      label="Team"
+                      onChange={(e) => setSelectedTeam(e.target.value)}
+                    >
+                      {existingTeams
+                        .filter(team => !teams.teams.some(entry => entry.team._id === team._id))
+                        .map(team => (
+                          <MenuItem key={team._id} value={team._id}>{team.name}</MenuItem>
+                        ))}
+                    </Select>
+                  </FormControl>
+                  <Button variant="outlined" disabled={!selectedTeam} onClick={handleAddTeam}>
+                    Add Team
+                  </Button>
+                </Stack>
+              )}
+            </Paper>
+          )}
+
+          {groups && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Groups 分组{groups.published ? '' : '（预览）'}
+              </Typography>
+              <Grid container spacing={2}>
+                {groups.groups.map(group => (
+                  <Grid item xs={12} sm={6} key={group.name}>
+                    <Typography variant="subtitle1">
+                      {group.name} ({group.players.length})
+                    </Typography>
+                    <List dense>
+                      {group.players.map(player => (
+                        <ListItem key={player._id}>
+                          <ListItemText primary={player.name} secondary={player.rank} />
+                        </ListItem>
+                      ))}
+                    </List>
+                  </Grid>
+                ))}
+              </Grid>
+            </Paper>
+          )}
+
+          {schedule && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Schedule 赛程{schedule.published ? '' : '（预览）'}
+              </Typography>
+              <Typography color="textSecondary" gutterBottom>
+                {schedule.doubleRoundRobin ? '双循环，第二循环交换黑白' : '单循环'} · 先列出的一方执黑
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Round</TableCell>
+                    <TableCell>Pairings</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {schedule.rounds.map(round => (
+                    <TableRow key={round.roundNumber}>
+                      <TableCell>R{round.roundNumber}</TableCell>
+                      <TableCell>
+                        {round.pairings
+                          .map(pairing => (pairing.group ? `[${pairing.group}] ` : '') + (pairing.white
+                            ? `${playerName(pairing.black)} - ${playerName(pairing.white)}`
+                            : `${playerName(pairing.black)} 轮空`))
+                          .join(' · ')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
         </Grid>
 
         <Grid item xs={12} md={4}>
@@ -592,6 +977,18 @@ const TournamentDetails = () => {
         </DialogActions>
       </Dialog>
 
+      <PlayerImportDialog
+        open={importOpen}
+        tournamentId={id}
+        onClose={() => setImportOpen(false)}
+        onImported={(result) => {
+          setImportOpen(false);
+          fetchTournament();
+          setError(`Imported players: ${result.created} new, ${result.added} added to the tournament`);
+          setSnackbarOpen(true);
+        }}
+      />
+
       <Snackbar
         open={snackbarOpen}
         autoHideDuration={6000}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -28,11 +28,14 @@ import {
   FormLabel,
   RadioGroup,
   FormControlLabel,
-  Radio
+  Radio,
+  TextField,
+  Checkbox
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { api, TournamentAPI } from '../services/api';
+import { api, TournamentAPI, MatchResultType, ResultReason, AttendanceSheet, PrintDocument } from '../services/api';
 import { useSnackbar } from 'notistack';
+import { isAxiosError } from 'axios';
 
 // Styled components
 const StyledPaper = styled(Paper)(({ theme }) => ({
@@ -82,12 +85,81 @@ interface Match {
   player1: Player;
   player2: Player;
   winner?: Player;
+  result?: string;
+  resultType?: MatchResultType | null;
+  black?: string | null;
+  white?: string | null;
+  nigiri?: boolean;
+  handicap?: number;
+  komi?: number;
+  margin?: number | null;
+  reason?: ResultReason | null;
+  bye?: boolean;
+  group?: string | null;
+  board?: number | null;
   score?: {
     player1: number;
     player2: number;
   };
 }
 
+const RESULT_TYPE_LABELS: Record<MatchResultType, string> = {
+  [MatchResultType.BLACK_WIN]: '黑胜 B+',
+  [MatchResultType.WHITE_WIN]: '白胜 W+',
+  [MatchResultType.JIGO]: '和棋 Jigo',
+  [MatchResultType.FORFEIT_WIN]: '不战而胜 Forfeit win',
+  [MatchResultType.DOUBLE_FORFEIT]: '双方弃权 Double forfeit',
+  [MatchResultType.DOUBLE_LOSS]: '双方判负 Double loss',
+  [MatchResultType.NOT_PLAYED]: '未下 Not played',
+};
+
+const PRINT_DOCUMENTS: { document: PrintDocument; label: string }[] = [
+  { document: 'pairings', label: '对阵表 Pairings' },
+  { document: 'slips', label: '成绩单 Slips' },
+  { document: 'wallchart', label: '交叉表 Wall chart' },
+];
+
+// 轮空：旧数据没有 bye 字段时为自己对阵自己
+const isBye = (match: Match) => Boolean(match.bye) || match.player1._id === match.player2._id;
+
+// 与服务端计分规则一致：胜2分，和1分，其余0分，轮空按赛事设置；未录入结果返回 null
+const getMatchPoints = (match: Match, byePoints: number = 2): [number, number] | null => {
+  if (isBye(match)) {
+    return [byePoints, 0];
+  }
+  switch (match.resultType) {
+    case MatchResultType.JIGO:
+      return [1, 1];
+    case MatchResultType.DOUBLE_FORFEIT:
+    case MatchResultType.DOUBLE_LOSS:
+    case MatchResultType.NOT_PLAYED:
+      return [0, 0];
+  }
+  if (match.winner) {
+    return match.winner._id === match.player1._id ? [2, 0] : [0, 2];
+  }
+  if (match.result === 'DRAW') {
+    return [1, 1];
+  }
+  return null;
+};
+
+const hasResult = (match: Match) => getMatchPoints(match) !== null;
+
+// 让子和贴目，例如 "让2子 贴0.5目"、"分先 贴7.5目"
+const handicapLabel = (match: Match) => {
+  if (isBye(match) || match.komi == null) return '';
+  const handicap = match.handicap ? `让${match.handicap}子` : '分先';
+  return `${handicap} 贴${match.komi}目`;
+};
+
+// 旧数据没有 black 字段时 player1 执黑
+const colorLabel = (match: Match, player: Player) => {
+  if (isBye(match)) return '';
+  const isBlack = match.black ? match.black === player._id : match.player1._id === player._id;
+  return isBlack ? '黑' : '白';
+};
+
 interface Round {
   roundNumber: number;
   matches: Match[];
@@ -101,23 +173,38 @@ interface Tournament {
   rounds: Round[];
   status: string;
   players: Player[];
+  byePoints?: number;
 }
 
 interface RecordResultDialogProps {
   open: boolean;
   onClose: () => void;
   match: Match | null;
-  onSave: (winnerId: string) => void;
+  onSave: (payload: MatchResultPayload) => void;
+}
+
+interface MatchResultPayload {
+  winnerId?: string;
+  resultType?: MatchResultType;
+  reason?: ResultReason;
+  margin?: number;
 }
 
 const RecordResultDialog = ({ open, onClose, match, onSave }: RecordResultDialogProps) => {
   const [selectedWinner, setSelectedWinner] = useState<string>('');
+  // 空字符串表示正常对局，由胜者推出 B+ / W+
+  const [resultType, setResultType] = useState<MatchResultType | ''>('');
+  const [reason, setReason] = useState<ResultReason | ''>('');
+  const [margin, setMargin] = useState<string>('');
   const { enqueueSnackbar } = useSnackbar();
 
   useEffect(() => {
     if (open) {
       // 重置状态
       setSelectedWinner('');
+      setResultType('');
+      setReason('');
+      setMargin('');
     }
   }, [open, match]);
 
@@ -125,9 +212,29 @@ const RecordResultDialog = ({ open, onClose, match, onSave }: RecordResultDialog
     return null;
   }
 
+  const needsWinner = resultType === '' || resultType === MatchResultType.FORFEIT_WIN;
+  const isNormalGame = resultType === '';
+  const marginInvalid = reason === ResultReason.SCORE && margin !== '' && !(Number(margin) >= 0);
+
+  const handleSave = () => {
+    onSave({
+      ...(needsWinner && { winnerId: selectedWinner }),
+      ...(resultType && { resultType }),
+      ...(isNormalGame && reason && { reason }),
+      ...(isNormalGame && reason === ResultReason.SCORE && margin !== '' && { margin: Number(margin) }),
+    });
+  };
+
   return (
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
-      <DialogTitle>Record Match Result</DialogTitle>
+      <DialogTitle>
+        Record Match Result
+        {handicapLabel(match) && (
+          <Typography variant="body2" color="text.secondary">
+            {handicapLabel(match)}
+          </Typography>
+        )}
+      </DialogTitle>
       <DialogContent>
         <Box sx={{ 
           display: 'flex', 
@@ -135,6 +242,23 @@ const RecordResultDialog = ({ open, onClose, match, onSave }: RecordResultDialog
           gap: 2,
           mt: 1
         }}>
+          <FormControl fullWidth>
+            <InputLabel>Result Type</InputLabel>
+            <Select
+              label="Result Type"
+              value={resultType}
+              onChange={(e) => setResultType(e.target.value as MatchResultType | '')}
+            >
+              <MenuItem value="">正常对局 Normal game</MenuItem>
+              <MenuItem value={MatchResultType.FORFEIT_WIN}>{RESULT_TYPE_LABELS[MatchResultType.FORFEIT_WIN]}</MenuItem>
+              <MenuItem value={MatchResultType.JIGO}>{RESULT_TYPE_LABELS[MatchResultType.JIGO]}</MenuItem>
+              <MenuItem value={MatchResultType.DOUBLE_FORFEIT}>{RESULT_TYPE_LABELS[MatchResultType.DOUBLE_FORFEIT]}</MenuItem>
+              <MenuItem value={MatchResultType.DOUBLE_LOSS}>{RESULT_TYPE_LABELS[MatchResultType.DOUBLE_LOSS]}</MenuItem>
+              <MenuItem value={MatchResultType.NOT_PLAYED}>{RESULT_TYPE_LABELS[MatchResultType.NOT_PLAYED]}</MenuItem>
+            </Select>
+          </FormControl>
+
+          {needsWinner && (
           <FormControl>
             <FormLabel>Select Winner</FormLabel>
             <RadioGroup
@@ -207,14 +331,44 @@ const RecordResultDialog = ({ open, onClose, match, onSave }: RecordResultDialog
               </Box>
             </RadioGroup>
           </FormControl>
+          )}
+
+          {isNormalGame && (
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth>
+                <InputLabel>Reason</InputLabel>
+                <Select
+                  label="Reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as ResultReason | '')}
+                >
+                  <MenuItem value="">未注明 Not specified</MenuItem>
+                  <MenuItem value={ResultReason.RESIGNATION}>中盘胜 Resignation</MenuItem>
+                  <MenuItem value={ResultReason.SCORE}>数子 Score</MenuItem>
+                  <MenuItem value={ResultReason.TIME}>超时 Time</MenuItem>
+                </Select>
+              </FormControl>
+              {reason === ResultReason.SCORE && (
+                <TextField
+                  fullWidth
+                  label="Margin (points)"
+                  type="number"
+                  inputProps={{ min: 0, step: 0.5 }}
+                  value={margin}
+                  onChange={(e) => setMargin(e.target.value)}
+                  error={marginInvalid}
+                />
+              )}
+            </Box>
+          )}
         </Box>
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose}>Cancel</Button>
         <Button
           variant="contained"
-          onClick={() => onSave(selectedWinner)}
-          disabled={!selectedWinner}
+          onClick={handleSave}
+          disabled={(needsWinner && !selectedWinner) || marginInvalid}
         >
           Save Result
         </Button>
@@ -223,6 +377,105 @@ const RecordResultDialog = ({ open, onClose, match, onSave }: RecordResultDialog
   );
 };
 
+// 下一轮签到：取消勾选的选手本轮缺席，不参加编排
+const AttendancePanel = ({ tournamentId, roundCount }: { tournamentId: string; roundCount: number }) => {
+  const [attendance, setAttendance] = useState<AttendanceSheet | null>(null);
+  const [present, setPresent] = useState<Record<string, boolean>>({});
+  const { enqueueSnackbar } = useSnackbar();
+
+  const loadAttendance = useCallback(() => {
+    TournamentAPI.getAttendance(tournamentId)
+      .then(sheet => {
+        setAttendance(sheet);
+        setPresent(Object.fromEntries(sheet.players.map(entry => [entry.player._id, entry.present])));
+      })
+      .catch(error => console.error('Error fetching attendance:', error));
+  }, [tournamentId]);
+
+  useEffect(() => {
+    loadAttendance();
+  }, [loadAttendance, roundCount]);
+
+  if (!attendance) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    try {
+      const sheet = await TournamentAPI.setAttendance(
+        tournamentId,
+        attendance.roundNumber,
+        attendance.players.map(entry => ({ player: entry.player._id, present: Boolean(present[entry.player._id]) }))
+      );
+      setAttendance(sheet);
+      enqueueSnackbar(`第 ${sheet.roundNumber} 轮签到已保存`, { variant: 'success' });
+    } catch (error) {
+      console.error('Error saving attendance:', error);
+      enqueueSnackbar('保存签到失败', { variant: 'error' });
+    }
+  };
+
+  // 退赛从下一轮起生效；撤销只对尚未编排的轮次有效
+  const handleWithdraw = async (playerId: string, withdrawn: boolean) => {
+    try {
+      if (withdrawn) {
+        await TournamentAPI.reinstatePlayer(tournamentId, playerId);
+      } else {
+        await TournamentAPI.withdrawPlayer(tournamentId, playerId);
+      }
+      loadAttendance();
+    } catch (error) {
+      console.error('Error updating withdrawal:', error);
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      enqueueSnackbar(message || '操作失败', { variant: 'error' });
+    }
+  };
+
+  const presentCount = attendance.players.filter(entry => present[entry.player._id]).length;
+
+  return (
+    <StyledPaper>
+      <Box display="flex" alignItems="center" mb={1}>
+        <Typography variant="h6" style={{ flexGrow: 1 }}>
+          Round {attendance.roundNumber} Attendance 签到
+        </Typography>
+        <Typography color="textSecondary" sx={{ mr: 2 }}>
+          到场 {presentCount} / {attendance.players.length}
+        </Typography>
+        <Button variant="outlined" onClick={handleSave}>
+          Save Attendance
+        </Button>
+      </Box>
+      {attendance.requireCheckIn && (
+        <Typography variant="caption" color="textSecondary">
+          本比赛要求签到，未签到的选手不参加编排
+        </Typography>
+      )}
+      <Grid container>
+        {attendance.players.map(entry => (
+          <Grid item xs={6} sm={4} md={3} key={entry.player._id}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={Boolean(present[entry.player._id])}
+                  disabled={entry.withdrawnFromRound !== null}
+                  onChange={(e) => setPresent(prev => ({ ...prev, [entry.player._id]: e.target.checked }))}
+                />
+              }
+              label={`${entry.player.name} ${entry.player.rank}`}
+            />
+            {roundCount > 0 && (
+              <Button size="small" onClick={() => handleWithdraw(entry.player._id, entry.withdrawnFromRound !== null)}>
+                {entry.withdrawnFromRound !== null ? '撤销退赛' : '退赛'}
+              </Button>
+            )}
+          </Grid>
+        ))}
+      </Grid>
+    </StyledPaper>
+  );
+};
+
 const ResultsTable = ({ results }: { results: any[] }) => (
   <TableContainer component={Paper}>
     <Table>
@@ -280,13 +533,11 @@ const TournamentMatches = () => {
     // 计算每个选手的积分
     tournament.rounds.forEach(round => {
       round.matches.forEach(match => {
-        if (match.winner) {
-          // 胜者得2分
-          scores.set(match.winner._id, (scores.get(match.winner._id) || 0) + 2);
-        } else if (match.result === 'DRAW') {
-          // 平局各得1分
-          scores.set(match.player1._id, (scores.get(match.player1._id) || 0) + 1);
-          scores.set(match.player2._id, (scores.get(match.player2._id) || 0) + 1);
+        const points = getMatchPoints(match, tournament.byePoints);
+        if (!points) return;
+        scores.set(match.player1._id, (scores.get(match.player1._id) || 0) + points[0]);
+        if (match.player2._id !== match.player1._id) {
+          scores.set(match.player2._id, (scores.get(match.player2._id) || 0) + points[1]);
         }
       });
     });
@@ -319,7 +570,7 @@ const TournamentMatches = () => {
 
   const currentRoundNumber = tournament.rounds?.length || 0;
   const currentRound = tournament.rounds?.[currentRoundNumber - 1];
-  const isLastRoundComplete = currentRound?.matches?.every(match => match.winner != null) || false;
+  const isLastRoundComplete = currentRound?.matches?.every(hasResult) || false;
   const canGenerateNextRound = tournament.status === 'ONGOING' && currentRound && isLastRoundComplete;
 
   console.log('Debug button visibility:', {
@@ -372,7 +623,7 @@ const TournamentMatches = () => {
 
     // 2. 检查当前轮次完成要求
     const currentRound = tournament.rounds[tournament.rounds.length - 1];
-    const isCurrentRoundComplete = currentRound?.matches.every(match => match.winner != null) || false;
+    const isCurrentRoundComplete = currentRound?.matches.every(hasResult) || false;
     canEndTournament = canEndTournament && isCurrentRoundComplete;
 
     message += `2. 当前轮次完成要求：${isCurrentRoundComplete ? '✅' : '❌'}\n`;
@@ -423,13 +674,14 @@ const TournamentMatches = () => {
     }
   };
 
-  const handleRecordResult = async (winnerId: string) => {
+  const handleRecordResult = async (payload: MatchResultPayload) => {
     if (!selectedMatch) {
       enqueueSnackbar('Match is required', { variant: 'error' });
       return;
     }
 
-    if (!winnerId) {
+    const { winnerId, resultType } = payload;
+    if (!winnerId && !resultType) {
       enqueueSnackbar('Winner ID is required', { variant: 'error' });
       return;
     }
@@ -441,23 +693,24 @@ const TournamentMatches = () => {
         selectedMatch.player2?._id || ''
       ].filter(id => id !== '');
 
-      if (!validPlayers.includes(winnerId)) {
+      if (winnerId && !validPlayers.includes(winnerId)) {
         enqueueSnackbar('Invalid winner selected', { variant: 'error' });
         return;
       }
 
       const response = await api.put(
         `/tournaments/${id}/matches/${selectedMatch._id}/result`,
-        { winnerId }
+        payload
       );
 
       enqueueSnackbar('Match result recorded successfully', { variant: 'success' });
       setOpenDialog(false);
       setSelectedMatch(null);
       await fetchTournament();
-    } catch (error) {
+    } catch (error: unknown) {
       console.error('Error recording result:', error);
-      enqueueSnackbar('Failed to record match result', { variant: 'error' });
+      const message = isAxiosError<{ message?: string }>(error) ? error.response?.data?.message : undefined;
+      enqueueSnackbar(message || 'Failed to record match result', { variant: 'error' });
     }
   };
 
@@ -511,6 +764,25 @@ const TournamentMatches = () => {
               <Typography variant="h5" style={{ flexGrow: 1 }}>
                 Round {roundIndex + 1}
               </Typography>
+              {/* 打印本轮的对阵表、成绩单和交叉表 */}
+              {PRINT_DOCUMENTS.map(({ document, label }) => (
+                <Box key={document} sx={{ mr: 1 }}>
+                  <Button
+                    size="small"
+                    href={TournamentAPI.getPrintUrl(id!, round.roundNumber, document)}
+                    target="_blank"
+                  >
+                    {label}
+                  </Button>
+                  <Button
+                    size="small"
+                    href={TournamentAPI.getPrintUrl(id!, round.roundNumber, document, 'pdf')}
+                    target="_blank"
+                  >
+                    PDF
+                  </Button>
+                </Box>
+              ))}
               {roundIndex === tournament.rounds.length - 1 && (
                 <IconButton
                   onClick={() => {
@@ -531,6 +803,7 @@ const TournamentMatches = () => {
                     <Grid item xs={5} style={{ textAlign: 'right' }}>
                       <Typography>
                         {match.player1.name} {match.player1.rank}
+                        {colorLabel(match, match.player1) && ` [${colorLabel(match, match.player1)}]`}
                         {/* 显示选手1的积分 */}
                         <Typography component="span" color="textSecondary" style={{ marginLeft: 8 }}>
                           ({playerScores.get(match.player1._id) || 0}分)
@@ -538,25 +811,45 @@ const TournamentMatches = () => {
                       </Typography>
                     </Grid>
                     <Grid item xs={2} style={{ textAlign: 'center' }}>
+                      {(match.group || match.board) && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          {match.group}{match.board ? ` 第${match.board}台 Board ${match.board}` : ''}
+                        </Typography>
+                      )}
                       <Typography>vs</Typography>
+                      {handicapLabel(match) && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          {handicapLabel(match)}
+                        </Typography>
+                      )}
+                      {match.nigiri && (
+                        <Typography variant="caption" color="textSecondary">猜先 Nigiri</Typography>
+                      )}
                     </Grid>
                     <Grid item xs={5} style={{ textAlign: 'left' }}>
-                      <Typography>
-                        {match.player2.name} {match.player2.rank}
-                        {/* 显示选手2的积分 */}
-                        <Typography component="span" color="textSecondary" style={{ marginLeft: 8 }}>
-                          ({playerScores.get(match.player2._id) || 0}分)
+                      {isBye(match) ? (
+                        <Typography color="textSecondary">轮空 Bye</Typography>
+                      ) : (
+                        <Typography>
+                          {match.player2.name} {match.player2.rank}
+                          {colorLabel(match, match.player2) && ` [${colorLabel(match, match.player2)}]`}
+                          {/* 显示选手2的积分 */}
+                          <Typography component="span" color="textSecondary" style={{ marginLeft: 8 }}>
+                            ({playerScores.get(match.player2._id) || 0}分)
+                          </Typography>
                         </Typography>
-                      </Typography>
+                      )}
                     </Grid>
                   </Grid>
                   
-                  {match.winner ? (
+                  {hasResult(match) ? (
                     <Typography
                       color="primary"
                       style={{ textAlign: 'center', marginTop: '8px' }}
                     >
-                      Winner: {match.winner.name}
+                      {match.winner && `Winner: ${match.winner.name}`}
+                      {match.result && ` ${match.result}`}
+                      {match.resultType && ` (${RESULT_TYPE_LABELS[match.resultType]})`}
                     </Typography>
                   ) : (
                     <Box textAlign="center" mt={1}>
@@ -579,6 +872,10 @@ const TournamentMatches = () => {
         );
       })}
 
+      {tournament.status !== 'COMPLETED' && (tournament.format === 'SWISS' || tournament.format === 'MCMAHON') && (
+        <AttendancePanel tournamentId={id!} roundCount={tournament.rounds?.length || 0} />
+      )}
+
       <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
         <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
           <ActionButton
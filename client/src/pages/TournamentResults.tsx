@@ -10,9 +10,10 @@ import {
   TableHead,
   TableRow,
   Button,
+  TextField,
 } from '@mui/material';
 import { useParams, useNavigate } from 'react-router-dom';
-import { api } from '../services/api';
+import { api, TeamResults, TournamentAPI } from '../services/api';
 
 interface Player {
   _id: string;
@@ -20,16 +21,54 @@ interface Player {
   rank?: string;
 }
 
+interface GameResult {
+  roundNumber: number;
+  opponent: string | null;
+  opponentName: string | null;
+  color: 'B' | 'W' | null;
+  outcome: 'WIN' | 'LOSS' | 'DRAW' | 'NONE';
+  result: string;
+}
+
+// 请假、退赛轮次的显示
+const ABSENCE_LABELS: Record<string, string> = {
+  SKIPPED: 'abs',
+  WITHDRAWN: 'wd',
+};
+
+const OUTCOME_SYMBOLS: Record<GameResult['outcome'], string> = {
+  WIN: '+',
+  LOSS: '-',
+  DRAW: '=',
+  NONE: '0',
+};
+
 interface TournamentResult {
   rank: number;
+  group?: string | null;
+  groupRank?: number | null;
   player: Player;
   score: number;
   opponentScore: number;
   totalScore: number;
+  tieBreakers: Record<string, number>;
   wins: number;
   losses: number;
+  withdrawn?: boolean;
+  withdrawnFromRound?: number | null;
+  colorSequence: string;
+  games: GameResult[];
 }
 
+const TIE_BREAKER_LABELS: Record<string, string> = {
+  MMS: 'MMS',
+  SOS: 'SOS',
+  SOSOS: 'SOSOS',
+  SODOS: 'SODOS',
+  WINS: 'Wins',
+  CUT_SOS: 'Cut-SOS',
+};
+
 interface Tournament {
   _id: string;
   name: string;
@@ -42,6 +81,11 @@ const TournamentResults = () => {
   const navigate = useNavigate();
   const [results, setResults] = useState<TournamentResult[]>([]);
   const [tournamentName, setTournamentName] = useState('');
+  const [tieBreakers, setTieBreakers] = useState<string[]>([]);
+  const [groups, setGroups] = useState<string[]>([]);
+  const [teamResults, setTeamResults] = useState<TeamResults | null>(null);
+  const [egdCountry, setEgdCountry] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,6 +95,12 @@ const TournamentResults = () => {
         const response = await api.get(`/tournaments/${id}/results`);
         setResults(response.data.results || []);
         setTournamentName(response.data.name || '');
+        setTieBreakers(response.data.tieBreakers || []);
+        setGroups(response.data.groups || []);
+        // 团体赛另外显示队伍排名
+        if (response.data.boardCount && id) {
+          setTeamResults(await TournamentAPI.getTeamResults(id));
+        }
       } catch (error: any) {
         setError(error.response?.data?.message || 'Failed to fetch tournament results');
       } finally {
@@ -61,20 +111,28 @@ const TournamentResults = () => {
     fetchResults();
   }, [id]);
 
-  if (loading) {
-    return <Typography>Loading...</Typography>;
-  }
+  // 先显示赛事采用的排名规则，再显示其余比较项，便于解释同分名次
+  const columns = [
+    ...tieBreakers.filter((column) => column in TIE_BREAKER_LABELS),
+    ...Object.keys(TIE_BREAKER_LABELS).filter((column) => !tieBreakers.includes(column)),
+  ];
 
-  if (error) {
-    return <Typography color="error">{error}</Typography>;
-  }
+  const roundNumbers = Array.from(
+    new Set(results.flatMap((result) => (result.games || []).map((game) => game.roundNumber)))
+  ).sort((a, b) => a - b);
 
-  return (
-    <Box sx={{ p: 3 }}>
-      <Typography variant="h4" gutterBottom>
-        {tournamentName} - Final Results
-      </Typography>
+  // 交叉表：每轮显示 "对手名次 + 胜负 / 执色"，例如 3+/b；分组表中为组内名次
+  const formatGame = (places: Map<string, number>, game?: GameResult) => {
+    if (!game) return '-';
+    if (ABSENCE_LABELS[game.result]) return ABSENCE_LABELS[game.result];
+    if (!game.opponent) return `0${OUTCOME_SYMBOLS[game.outcome]}`;
+    const color = game.color ? `/${game.color.toLowerCase()}` : '';
+    return `${places.get(game.opponent) ?? '?'}${OUTCOME_SYMBOLS[game.outcome]}${color}`;
+  };
 
+  const renderTable = (rows: TournamentResult[], inGroup: boolean) => {
+    const places = new Map(rows.map((result) => [result.player._id, (inGroup ? result.groupRank : result.rank) ?? result.rank]));
+    return (
       <Paper sx={{ mb: 3 }}>
         <TableContainer>
           <Table>
@@ -82,35 +140,179 @@ const TournamentResults = () => {
               <TableRow>
                 <TableCell>Rank</TableCell>
                 <TableCell>Player</TableCell>
-                <TableCell align="right">Score</TableCell>
-                <TableCell align="right">Opponent Score</TableCell>
-                <TableCell align="right">Total Score</TableCell>
+                {!inGroup && groups.length > 0 && <TableCell>Group</TableCell>}
+                {roundNumbers.map((roundNumber) => (
+                  <TableCell key={roundNumber} align="center">R{roundNumber}</TableCell>
+                ))}
+                {columns.map((column) => (
+                  <TableCell key={column} align="right">{TIE_BREAKER_LABELS[column]}</TableCell>
+                ))}
                 <TableCell align="right">Wins</TableCell>
                 <TableCell align="right">Losses</TableCell>
+                <TableCell>Colors</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
-              {results.map((result) => (
+              {rows.map((result) => (
                 <TableRow key={result.player._id}>
-                  <TableCell>{result.rank}</TableCell>
-                  <TableCell>{result.player.name}</TableCell>
-                  <TableCell align="right">{result.score}</TableCell>
-                  <TableCell align="right">{result.opponentScore}</TableCell>
-                  <TableCell align="right">{result.totalScore.toFixed(2)}</TableCell>
+                  <TableCell>{inGroup ? result.groupRank : result.rank}</TableCell>
+                  <TableCell>
+                    {result.player.name}
+                    {result.withdrawn && (
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        (withdrew from R{result.withdrawnFromRound})
+                      </Typography>
+                    )}
+                  </TableCell>
+                  {!inGroup && groups.length > 0 && <TableCell>{result.group}</TableCell>}
+                  {roundNumbers.map((roundNumber) => {
+                    const game = (result.games || []).find((g) => g.roundNumber === roundNumber);
+                    return (
+                      <TableCell
+                        key={roundNumber}
+                        align="center"
+                        title={game ? (ABSENCE_LABELS[game.result] ? game.result : `${game.opponentName || '轮空 Bye'} ${game.result}`) : ''}
+                      >
+                        {formatGame(places, game)}
+                      </TableCell>
+                    );
+                  })}
+                  {columns.map((column) => (
+                    <TableCell key={column} align="right">{result.tieBreakers?.[column] ?? '-'}</TableCell>
+                  ))}
                   <TableCell align="right">{result.wins}</TableCell>
                   <TableCell align="right">{result.losses}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{result.colorSequence}</TableCell>
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </TableContainer>
       </Paper>
+    );
+  };
 
-      <Box sx={{ mt: 2 }}>
+  // 下载等级分成绩文件：EGD 成绩表（.h9）或 AGA 成绩文件
+  const handleExport = async (format: 'egd' | 'aga') => {
+    try {
+      const blob = format === 'egd'
+        ? await TournamentAPI.exportEgd(id!, egdCountry ? { country: egdCountry } : {})
+        : await TournamentAPI.exportAga(id!);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${tournamentName || 'tournament'}.${format === 'egd' ? 'h9' : 'txt'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setExportError(null);
+    } catch (error) {
+      // 下载请求的错误信息也是 Blob
+      const data = (error as { response?: { data?: Blob } }).response?.data;
+      const message = data
+        ? await data.text().then((text) => JSON.parse(text).message).catch(() => null)
+        : null;
+      setExportError(message || `Failed to export ${format.toUpperCase()} results`);
+    }
+  };
+
+  if (loading) {
+    return <Typography>Loading...</Typography>;
+  }
+
+  if (error) {
+    return <Typography color="error">{error}</Typography>;
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        {tournamentName} - Final Results
+      </Typography>
+      {tieBreakers.length > 0 && (
+        <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+          排名规则 Tie-breakers: {tieBreakers.join(' > ')}
+        </Typography>
+      )}
+
+      {teamResults && (
+        <>
+          <Typography variant="h6" gutterBottom>
+            团体排名 Team standings
+          </Typography>
+          <Paper sx={{ mb: 3 }}>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Rank</TableCell>
+                    <TableCell>Team</TableCell>
+                    <TableCell align="right">Match points</TableCell>
+                    <TableCell align="right">Board points</TableCell>
+                    <TableCell align="right">W/D/L</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {teamResults.standings.map((standing) => (
+                    <TableRow key={standing.team._id}>
+                      <TableCell>{standing.rank}</TableCell>
+                      <TableCell>{standing.team.name}</TableCell>
+                      <TableCell align="right">{standing.matchPoints}</TableCell>
+                      <TableCell align="right">{standing.boardPoints}</TableCell>
+                      <TableCell align="right">
+                        {standing.wins}/{standing.draws}/{standing.losses}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+          <Typography variant="h6" gutterBottom>
+            个人成绩 Individual results
+          </Typography>
+        </>
+      )}
+
+      {groups.map((group) => (
+        <Box key={group}>
+          <Typography variant="h6" gutterBottom>
+            {group}
+          </Typography>
+          {renderTable(results.filter((result) => result.group === group), true)}
+        </Box>
+      ))}
+      {groups.length > 0 && (
+        <Typography variant="h6" gutterBottom>
+          综合排名 Combined
+        </Typography>
+      )}
+      {renderTable(results, false)}
+
+      <Box sx={{ mt: 2, display: 'flex', gap: 2, alignItems: 'center' }}>
         <Button variant="contained" onClick={() => navigate('/')}>
           Back to Home
         </Button>
+        <TextField
+          size="small"
+          label="Country"
+          value={egdCountry}
+          onChange={(e) => setEgdCountry(e.target.value.toUpperCase())}
+          inputProps={{ maxLength: 2 }}
+          helperText="For players without one, e.g. CN"
+          sx={{ width: 120 }}
+        />
+        <Button variant="outlined" onClick={() => handleExport('egd')}>
+          Export EGD (.h9)
+        </Button>
+        <Button variant="outlined" onClick={() => handleExport('aga')}>
+          Export AGA
+        </Button>
       </Box>
+      {exportError && (
+        <Typography color="error" sx={{ mt: 1 }}>
+          {exportError}
+        </Typography>
+      )}
     </Box>
   );
 };
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import AuthService from './auth';
 
 // Create axios instance with base configuration
 export const api = axios.create({
@@ -37,7 +38,21 @@ api.interceptors.request.use(
 // Add response interceptor to handle auth errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const original = error.config;
+    if (error.response?.status === 401 && original && !original._retried) {
+      // Access token expired: try once to refresh it and replay the request
+      original._retried = true;
+      const token = await AuthService.refresh();
+      if (token) {
+        original.headers['Authorization'] = `Bearer ${token}`;
+        // transformRequest has already serialized the body
+        if (typeof original.data === 'string') {
+          original.data = JSON.parse(original.data);
+        }
+        return api(original);
+      }
+    }
     if (error.response?.status === 401) {
       // Clear token if it's invalid/expired
       localStorage.removeItem('token');
@@ -89,12 +104,181 @@ export const TournamentAPI = {
     }
   },
 
+  // Register the logged in user's linked player profile
+  registerSelf: async (tournamentId: string) => {
+    const response = await api.post(`/tournaments/${tournamentId}/register`);
+    return response.data;
+  },
+
+  withdrawSelf: async (tournamentId: string) => {
+    const response = await api.delete(`/tournaments/${tournamentId}/register`);
+    return response.data;
+  },
+
+  getRegistrations: async (tournamentId: string): Promise<RegistrationQueue> => {
+    const response = await api.get(`/tournaments/${tournamentId}/registrations`);
+    return response.data;
+  },
+
+  approveRegistration: async (tournamentId: string, playerId: string): Promise<RegistrationQueue> => {
+    const response = await api.put(`/tournaments/${tournamentId}/registrations/${playerId}/approve`);
+    return response.data;
+  },
+
+  rejectRegistration: async (tournamentId: string, playerId: string): Promise<RegistrationQueue> => {
+    const response = await api.put(`/tournaments/${tournamentId}/registrations/${playerId}/reject`);
+    return response.data;
+  },
+
+  withdrawRegistration: async (tournamentId: string, playerId: string): Promise<RegistrationQueue> => {
+    const response = await api.delete(`/tournaments/${tournamentId}/registrations/${playerId}`);
+    return response.data;
+  },
+
+  // Attendance sheet of a round (defaults to the next round)
+  getAttendance: async (tournamentId: string, roundNumber?: number): Promise<AttendanceSheet> => {
+    const response = await api.get(`/tournaments/${tournamentId}/attendance`, {
+      params: roundNumber ? { round: roundNumber } : undefined
+    });
+    return response.data;
+  },
+
+  setAttendance: async (tournamentId: string, roundNumber: number, players: { player: string; present: boolean; points?: number | null }[]): Promise<AttendanceSheet> => {
+    const response = await api.put(`/tournaments/${tournamentId}/attendance/${roundNumber}`, { players });
+    return response.data;
+  },
+
+  // Check the logged in user's player in (or out) for the next round
+  checkIn: async (tournamentId: string, present: boolean = true): Promise<AttendanceSheet> => {
+    const response = await api.post(`/tournaments/${tournamentId}/check-in`, { present });
+    return response.data;
+  },
+
+  // Add a player after round 1; entryPoints defaults to lateEntryPoints per missed round
+  addLateEntry: async (tournamentId: string, playerId: string, entryPoints?: number) => {
+    const response = await api.post(`/tournaments/${tournamentId}/late-entries`, { playerId, entryPoints });
+    return response.data;
+  },
+
+  // Leave a player out of the next `rounds` rounds; points overrides skipRoundPoints
+  skipRounds: async (tournamentId: string, playerId: string, rounds: number = 1, points?: number | null): Promise<AttendanceSheet> => {
+    const response = await api.post(`/tournaments/${tournamentId}/players/${playerId}/skip`, { rounds, points });
+    return response.data;
+  },
+
+  // Withdraw a player from the next round on; points overrides withdrawalPoints
+  withdrawPlayer: async (tournamentId: string, playerId: string, points?: number | null) => {
+    const response = await api.post(`/tournaments/${tournamentId}/players/${playerId}/withdraw`, { points });
+    return response.data;
+  },
+
+  reinstatePlayer: async (tournamentId: string, playerId: string) => {
+    const response = await api.delete(`/tournaments/${tournamentId}/players/${playerId}/withdraw`);
+    return response.data;
+  },
+
+  // Full round robin schedule (Berger tables); `published` once the first round is paired
+  getSchedule: async (tournamentId: string): Promise<RoundRobinSchedule> => {
+    const response = await api.get(`/tournaments/${tournamentId}/schedule`);
+    return response.data;
+  },
+
+  // Teams and rosters of a team tournament
+  getTeams: async (tournamentId: string): Promise<TournamentTeams> => {
+    const response = await api.get(`/tournaments/${tournamentId}/teams`);
+    return response.data;
+  },
+
+  // Enter a team; the team's default roster is used when no roster is given
+  addTeam: async (tournamentId: string, teamId: string, roster?: string[]): Promise<TournamentTeams> => {
+    const response = await api.post(`/tournaments/${tournamentId}/teams`, { teamId, roster });
+    return response.data;
+  },
+
+  setRoster: async (tournamentId: string, teamId: string, roster: string[]): Promise<TournamentTeams> => {
+    const response = await api.put(`/tournaments/${tournamentId}/teams/${teamId}/roster`, { roster });
+    return response.data;
+  },
+
+  removeTeam: async (tournamentId: string, teamId: string): Promise<TournamentTeams> => {
+    const response = await api.delete(`/tournaments/${tournamentId}/teams/${teamId}`);
+    return response.data;
+  },
+
+  getTeamResults: async (tournamentId: string): Promise<TeamResults> => {
+    const response = await api.get(`/tournaments/${tournamentId}/team-results`);
+    return response.data;
+  },
+
+  // OpenGotha XML
+  exportOpenGotha: async (tournamentId: string): Promise<Blob> => {
+    const response = await api.get(`/tournaments/${tournamentId}/export/opengotha`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  // EGD 成绩表（.h9），country 为选手没有国家代码时使用的比赛所在国
+  exportEgd: async (tournamentId: string, params: { country?: string; city?: string; class?: string } = {}): Promise<Blob> => {
+    const response = await api.get(`/tournaments/${tournamentId}/export/egd`, { params, responseType: 'blob' });
+    return response.data;
+  },
+
+  // AGA 成绩文件，只包含已完成轮次的对局
+  exportAga: async (tournamentId: string, params: { location?: string; rules?: string } = {}): Promise<Blob> => {
+    const response = await api.get(`/tournaments/${tournamentId}/export/aga`, { params, responseType: 'blob' });
+    return response.data;
+  },
+
+  // 打印文件的地址（公开，可直接在新窗口打开）：对阵表、成绩单、交叉表
+  getPrintUrl: (tournamentId: string, roundNumber: number, document: PrintDocument, format: 'html' | 'pdf' = 'html'): string =>
+    `${api.defaults.baseURL}/tournaments/${tournamentId}/rounds/${roundNumber}/print/${document}?format=${format}`,
+
+  importOpenGotha: async (xml: string): Promise<Tournament> => {
+    const response = await api.post('/tournaments/import/opengotha', xml, {
+      headers: { 'Content-Type': 'application/xml' }
+    });
+    return response.data;
+  },
+
+  // Players and standings of each group (a preview before round 1)
+  getGroups: async (tournamentId: string): Promise<GroupList> => {
+    const response = await api.get(`/tournaments/${tournamentId}/groups`);
+    return response.data;
+  },
+
+  // Re-split the players before round 1; `assignments` moves players by hand
+  setGroups: async (tournamentId: string, data: {
+    groupMethod: 'SNAKE' | 'RANK_BANDS' | null;
+    groups?: string[];
+    groupRankBands?: string[];
+    assignments?: { player: string; group: string }[];
+  }): Promise<GroupList> => {
+    const response = await api.put(`/tournaments/${tournamentId}/groups`, data);
+    return response.data;
+  },
+
+  // Stages of a multi-stage tournament; any stage id may be passed
+  getStages: async (tournamentId: string): Promise<StageList> => {
+    const response = await api.get(`/tournaments/${tournamentId}/stages`);
+    return response.data;
+  },
+
+  addStage: async (tournamentId: string, data: { name: string; format: TournamentFormat; qualification: Qualification }): Promise<StageList> => {
+    const response = await api.post(`/tournaments/${tournamentId}/stages`, data);
+    return response.data;
+  },
+
+  // Move the qualifiers of a completed stage into the next stage
+  advanceStage: async (tournamentId: string) => {
+    const response = await api.post(`/tournaments/${tournamentId}/stages/advance`);
+    return response.data;
+  },
+
   generateRounds: async (tournamentId: string) => {
     const response = await api.post(`/tournaments/${tournamentId}/rounds`);
     return response.data;
   },
 
-  updateMatchResult: async (tournamentId: string, matchId: string, data: { winnerId: string; result: string }) => {
+  updateMatchResult: async (tournamentId: string, matchId: string, data: { winnerId?: string; resultType?: MatchResultType; result?: string; margin?: number; reason?: ResultReason }) => {
     const response = await api.put(`/tournaments/${tournamentId}/matches/${matchId}`, data);
     return response.data;
   },
@@ -114,7 +298,7 @@ export const PlayerAPI = {
     return response.data;
   },
 
-  create: async (data: { name: string; rank: string }) => {
+  create: async (data: { name: string; rank: string; club?: string }) => {
     const response = await api.post('/tournaments/players', data);
     return response.data;
   },
@@ -122,6 +306,47 @@ export const PlayerAPI = {
   delete: async (id: string) => {
     const response = await api.delete(`/tournaments/players/${id}`);
     return response.data;
+  },
+
+  // Bulk import from CSV/TSV; with tournamentId the players are also added to that tournament
+  import: async (csv: string, options: PlayerImportOptions = {}, tournamentId?: string): Promise<PlayerImportResult> => {
+    const url = tournamentId ? `/tournaments/${tournamentId}/players/import` : '/tournaments/players/import';
+    const response = await api.post(url, { csv, ...options });
+    return response.data;
+  },
+
+  // The logged in user's player profile
+  getMine: async () => {
+    const response = await api.get('/users/me/player');
+    return response.data;
+  },
+
+  // Claim an existing player, or create one from the user's profile when playerId is omitted
+  linkMine: async (playerId?: string) => {
+    const response = await api.post('/users/me/player', { playerId });
+    return response.data;
+  },
+
+  unlinkMine: async () => {
+    await api.delete('/users/me/player');
+  }
+};
+
+// Team API
+export const TeamAPI = {
+  getAll: async (): Promise<Team[]> => {
+    const response = await api.get('/tournaments/teams');
+    return response.data;
+  },
+
+  create: async (data: { name: string; club?: string; players: string[] }): Promise<Team> => {
+    const response = await api.post('/tournaments/teams', data);
+    return response.data;
+  },
+
+  delete: async (id: string) => {
+    const response = await api.delete(`/tournaments/teams/${id}`);
+    return response.data;
   }
 };
 
@@ -134,6 +359,24 @@ export interface Tournament {
   startDate: string;
   endDate: string;
   description?: string;
+  createdBy?: string;
+  referees?: string[];
+  maxParticipants?: number | null;
+  requireApproval?: boolean;
+  requireCheckIn?: boolean;
+  lateEntryPoints?: number;
+  skipRoundPoints?: number;
+  withdrawalPoints?: number;
+  byeAssignment?: 'LOWEST_SCORE' | 'LOWEST_RANK';
+  repeatByes?: boolean;
+  byePoints?: number;
+  byeCountsForSos?: boolean;
+  doubleRoundRobin?: boolean;
+  parentTournament?: string | null;
+  groupMethod?: 'SNAKE' | 'RANK_BANDS' | null;
+  groups?: string[];
+  groupRankBands?: string[];
+  boardCount?: number | null;
   players: Player[];
   rounds: Round[];
 }
@@ -143,17 +386,196 @@ export interface Player {
   name: string;
   rank: string;
   rating?: number;
+  club?: string;
+  country?: string;
+  agaId?: string;
+  egdPin?: string;
+  cwaId?: string;
+  user?: string | null;
   wins: number;
   losses: number;
   draws: number;
 }
 
+export type PrintDocument = 'pairings' | 'slips' | 'wallchart';
+
+export type PlayerImportField =
+  'name' | 'firstName' | 'lastName' | 'rank' | 'club' | 'country' | 'agaId' | 'egdPin' | 'cwaId';
+
+export interface PlayerImportOptions {
+  mapping?: Partial<Record<PlayerImportField, string>>;
+  delimiter?: string;
+  dryRun?: boolean;
+  skipInvalid?: boolean;
+}
+
+export interface PlayerImportRow {
+  line: number;
+  name: string;
+  rank: string;
+  club?: string;
+  country?: string;
+  agaId?: string;
+  egdPin?: string;
+  cwaId?: string;
+  action: 'CREATE' | 'MATCH' | 'ERROR';
+  player?: string;
+  matchedBy?: 'agaId' | 'egdPin' | 'cwaId' | 'name';
+  updates: string[];
+  inTournament?: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface PlayerImportResult {
+  dryRun: boolean;
+  headers: string[];
+  columns: Partial<Record<PlayerImportField, string>>;
+  rows: PlayerImportRow[];
+  created: number;
+  matched: number;
+  added: number;
+  skipped: number;
+}
+
+export enum RegistrationStatus {
+  PENDING = 'PENDING',
+  CONFIRMED = 'CONFIRMED',
+  WAITLISTED = 'WAITLISTED',
+  WITHDRAWN = 'WITHDRAWN',
+  REJECTED = 'REJECTED'
+}
+
+export interface RegistrationEntry {
+  player: Player;
+  status: RegistrationStatus;
+  registeredAt: string | null;
+  updatedAt: string | null;
+  waitlistPosition: number | null;
+}
+
+export interface RegistrationQueue {
+  maxParticipants: number | null;
+  requireApproval: boolean;
+  confirmedCount: number;
+  registrations: RegistrationEntry[];
+}
+
+// white 为 null 表示 black 本轮轮空
+export interface RoundRobinSchedule {
+  published: boolean;
+  doubleRoundRobin: boolean;
+  seeding: string[];
+  rounds: {
+    roundNumber: number;
+    cycle: number;
+    pairings: { board: number; black: string; white: string | null; group?: string }[];
+  }[];
+}
+
+export interface Team {
+  _id: string;
+  name: string;
+  club?: string;
+  players: Player[];
+}
+
+// 名单中按段位排在前 boardCount 位的队员出场，其余为替补
+export interface TournamentTeams {
+  boardCount: number | null;
+  teams: { team: { _id: string; name: string; club?: string }; roster: Player[] }[];
+}
+
+// 团体排名：先比场分，再比局分
+export interface TeamResults {
+  boardCount: number;
+  standings: {
+    rank: number;
+    team: { _id: string; name: string };
+    matchPoints: number;
+    boardPoints: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    byes: number;
+  }[];
+  rounds: {
+    roundNumber: number;
+    teamMatches: {
+      _id: string;
+      team1: string;
+      team2: string | null;
+      team1Points: number | null;
+      team2Points: number | null;
+      complete: boolean;
+    }[];
+  }[];
+}
+
+export interface GroupList {
+  published: boolean;
+  groupMethod: 'SNAKE' | 'RANK_BANDS' | null;
+  groupRankBands: string[];
+  groups: { name: string; players: Player[] }[];
+}
+
+export interface Qualification {
+  method: 'TOP_N' | 'GROUP_WINNERS';
+  count: number;
+}
+
+// 第一个阶段的 qualification 为 null
+export interface StageList {
+  tournament: string;
+  stages: {
+    name: string;
+    tournament: { _id: string; name: string; format: TournamentFormat; status: TournamentStatus; players: string[] };
+    qualification: Qualification | null;
+    qualifiedAt: string | null;
+  }[];
+}
+
+export interface AttendanceSheet {
+  roundNumber: number;
+  requireCheckIn: boolean;
+  players: {
+    player: Player;
+    status: 'PRESENT' | 'ABSENT' | null;
+    points: number | null;
+    present: boolean;
+    withdrawnFromRound: number | null;
+  }[];
+}
+
+// 对局结果类型（player1 执黑，player2 执白）
+export enum MatchResultType {
+  BLACK_WIN = 'B+',
+  WHITE_WIN = 'W+',
+  JIGO = 'JIGO',
+  FORFEIT_WIN = 'FORFEIT_WIN',
+  DOUBLE_FORFEIT = 'DOUBLE_FORFEIT',
+  DOUBLE_LOSS = 'DOUBLE_LOSS',
+  NOT_PLAYED = 'NOT_PLAYED'
+}
+
+// 胜负原因：中盘认输、数子、超时、弃权
+export enum ResultReason {
+  RESIGNATION = 'R',
+  SCORE = 'SCORE',
+  TIME = 'T',
+  FORFEIT = 'F'
+}
+
 export interface Match {
   _id: string;
   player1: Player;
   player2: Player;
   winner?: Player;
   result: string;
+  resultType?: MatchResultType | null;
+  winningColor?: 'B' | 'W' | null;
+  margin?: number | null;
+  reason?: ResultReason | null;
 }
 
 export interface Round {
@@ -17,29 +17,69 @@ export interface LoginCredentials {
 
 export interface RegisterData extends LoginCredentials {
   name: string;
+  age: number;
+  rank: string;
+  country?: string;
+  city?: string;
+  club?: string;
 }
 
+const storeTokens = (data: { token?: string; refreshToken?: string }) => {
+  if (data.token) {
+    localStorage.setItem('token', data.token);
+  }
+  if (data.refreshToken) {
+    localStorage.setItem('refreshToken', data.refreshToken);
+  }
+};
+
+const clearTokens = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+};
+
 export const AuthService = {
   login: async (credentials: LoginCredentials) => {
     const response = await authApi.post('/auth/login', credentials);
-    const { token } = response.data;
-    if (token) {
-      localStorage.setItem('token', token);
-    }
+    storeTokens(response.data);
     return response.data;
   },
 
   register: async (data: RegisterData) => {
     const response = await authApi.post('/auth/register', data);
-    const { token } = response.data;
-    if (token) {
-      localStorage.setItem('token', token);
-    }
+    storeTokens(response.data);
     return response.data;
   },
 
-  logout: () => {
-    localStorage.removeItem('token');
+  // Exchange the stored refresh token for a new token pair
+  refresh: async (): Promise<string | null> => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) {
+      return null;
+    }
+    try {
+      const response = await authApi.post('/auth/refresh', { refreshToken });
+      storeTokens(response.data);
+      return response.data.token;
+    } catch {
+      clearTokens();
+      return null;
+    }
+  },
+
+  // Revoke the refresh token on the server, then forget both tokens
+  logout: async (all: boolean = false) => {
+    const token = localStorage.getItem('token');
+    const refreshToken = localStorage.getItem('refreshToken');
+    try {
+      if (token) {
+        await authApi.post('/auth/logout', { refreshToken, all }, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+      }
+    } finally {
+      clearTokens();
+    }
   },
 
   isAuthenticated: () => {
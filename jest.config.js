@@ -0,0 +1,9 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // 只做转译，类型检查由 tsc 负责
+    '^.+\\.ts$': ['ts-jest', { isolatedModules: true }]
+  }
+};
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../services/auth.service';
+import { UserService } from '../services/user.service';
+
+const authService = new AuthService();
+const userService = new UserService();
+
+export class AuthController {
+  // Register a new user and log them in
+  async register(req: Request, res: Response) {
+    try {
+      const result = await authService.register(req.body);
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.code === 11000) { // Duplicate key error
+        res.status(400).json({ message: 'Email already exists' });
+      } else {
+        res.status(400).json({ message: error.message });
+      }
+    }
+  }
+
+  // Log in with email and password
+  async login(req: Request, res: Response) {
+    try {
+      const result = await authService.login(req.body);
+      res.json(result);
+    } catch (error: any) {
+      res.status(401).json({ message: error.message });
+    }
+  }
+
+  // Exchange a refresh token for a new token pair
+  async refresh(req: Request, res: Response) {
+    try {
+      const tokens = await authService.refresh(req.body.refreshToken);
+      res.json(tokens);
+    } catch (error: any) {
+      res.status(401).json({ message: error.message });
+    }
+  }
+
+  // Revoke the given refresh token, or all of the user's tokens
+  async logout(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      await authService.logout(req.user.id, req.body.refreshToken, req.body.all === true);
+      res.json({ message: 'Logged out' });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  }
+
+  // Change the logged in user's password; other sessions are logged out
+  async changePassword(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      await authService.changePassword(req.user.id, req.body.currentPassword, req.body.newPassword);
+      res.json({ message: 'Password changed' });
+    } catch (error: any) {
+      const status = error.message === 'User not found' ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  }
+
+  // Get the currently logged in user
+  async me(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const user = await userService.getUserById(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(user);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  }
+}
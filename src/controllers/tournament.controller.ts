@@ -1,16 +1,53 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { TournamentService } from '../services/tournament.service';
-import { TournamentFormat, TournamentStatus } from '../types/tournament.types';
+import { RegistrationService } from '../services/registration.service';
+import { AttendanceService } from '../services/attendance.service';
+import { StageService } from '../services/stage.service';
+import { GroupService } from '../services/group.service';
+import { TeamService } from '../services/team.service';
+import { OpenGothaService } from '../services/opengotha.service';
+import { EgdService } from '../services/egd.service';
+import { AgaService } from '../services/aga.service';
+import { ImportService } from '../services/import.service';
+import { PrintService } from '../services/print.service';
+import { RegistrationStatus, TournamentFormat, TournamentStatus } from '../types/tournament.types';
+import { PrintDocument, PrintFormat } from '../types/print.types';
 import Tournament from '../models/tournament.model';
 import Player from '../models/player.model';
+import User from '../models/user.model';
 import { toObjectId } from '../types/mongoose.types';
+import { hasResult } from '../utils/result.utils';
+import { getPlayerGroup, isGrouped } from '../utils/group.utils';
+
+// 选手资料中可以修改的字段
+const PLAYER_PROFILE_FIELDS = ['club', 'country', 'agaId', 'egdPin', 'cwaId'] as const;
 
 export class TournamentController {
   private tournamentService: TournamentService;
+  private registrationService: RegistrationService;
+  private attendanceService: AttendanceService;
+  private stageService: StageService;
+  private groupService: GroupService;
+  private teamService: TeamService;
+  private openGothaService: OpenGothaService;
+  private egdService: EgdService;
+  private agaService: AgaService;
+  private importService: ImportService;
+  private printService: PrintService;
 
   constructor() {
     this.tournamentService = new TournamentService();
+    this.registrationService = new RegistrationService();
+    this.attendanceService = new AttendanceService();
+    this.stageService = new StageService();
+    this.groupService = new GroupService();
+    this.teamService = new TeamService();
+    this.openGothaService = new OpenGothaService();
+    this.egdService = new EgdService();
+    this.agaService = new AgaService();
+    this.importService = new ImportService();
+    this.printService = new PrintService();
   }
 
   // Create a new tournament
@@ -27,7 +64,38 @@ export class TournamentController {
         initialScore,
         minimumScore,
         roundCount,
-        groups
+        groups,
+        // Elimination specific fields
+        thirdPlaceMatch,
+        bracketReset,
+        // Round robin specific fields
+        doubleRoundRobin,
+        // Groups (round robin and Swiss)
+        groupMethod,
+        groupRankBands,
+        // Team tournaments (round robin and Swiss)
+        boardCount,
+        tieBreakers,
+        // Handicap and komi
+        handicapPolicy,
+        handicapReduction,
+        maxHandicap,
+        komi,
+        handicapKomi,
+        // Registration
+        maxParticipants,
+        requireApproval,
+        // Check-in and late entry
+        requireCheckIn,
+        lateEntryPoints,
+        // Absence and withdrawal scores
+        skipRoundPoints,
+        withdrawalPoints,
+        // Bye policy
+        byeAssignment,
+        repeatByes,
+        byePoints,
+        byeCountsForSos
       } = req.body;
       
       if (!name || !format || !startDate || !endDate) {
@@ -62,6 +130,29 @@ export class TournamentController {
         status: TournamentStatus.UPCOMING,
         players: [],
         rounds: [],
+        // 创建者成为比赛所有者
+        ...(req.user && { createdBy: toObjectId(req.user.id) }),
+        ...(Array.isArray(tieBreakers) && tieBreakers.length > 0 && { tieBreakers }),
+        // Handicap and komi
+        ...(handicapPolicy !== undefined && { handicapPolicy }),
+        ...(handicapReduction !== undefined && { handicapReduction: Number(handicapReduction) }),
+        ...(maxHandicap !== undefined && { maxHandicap: Number(maxHandicap) }),
+        ...(komi !== undefined && { komi: Number(komi) }),
+        ...(handicapKomi !== undefined && { handicapKomi: Number(handicapKomi) }),
+        // Registration
+        ...(maxParticipants !== undefined && { maxParticipants: maxParticipants === null ? null : Number(maxParticipants) }),
+        ...(requireApproval !== undefined && { requireApproval: Boolean(requireApproval) }),
+        // Check-in and late entry
+        ...(requireCheckIn !== undefined && { requireCheckIn: Boolean(requireCheckIn) }),
+        ...(lateEntryPoints !== undefined && { lateEntryPoints: Number(lateEntryPoints) }),
+        // Absence and withdrawal scores
+        ...(skipRoundPoints !== undefined && { skipRoundPoints: Number(skipRoundPoints) }),
+        ...(withdrawalPoints !== undefined && { withdrawalPoints: Number(withdrawalPoints) }),
+        // Bye policy
+        ...(byeAssignment !== undefined && { byeAssignment }),
+        ...(repeatByes !== undefined && { repeatByes: Boolean(repeatByes) }),
+        ...(byePoints !== undefined && { byePoints: Number(byePoints) }),
+        ...(byeCountsForSos !== undefined && { byeCountsForSos: Boolean(byeCountsForSos) }),
         // McMahon specific fields
         ...(normalizedFormat === TournamentFormat.MCMAHON && {
           upperBar,
@@ -70,7 +161,26 @@ export class TournamentController {
           roundCount,
           groups: groups || ['业余组', '职业组'], // 默认分组
           playerScores: [] // 初始化空的选手分数列表
-        })
+        }),
+        // Elimination specific fields
+        ...(normalizedFormat === TournamentFormat.SINGLEELIMINATION && {
+          thirdPlaceMatch: Boolean(thirdPlaceMatch)
+        }),
+        ...(normalizedFormat === TournamentFormat.DOUBLEELIMINATION && {
+          bracketReset: bracketReset !== false
+        }),
+        // Round robin specific fields
+        ...(normalizedFormat === TournamentFormat.ROUNDROBIN && {
+          doubleRoundRobin: Boolean(doubleRoundRobin)
+        }),
+        // Groups (round robin and Swiss)
+        ...(groupMethod && {
+          groupMethod,
+          groups,
+          groupRankBands: groupRankBands || []
+        }),
+        // Team tournaments (round robin and Swiss)
+        ...(boardCount && { boardCount: Number(boardCount) })
       });
 
       res.status(201).json(tournament);
@@ -273,7 +383,7 @@ export class TournamentController {
   async getAllPlayers(req: Request, res: Response) {
     try {
       const players = await Player.find()
-        .select('name rank rating wins losses draws')
+        .select('name rank rating club wins losses draws')
         .sort({ rating: -1 })
         .exec();
 
@@ -289,7 +399,7 @@ export class TournamentController {
   // Create a new player
   async createPlayer(req: Request, res: Response) {
     try {
-      const { name, rank } = req.body;
+      const { name, rank, club, country, agaId, egdPin, cwaId } = req.body;
 
       if (!name || !rank) {
         return res.status(400).json({ message: 'Name and rank are required' });
@@ -303,6 +413,11 @@ export class TournamentController {
       const player = await Player.create({
         name,
         rank,
+        club,
+        country: country || undefined,
+        agaId: agaId || undefined,
+        egdPin: egdPin || undefined,
+        cwaId: cwaId || undefined,
         rating: 1500,
         wins: 0,
         losses: 0,
@@ -310,14 +425,77 @@ export class TournamentController {
       });
 
       res.status(201).json(player);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating player:', error);
+      if (error?.code === 11000) {
+        const field = Object.keys(error.keyPattern || {})[0] || 'ID';
+        return res.status(400).json({ message: `Another player already has this ${field}` });
+      }
       res.status(500).json({ 
         message: error instanceof Error ? error.message : 'An unknown error occurred'
       });
     }
   }
 
+  // Bulk import players from a CSV/TSV file; with :id the players are also added to the tournament
+  async importPlayers(req: Request, res: Response) {
+    try {
+      // 文件可以直接作为请求体（选项放在查询参数中），也可以放在 JSON 的 csv 字段中
+      const isText = typeof req.body === 'string';
+      const source: any = isText ? req.query : req.body || {};
+      const flag = (value: unknown) => value === true || value === 'true';
+      const result = await this.importService.importPlayers(isText ? req.body : source.csv, {
+        mapping: typeof source.mapping === 'object' ? source.mapping : undefined,
+        delimiter: typeof source.delimiter === 'string' ? source.delimiter : undefined,
+        dryRun: flag(source.dryRun),
+        skipInvalid: flag(source.skipInvalid)
+      }, req.params.id);
+      res.status(result.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      console.error('Error importing players:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Get all teams
+  async getAllTeams(req: Request, res: Response) {
+    try {
+      const teams = await this.teamService.getAllTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Create a team with its default roster
+  async createTeam(req: Request, res: Response) {
+    try {
+      const { name, club, players } = req.body;
+      const team = await this.teamService.createTeam({
+        name,
+        club,
+        players: players || [],
+        ...(req.user && { createdBy: toObjectId(req.user.id) })
+      });
+      res.status(201).json(team);
+    } catch (error) {
+      console.error('Error creating team:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Delete a team that is not in any tournament
+  async deleteTeam(req: Request, res: Response) {
+    try {
+      await this.teamService.deleteTeam(req.params.teamId);
+      res.json({ message: 'Team deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting team:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
   // Add player to tournament
   async addPlayer(req: Request, res: Response) {
     try {
@@ -328,49 +506,449 @@ export class TournamentController {
         return res.status(400).json({ message: 'Player ID is required' });
       }
 
-      const tournament = await Tournament.findById(tournamentId)
-        .populate('players', 'name rank rating')
-        .exec();
+      const updatedTournament = await this.registrationService.addPlayer(tournamentId, playerId);
+
+      console.log('Updated tournament:', updatedTournament);
+      res.json(updatedTournament);
+    } catch (error) {
+      console.error('Error adding player to tournament:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Register the logged in user's player profile into the tournament
+  async registerSelf(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const result = await this.registrationService.registerSelf(req.params.id, req.user.id);
+      res.status(result.status === RegistrationStatus.CONFIRMED ? 200 : 202).json(result);
+    } catch (error) {
+      console.error('Error registering for tournament:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Withdraw the logged in user's registration
+  async withdrawSelf(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const registrations = await this.registrationService.withdrawSelf(req.params.id, req.user.id);
+      res.json(registrations);
+    } catch (error) {
+      console.error('Error withdrawing registration:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Get the registration queue
+  async getRegistrations(req: Request, res: Response) {
+    try {
+      const registrations = await this.registrationService.getRegistrations(req.params.id);
+      res.json(registrations);
+    } catch (error) {
+      console.error('Error fetching registrations:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Approve a pending or waitlisted registration
+  async approveRegistration(req: Request, res: Response) {
+    try {
+      const registrations = await this.registrationService.approve(req.params.id, req.params.playerId);
+      res.json(registrations);
+    } catch (error) {
+      console.error('Error approving registration:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Reject a pending or waitlisted registration
+  async rejectRegistration(req: Request, res: Response) {
+    try {
+      const registrations = await this.registrationService.reject(req.params.id, req.params.playerId);
+      res.json(registrations);
+    } catch (error) {
+      console.error('Error rejecting registration:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Withdraw a player; the first waitlisted player is promoted
+  async withdrawRegistration(req: Request, res: Response) {
+    try {
+      const registrations = await this.registrationService.withdraw(req.params.id, req.params.playerId);
+      res.json(registrations);
+    } catch (error) {
+      console.error('Error withdrawing registration:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Add a player after round 1 (Swiss and McMahon)
+  async addLateEntry(req: Request, res: Response) {
+    try {
+      const { playerId, entryPoints } = req.body;
+      if (!playerId) {
+        return res.status(400).json({ message: 'Player ID is required' });
+      }
+
+      const updatedTournament = await this.registrationService.addLateEntry(
+        req.params.id,
+        playerId,
+        entryPoints === undefined || entryPoints === null ? undefined : Number(entryPoints)
+      );
+      res.json(updatedTournament);
+    } catch (error) {
+      console.error('Error adding late entry:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Get the attendance sheet of a round (defaults to the next round)
+  async getAttendance(req: Request, res: Response) {
+    try {
+      const roundNumber = req.query.round ? parseInt(req.query.round as string) : undefined;
+      const attendance = await this.attendanceService.getAttendance(req.params.id, roundNumber);
+      res.json(attendance);
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+      this.sendServiceError(res, error);
+    }
+  }
 
+  // Mark players present or absent for a round that has not been paired yet
+  async setAttendance(req: Request, res: Response) {
+    try {
+      const attendance = await this.attendanceService.setAttendance(
+        req.params.id,
+        parseInt(req.params.roundNumber),
+        req.body.players
+      );
+      res.json(attendance);
+    } catch (error) {
+      console.error('Error updating attendance:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Check the logged in user's player in (or out) for the next round
+  async checkIn(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const attendance = await this.attendanceService.checkInSelf(req.params.id, req.user.id, req.body.present !== false);
+      res.json(attendance);
+    } catch (error) {
+      console.error('Error checking in:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Mark a player absent for the next round(s); they are left out of pairing and score the skip points
+  async skipRounds(req: Request, res: Response) {
+    try {
+      const { rounds, points } = req.body;
+      const attendance = await this.attendanceService.skipRounds(
+        req.params.id,
+        req.params.playerId,
+        rounds === undefined ? 1 : parseInt(rounds),
+        points === undefined || points === null ? null : Number(points)
+      );
+      res.json(attendance);
+    } catch (error) {
+      console.error('Error skipping rounds:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Withdraw a player: before the start this drops the registration, afterwards they stop being paired
+  async withdrawPlayer(req: Request, res: Response) {
+    try {
+      const { id, playerId } = req.params;
+      const tournament = await Tournament.findById(id).select('status');
       if (!tournament) {
         return res.status(404).json({ message: 'Tournament not found' });
       }
-
-      if (tournament.status !== TournamentStatus.UPCOMING) {
-        return res.status(400).json({ message: 'Cannot add players after tournament has started' });
+      if (tournament.status === TournamentStatus.UPCOMING) {
+        const registrations = await this.registrationService.withdraw(id, playerId);
+        return res.json(registrations);
       }
 
-      const player = await Player.findById(playerId);
-      if (!player) {
-        return res.status(404).json({ message: 'Player not found' });
-      }
+      const { points } = req.body;
+      const updatedTournament = await this.attendanceService.withdraw(
+        id,
+        playerId,
+        points === undefined || points === null ? null : Number(points)
+      );
+      res.json(updatedTournament);
+    } catch (error) {
+      console.error('Error withdrawing player:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Undo a withdrawal for rounds that have not been paired yet
+  async reinstatePlayer(req: Request, res: Response) {
+    try {
+      const updatedTournament = await this.attendanceService.reinstate(req.params.id, req.params.playerId);
+      res.json(updatedTournament);
+    } catch (error) {
+      console.error('Error reinstating player:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Full round robin schedule (Berger tables); published once the first round is paired
+  async getSchedule(req: Request, res: Response) {
+    try {
+      const schedule = await this.tournamentService.getRoundRobinSchedule(req.params.id);
+      res.json(schedule);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Teams and rosters of a team tournament
+  async getTournamentTeams(req: Request, res: Response) {
+    try {
+      const teams = await this.teamService.getTournamentTeams(req.params.id);
+      res.json(teams);
+    } catch (error) {
+      console.error('Error fetching tournament teams:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Enter a team; the team's default roster is used when no roster is given
+  async addTeam(req: Request, res: Response) {
+    try {
+      const { teamId, roster } = req.body;
+      const teams = await this.teamService.addTeam(req.params.id, teamId, roster);
+      res.json(teams);
+    } catch (error) {
+      console.error('Error adding team:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Change a team's roster; starters are picked by rank from the next round on
+  async setRoster(req: Request, res: Response) {
+    try {
+      const teams = await this.teamService.setRoster(req.params.id, req.params.teamId, req.body.roster);
+      res.json(teams);
+    } catch (error) {
+      console.error('Error setting roster:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  async removeTeam(req: Request, res: Response) {
+    try {
+      const teams = await this.teamService.removeTeam(req.params.id, req.params.teamId);
+      res.json(teams);
+    } catch (error) {
+      console.error('Error removing team:', error);
+      this.sendServiceError(res, error);
+    }
+  }
 
-      // Check if player already exists in tournament
-      const playerExists = tournament.players.some(p => 
-        p._id?.toString() === player._id.toString()
+  // Team standings (match points, then board points) and the score of every team match
+  async getTeamResults(req: Request, res: Response) {
+    try {
+      const results = await this.teamService.getTeamResults(req.params.id);
+      res.json(results);
+    } catch (error) {
+      console.error('Error fetching team results:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Export to an OpenGotha XML file
+  async exportOpenGotha(req: Request, res: Response) {
+    try {
+      const { name, xml } = await this.openGothaService.exportTournament(req.params.id);
+      res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(name)}.xml`);
+      res.send(xml);
+    } catch (error) {
+      console.error('Error exporting OpenGotha file:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Export the EGD results table (.h9) for European rating submission
+  async exportEgd(req: Request, res: Response) {
+    try {
+      const { name, report } = await this.egdService.exportReport(req.params.id, {
+        country: typeof req.query.country === 'string' ? req.query.country : undefined,
+        city: typeof req.query.city === 'string' ? req.query.city : undefined,
+        tournamentClass: typeof req.query.class === 'string' ? req.query.class : undefined
+      });
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(name)}.h9`);
+      res.send(report);
+    } catch (error) {
+      console.error('Error exporting EGD report:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Export the AGA results file for US rating submission
+  async exportAga(req: Request, res: Response) {
+    try {
+      const { name, results } = await this.agaService.exportResults(req.params.id, {
+        location: typeof req.query.location === 'string' ? req.query.location : undefined,
+        rules: typeof req.query.rules === 'string' ? req.query.rules : undefined
+      });
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(name)}.txt`);
+      res.send(results);
+    } catch (error) {
+      console.error('Error exporting AGA results:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Printable pairings, result slips or wall chart of a round, as HTML (default) or PDF
+  async printRound(req: Request, res: Response) {
+    try {
+      const format = typeof req.query.format === 'string' ? req.query.format : PrintFormat.HTML;
+      const { name, contentType, body } = await this.printService.printRound(
+        req.params.id,
+        parseInt(req.params.roundNumber),
+        req.params.document as PrintDocument,
+        format as PrintFormat
       );
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(name)}`);
+      res.send(body);
+    } catch (error) {
+      console.error('Error printing round:', error);
+      this.sendServiceError(res, error);
+    }
+  }
 
-      if (playerExists) {
-        return res.status(400).json({ message: 'Player already in tournament' });
+  // Import an OpenGotha XML file as a new tournament
+  async importOpenGotha(req: Request, res: Response) {
+    try {
+      // XML 可以直接作为请求体，也可以放在 JSON 的 xml 字段中
+      const xml = typeof req.body === 'string' ? req.body : req.body?.xml;
+      const tournament = await this.openGothaService.importTournament(xml, req.user?.id);
+      res.status(201).json(tournament);
+    } catch (error) {
+      console.error('Error importing OpenGotha file:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Players and standings of each group
+  async getGroups(req: Request, res: Response) {
+    try {
+      const groups = await this.groupService.getGroups(req.params.id);
+      res.json(groups);
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Change the group settings and re-split the players before round 1
+  async setGroups(req: Request, res: Response) {
+    try {
+      const { groupMethod, groups, groupRankBands, assignments } = req.body;
+      const result = await this.groupService.setGroups(req.params.id, {
+        groupMethod: groupMethod || null,
+        groups,
+        groupRankBands,
+        assignments
+      });
+      res.json(result);
+    } catch (error) {
+      console.error('Error setting groups:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Stages of a multi-stage tournament; any stage id may be passed
+  async getStages(req: Request, res: Response) {
+    try {
+      const stages = await this.stageService.getStages(req.params.id);
+      res.json(stages);
+    } catch (error) {
+      console.error('Error fetching stages:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Append a stage that players enter by qualifying from the previous one
+  async addStage(req: Request, res: Response) {
+    try {
+      const { name, qualification, ...settings } = req.body;
+      const stages = await this.stageService.addStage(
+        req.params.id,
+        name,
+        { method: qualification.method, count: Number(qualification.count) },
+        { ...settings, format: String(settings.format).toUpperCase() }
+      );
+      res.status(201).json(stages);
+    } catch (error) {
+      console.error('Error adding stage:', error);
+      this.sendServiceError(res, error);
+    }
+  }
+
+  // Move the qualifiers of a completed stage into the next one (done automatically when the stage ends)
+  async advanceStage(req: Request, res: Response) {
+    try {
+      const nextStage = await this.stageService.advance(req.params.id);
+      if (!nextStage) {
+        return res.status(400).json({ message: 'This stage has no next stage' });
       }
+      res.json(nextStage);
+    } catch (error) {
+      console.error('Error advancing stage:', error);
+      this.sendServiceError(res, error);
+    }
+  }
 
-      // Add player to tournament
-      tournament.players.push(player._id);
-      await tournament.save();
+  // Assign the referees who may enter results
+  async setReferees(req: Request, res: Response) {
+    try {
+      const tournament = await this.tournamentService.setReferees(req.params.id, req.body.referees);
+      res.json(tournament);
+    } catch (error) {
+      console.error('Error setting referees:', error);
+      const message = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(message === 'Tournament not found' ? 404 : 400).json({ message });
+    }
+  }
 
-      // Fetch updated tournament with populated player data
-      const updatedTournament = await Tournament.findById(tournamentId)
-        .populate({
-          path: 'players',
-          select: 'name rank rating'
-        })
-        .exec();
+  // Override a player's McMahon group before round 1
+  async setMcMahonOverride(req: Request, res: Response) {
+    try {
+      const { id, playerId } = req.params;
+      const { initialScore } = req.body;
 
-      console.log('Updated tournament:', updatedTournament);
-      res.json(updatedTournament);
+      if (initialScore !== null && (initialScore === undefined || isNaN(Number(initialScore)))) {
+        return res.status(400).json({ message: 'initialScore must be a number, or null to clear the override' });
+      }
+
+      const tournament = await this.tournamentService.setMcMahonOverride(
+        id,
+        playerId,
+        initialScore === null ? null : Number(initialScore)
+      );
+
+      res.json(tournament);
     } catch (error) {
-      console.error('Error adding player to tournament:', error);
-      res.status(500).json({ 
+      console.error('Error setting McMahon override:', error);
+      res.status(400).json({ 
         message: error instanceof Error ? error.message : 'An unknown error occurred'
       });
     }
@@ -394,7 +972,7 @@ export class TournamentController {
       // 检查当前轮次是否完成
       if (tournament.rounds?.length > 0) {
         const currentRound = tournament.rounds[tournament.rounds.length - 1];
-        const isRoundComplete = currentRound.matches.every(match => match.winner != null);
+        const isRoundComplete = currentRound.matches.every(match => hasResult(match));
         if (!isRoundComplete) {
           throw new Error('Cannot generate next round until all matches in current round have results');
         }
@@ -420,79 +998,26 @@ export class TournamentController {
     try {
       const { id: tournamentId } = req.params;
       const { matchId } = req.params;
-      const { winnerId } = req.body;
+      const { winnerId, resultType, result, margin, reason } = req.body;
 
       console.log('Recording match result:', {
         tournamentId,
         matchId,
         winnerId,
+        resultType,
+        result,
         body: req.body
       });
 
-      if (!winnerId) {
-        return res.status(400).json({ message: 'Winner ID is required' });
+      if (!winnerId && !resultType && !result) {
+        return res.status(400).json({ message: 'Winner ID, result type or result is required' });
       }
 
-      const tournament = await Tournament.findById(tournamentId)
-        .populate('rounds.matches.player1')
-        .populate('rounds.matches.player2')
-        .exec();
-
-      if (!tournament) {
-        return res.status(404).json({ message: 'Tournament not found' });
-      }
-
-      let matchFound = false;
-      let currentMatch = null;
-
-      for (const round of tournament.rounds) {
-        const match = round.matches.find(m => m._id.toString() === matchId);
-        if (match) {
-          console.log('Found match:', match);
-
-          // 验证 winnerId 是否是这场比赛的选手之一
-          const isValidWinner = 
-            (match.player1 && match.player1._id.toString() === winnerId) ||
-            (match.player2 && match.player2._id.toString() === winnerId);
-
-          if (!isValidWinner) {
-            return res.status(400).json({ 
-              message: 'Invalid winner ID. Winner must be one of the match players',
-              match: {
-                player1: match.player1?._id.toString(),
-                player2: match.player2?._id.toString(),
-                providedWinnerId: winnerId
-              }
-            });
-          }
-
-          match.winner = new Types.ObjectId(winnerId);  // 转换为 ObjectId
-          currentMatch = match;
-          matchFound = true;
-          break;
-        }
-      }
-
-      if (!matchFound) {
-        return res.status(404).json({ message: 'Match not found' });
-      }
-
-      await tournament.save();
-
-      console.log('Tournament saved with updated match:', {
-        matchId: currentMatch._id.toString(),
-        winner: currentMatch.winner,
-        winnerType: typeof currentMatch.winner,
-        isObjectId: currentMatch.winner instanceof Types.ObjectId
-      });
-
-      // 调用 updateTournamentResults 来更新得分
-
+      // 允许覆盖已录入的结果，旧结果的计分会被撤销
       const updatedTournament = await this.tournamentService.updateTournamentResults(
         tournamentId,
         matchId,
-        winnerId,
-        ''  // 如果没有 result 字段，就传空字符串
+        { winnerId, resultType, result, margin, reason }
       );
 
       if (!updatedTournament) {
@@ -508,6 +1033,7 @@ export class TournamentController {
         tournamentId,
         matchId,
         winner: savedMatch?.winner,
+        resultType: savedMatch?.resultType,
         playerScores: updatedTournament.playerScores
       });
 
@@ -517,7 +1043,7 @@ export class TournamentController {
       });
     } catch (error) {
       console.error('Error recording match result:', error);
-      res.status(500).json({ message: 'Error recording match result', error: error.message });
+      this.sendResultError(res, error);
     }
   }
 
@@ -526,101 +1052,47 @@ export class TournamentController {
     try {
       const { id: tournamentId } = req.params;
       const { matchId } = req.params;
-      const { winnerId } = req.body;
+      const { winnerId, resultType, result, margin, reason } = req.body;
 
       console.log('Updating match result:', {
         tournamentId,
         matchId,
         winnerId,
+        resultType,
         params: req.params,
         body: req.body,
         url: req.url,
         method: req.method
       });
 
-      if (!winnerId) {
-        console.log('Winner ID is missing');
-        return res.status(400).json({ message: 'Winner ID is required' });
+      if (!winnerId && !resultType && !result) {
+        console.log('Winner ID, result type and result are missing');
+        return res.status(400).json({ message: 'Winner ID, result type or result is required' });
       }
 
-      const tournament = await Tournament.findById(tournamentId)
-        .populate('rounds.matches.player1')
-        .populate('rounds.matches.player2')
-        .exec();
-
+      const tournament = await Tournament.findById(tournamentId);
       if (!tournament) {
         console.log('Tournament not found:', tournamentId);
         return res.status(404).json({ message: 'Tournament not found' });
       }
 
-      let matchFound = false;
-      //let updatedMatch = null;
-
-      for (const round of tournament.rounds) {
-        const match = round.matches.find(m => m._id.toString() === matchId);
-        if (match) {
-          console.log('Found match:', {
-            matchId: match._id.toString(),
-            player1: match.player1?._id.toString(),
-            player2: match.player2?._id.toString(),
-            winner: match.winner,
-            providedWinnerId: winnerId
-          });
-
-          if (match.winner) {
-            console.log('Match already has a winner:', match.winner);
-            return res.status(400).json({ message: 'Match result already recorded' });
-          }
-
-          // 验证 winnerId 是否是这场比赛的选手之一
-          const isValidWinner = 
-            (match.player1 && match.player1._id.toString() === winnerId) ||
-            (match.player2 && match.player2._id.toString() === winnerId);
-
-          if (!isValidWinner) {
-            console.log('Invalid winner:', {
-              player1Id: match.player1?._id.toString(),
-              player2Id: match.player2?._id.toString(),
-              providedWinnerId: winnerId
-            });
-            return res.status(400).json({ 
-              message: 'Invalid winner ID. Winner must be one of the match players',
-              match: {
-                player1: match.player1?._id.toString(),
-                player2: match.player2?._id.toString(),
-                providedWinnerId: winnerId
-              }
-            });
-          }
-
-          match.winner = new Types.ObjectId(winnerId);  // 转换为 ObjectId
-          currentMatch = match;
-          matchFound = true;
-          break;
-        }
-      }
-
-      if (!matchFound) {
+      const match = tournament.rounds
+        .flatMap(r => r.matches)
+        .find(m => m._id.toString() === matchId);
+      if (!match) {
         console.log('Match not found:', matchId);
         return res.status(404).json({ message: 'Match not found' });
       }
 
-      await tournament.save();
-
-      console.log('Tournament saved with updated match:', {
-        matchId: currentMatch._id.toString(),
-        winner: currentMatch.winner,
-        winnerType: typeof currentMatch.winner,
-        isObjectId: currentMatch.winner instanceof Types.ObjectId
-      });
-
-      // 调用 updateTournamentResults 来更新得分
+      if (hasResult(match)) {
+        console.log('Match already has a result:', { winner: match.winner, resultType: match.resultType });
+        return res.status(400).json({ message: 'Match result already recorded' });
+      }
 
       const updatedTournament = await this.tournamentService.updateTournamentResults(
         tournamentId,
         matchId,
-        winnerId,
-        ''  // 如果没有 result 字段，就传空字符串
+        { winnerId, resultType, result, margin, reason }
       );
 
       if (!updatedTournament) {
@@ -628,7 +1100,6 @@ export class TournamentController {
       }
 
       // 从更新后的 tournament 中找到对应的 match
-      //const updatedMatch = updatedTournament.rounds
       const savedMatch = updatedTournament.rounds
         .flatMap(r => r.matches)
         .find(m => m._id.toString() === matchId);
@@ -637,6 +1108,7 @@ export class TournamentController {
         tournamentId,
         matchId,
         winner: savedMatch?.winner,
+        resultType: savedMatch?.resultType,
         playerScores: updatedTournament.playerScores
       });
 
@@ -644,27 +1116,26 @@ export class TournamentController {
         message: 'Match result recorded successfully',
         tournament: updatedTournament
       });
-
-      /*
-      await this.tournamentService.updateTournamentResults(
-        tournamentId,
-        matchId,
-        winnerId,
-        updatedMatch.result || ''
-      );
-
-     //await tournament.save();   //不要再save (对吗？) TXY 202/01/07
-
-      res.json({
-        message: 'Match result recorded successfully',
-        //match: updatedMatch
-        tournament: updatedTournament
-      });  */
-
     } catch (error) {
       console.error('Error recording match result:', error);
-      res.status(500).json({ message: 'Error recording match result', error: error.message });
+      this.sendResultError(res, error);
+    }
+  }
+
+  // 各项服务抛出的错误：找不到比赛、选手等返回 404，其余（请求不合法）返回 400
+  private sendServiceError(res: Response, error: unknown) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    const status = message.endsWith('not found') ? 404 : 400;
+    res.status(status).json({ message });
+  }
+
+  // 录入结果时的错误：找不到比赛或对局返回 404，结果不合法返回 400
+  private sendResultError(res: Response, error: unknown) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    if (message === 'Tournament not found' || message === 'Match not found') {
+      return res.status(404).json({ message });
     }
+    res.status(400).json({ message });
   }
 
   // Delete round
@@ -686,7 +1157,7 @@ export class TournamentController {
       console.log('Current tournament rounds:', tournament.rounds.map(r => ({ 
         roundNumber: r.roundNumber,
         matchCount: r.matches.length,
-        completedMatches: r.matches.filter(m => m.winner).length
+        completedMatches: r.matches.filter(m => hasResult(m)).length
       })));
 
       // 获取要删除的轮次中的所有比赛
@@ -705,54 +1176,33 @@ export class TournamentController {
         }))
       });
 
-      // 更新选手得分
-      const playerScores = new Map(tournament.playerScores?.map(score => [score.player.toString(), score]) || []);
-      
-      roundToDelete.matches.forEach(match => {
-        if (match.winner) {
-          const winner = playerScores.get(match.winner.toString());
-          if (winner) {
-            console.log('Updating winner score:', {
-              playerId: match.winner.toString(),
-              oldScore: winner.currentScore,
-              newScore: winner.currentScore - 2
-            });
-            winner.currentScore -= 2; // 减去胜利得分
-            winner.opponents = winner.opponents?.filter(opp => 
-              opp.toString() !== match.player1.toString() && 
-              opp.toString() !== match.player2.toString()
-            );
-          }
-
-          const loser = playerScores.get(
-            match.player1.toString() === match.winner.toString() 
-              ? match.player2.toString() 
-              : match.player1.toString()
-          );
-          if (loser) {
-            console.log('Updating loser opponents:', {
-              playerId: loser.player.toString(),
-              oldOpponents: loser.opponents?.map(o => o.toString()),
-              newOpponents: loser.opponents?.filter(opp => 
-                opp.toString() !== match.player1.toString() && 
-                opp.toString() !== match.player2.toString()
-              ).map(o => o.toString())
-            });
-            loser.opponents = loser.opponents?.filter(opp => 
-              opp.toString() !== match.player1.toString() && 
-              opp.toString() !== match.player2.toString()
-            );
-          }
-        }
-      });
+      // 撤销被删除轮次（该轮及之后所有轮次）中已录入结果的计分
+      const playerScores = tournament.playerScores || [];
+      tournament.rounds
+        .filter((_, index) => index >= roundNum - 1)
+        .forEach(round => {
+          round.matches.forEach(match => {
+            if (hasResult(match)) {
+              this.tournamentService.applyMatchScores(playerScores, match, -1);
+            }
+          });
+          this.tournamentService.applyRoundPoints(tournament, playerScores, round, -1);
+        });
 
-      tournament.playerScores = Array.from(playerScores.values());
+      tournament.playerScores = playerScores;
 
       // 删除该轮次及之后的所有轮次
       tournament.rounds = tournament.rounds.filter((_, index) => index < roundNum - 1);
 
+      // 淘汰赛签表撤回被删除轮次的安排和结果
+      this.tournamentService.rebuildBracket(tournament);
+
       if (tournament.rounds.length === 0) {
         tournament.status = TournamentStatus.UPCOMING;
+        // 回到报名阶段，循环赛下次开赛时重新排定 Berger 序号；后续阶段保留上一阶段的名次
+        if (!tournament.parentTournament) {
+          tournament.seeding = [];
+        }
       } else if (tournament.status === TournamentStatus.COMPLETED) {
         tournament.status = TournamentStatus.ONGOING;
       }
@@ -760,8 +1210,8 @@ export class TournamentController {
       console.log('Tournament after updates:', {
         roundsCount: tournament.rounds.length,
         status: tournament.status,
-        playerScores: Array.from(playerScores.entries()).map(([id, score]) => ({
-          playerId: id,
+        playerScores: playerScores.map(score => ({
+          playerId: score.player.toString(),
           currentScore: score.currentScore,
           opponentsCount: score.opponents?.length
         }))
@@ -798,7 +1248,12 @@ export class TournamentController {
   async updateTournament(req: Request, res: Response) {
     try {
       const id = req.params.id;
-      const { name, format, startDate, endDate, description } = req.body;
+      const {
+        name, format, startDate, endDate, description, tieBreakers,
+        maxParticipants, requireApproval, requireCheckIn, lateEntryPoints,
+        skipRoundPoints, withdrawalPoints,
+        byeAssignment, repeatByes, byePoints, byeCountsForSos, doubleRoundRobin
+      } = req.body;
 
       if (!name || !format || !startDate || !endDate) {
         return res.status(400).json({ 
@@ -817,6 +1272,13 @@ export class TournamentController {
         });
       }
 
+      // 上限不能低于已确认的人数
+      if (maxParticipants && Number(maxParticipants) < tournament.players.length) {
+        return res.status(400).json({
+          message: `Max participants cannot be lower than the ${tournament.players.length} confirmed players`
+        });
+      }
+
       const updatedTournament = await Tournament.findByIdAndUpdate(
         id,
         {
@@ -824,11 +1286,26 @@ export class TournamentController {
           format,
           startDate: new Date(startDate),
           endDate: new Date(endDate),
-          description
+          description,
+          ...(Array.isArray(tieBreakers) && { tieBreakers }),
+          ...(maxParticipants !== undefined && { maxParticipants: maxParticipants === null ? null : Number(maxParticipants) }),
+          ...(requireApproval !== undefined && { requireApproval: Boolean(requireApproval) }),
+          ...(requireCheckIn !== undefined && { requireCheckIn: Boolean(requireCheckIn) }),
+          ...(lateEntryPoints !== undefined && { lateEntryPoints: Number(lateEntryPoints) }),
+          ...(skipRoundPoints !== undefined && { skipRoundPoints: Number(skipRoundPoints) }),
+          ...(withdrawalPoints !== undefined && { withdrawalPoints: Number(withdrawalPoints) }),
+          ...(byeAssignment !== undefined && { byeAssignment }),
+          ...(repeatByes !== undefined && { repeatByes: Boolean(repeatByes) }),
+          ...(byePoints !== undefined && { byePoints: Number(byePoints) }),
+          ...(byeCountsForSos !== undefined && { byeCountsForSos: Boolean(byeCountsForSos) }),
+          ...(doubleRoundRobin !== undefined && { doubleRoundRobin: Boolean(doubleRoundRobin) })
         },
         { new: true }
       );
 
+      // 名额增加后递补候补选手
+      await this.registrationService.promoteWaitlisted(id);
+
       res.json(updatedTournament);
     } catch (error) {
       console.error('Error updating tournament:', error);
@@ -838,6 +1315,35 @@ export class TournamentController {
     }
   }
 
+  // Update a player's club, country and federation IDs
+  async updatePlayer(req: Request, res: Response) {
+    try {
+      const player = await Player.findById(req.params.id);
+      if (!player) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+
+      // 空值表示清除该字段
+      for (const field of PLAYER_PROFILE_FIELDS) {
+        if (req.body[field] !== undefined) {
+          player.set(field, req.body[field] || undefined);
+        }
+      }
+      await player.save();
+      res.json(player);
+    } catch (error: any) {
+      console.error('Error updating player:', error);
+      // 会员编号已被其他选手使用
+      if (error?.code === 11000) {
+        const field = Object.keys(error.keyPattern || {})[0] || 'ID';
+        return res.status(400).json({ message: `Another player already has this ${field}` });
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  }
+
   // Delete player
   async deletePlayer(req: Request, res: Response) {
     try {
@@ -856,6 +1362,8 @@ export class TournamentController {
       }
 
       await Player.findByIdAndDelete(id);
+      // 解除与用户账号的关联
+      await User.updateOne({ player: id }, { $set: { player: null } });
       res.json({ message: 'Player deleted successfully' });
     } catch (error) {
       console.error('Error deleting player:', error);
@@ -890,34 +1398,48 @@ export class TournamentController {
       }
 
       const sortedPlayers = this.tournamentService.getSortedPlayers(tournament);
+      const playerNames = new Map(
+        tournament.players.map((player: any) => [player._id.toString(), player.name])
+      );
+      // 分组赛：每位选手的组和组内名次
+      const grouped = isGrouped(tournament);
+      const groupOf = (item: { player: any }) => grouped ? getPlayerGroup(tournament, item.player._id.toString()) : null;
       const results = sortedPlayers.map((item, index) => ({
         rank: index + 1,
+        group: groupOf(item),
+        groupRank: grouped
+          ? sortedPlayers.slice(0, index + 1).filter(other => groupOf(other) === groupOf(item)).length
+          : null,
         player: {
           _id: item.player._id,
           name: item.player.name,
           rank: item.player.rank
         },
-        score: item.score,
-        opponentScore: item.opponentScore,
-        totalScore: item.totalScore,
-        gamePoints: item.score,  // 对于 SWISS 赛制，gamePoints 就是胜场数 * 2
-        wins: tournament.rounds.reduce((wins, round) => 
-          wins + round.matches.filter(match => 
-            match.winner && match.winner._id.toString() === item.player._id.toString()
-          ).length, 0),
-        losses: tournament.rounds.reduce((losses, round) => 
-          losses + round.matches.filter(match => 
-            match.winner && 
-            (match.player1._id.toString() === item.player._id.toString() || 
-             match.player2._id.toString() === item.player._id.toString()) &&
-            match.winner._id.toString() !== item.player._id.toString()
-          ).length, 0)
+        score: item.tieBreakers.MMS,
+        opponentScore: item.tieBreakers.SOS,
+        totalScore: item.tieBreakers.MMS,
+        gamePoints: item.tieBreakers.MMS,
+        tieBreakers: item.tieBreakers,
+        wins: item.wins,
+        losses: item.losses,
+        draws: item.draws,
+        withdrawn: item.withdrawn,
+        withdrawnFromRound: item.withdrawnFromRound,
+        colorSequence: item.colorSequence,
+        // 每盘棋的对手、执色和结果（如 B+R、W+3.5）
+        games: item.games.map(game => ({
+          ...game,
+          opponentName: game.opponent ? playerNames.get(game.opponent) || null : null
+        }))
       }));
 
       res.json({
         _id: tournament._id,
         name: tournament.name,
         format: tournament.format,
+        tieBreakers: this.tournamentService.getTieBreakers(tournament),
+        groups: grouped ? tournament.groups : [],
+        boardCount: tournament.boardCount || null,
         results
       });
     } catch (error) {
@@ -962,7 +1484,7 @@ export class TournamentController {
 
       // 检查是否所有轮次都已完成
       const allRoundsCompleted = tournament.rounds?.every(round => 
-        round.matches.every(match => match.winner != null)
+        round.matches.every(match => hasResult(match))
       ) || false;
 
       if (!allRoundsCompleted) {
@@ -971,8 +1493,8 @@ export class TournamentController {
         });
       }
 
-      tournament.status = TournamentStatus.COMPLETED;
-      await tournament.save();
+      // 多阶段比赛：晋级选手按名次进入下一阶段；不能晋级时比赛不结束
+      await this.stageService.complete(tournament);
 
       // 返回更新后的比赛信息
       const updatedTournament = await Tournament.findById(id)
@@ -994,9 +1516,7 @@ export class TournamentController {
       res.json(updatedTournament);
     } catch (error) {
       console.error('Error ending tournament:', error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'An unknown error occurred'
-      });
+      this.sendServiceError(res, error);
     }
   }
 }
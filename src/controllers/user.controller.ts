@@ -56,6 +56,19 @@ export class UserController {
     }
   }
 
+  // Change a user's role
+  async updateUserRole(req: Request, res: Response) {
+    try {
+      const user = await userService.setRole(req.params.id, req.body.role);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(user);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  }
+
   // Delete user
   async deleteUser(req: Request, res: Response) {
     try {
@@ -86,4 +99,61 @@ export class UserController {
       res.status(500).json({ message: error.message });
     }
   }
+
+  // Get the logged in user's player profile
+  async getMyPlayer(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const player = await userService.getLinkedPlayer(req.user.id);
+      if (!player) {
+        return res.status(404).json({ message: 'No player profile linked' });
+      }
+      res.json(player);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  }
+
+  // Claim an existing player (playerId) or create one from the user's profile
+  async linkMyPlayer(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const player = await userService.linkPlayer(req.user.id, req.body.playerId);
+      res.status(201).json(player);
+    } catch (error: any) {
+      const status = error.message.endsWith('not found') ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  }
+
+  // Link a user to a player on a director's confirmation, e.g. when the names differ
+  async linkPlayer(req: Request, res: Response) {
+    try {
+      const player = await userService.linkPlayer(req.params.id, req.body.playerId, true);
+      res.status(201).json(player);
+    } catch (error: any) {
+      const status = error.message.endsWith('not found') ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  }
+
+  // Unlink the logged in user's player profile
+  async unlinkMyPlayer(req: Request, res: Response) {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    try {
+      const unlinked = await userService.unlinkPlayer(req.user.id);
+      if (!unlinked) {
+        return res.status(404).json({ message: 'No player profile linked' });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  }
 }
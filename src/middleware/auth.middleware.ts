@@ -1,13 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { getJwtSecret } from '../utils/auth.utils';
+import { IAuthUser, ITokenPayload } from '../types/auth.types';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-      };
+      user?: IAuthUser;
     }
   }
 }
@@ -25,12 +24,9 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
       return res.status(401).json({ message: 'Authentication required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as {
-      id: string;
-      email: string;
-    };
+    const decoded = jwt.verify(token, getJwtSecret()) as ITokenPayload;
 
-    req.user = decoded;
+    req.user = { id: decoded.id, email: decoded.email };
     next();
   } catch (error) {
     res.status(401).json({ message: 'Invalid or expired token' });
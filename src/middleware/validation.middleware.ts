@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
-import { TournamentFormat } from '../types/tournament.types';
+import { body, param, validationResult } from 'express-validator';
+import { ByeAssignment, GroupMethod, HandicapPolicy, QualificationMethod, TieBreaker, TournamentFormat } from '../types/tournament.types';
+import { UserRole } from '../types/user.types';
+import { MAX_SKIP_ROUNDS } from '../utils/attendance.utils';
+import { COUNTRY_PATTERN, PLAYER_ID_PATTERNS } from '../utils/player.utils';
+import { RANK_PATTERN } from '../utils/rank.utils';
 
 export const validateTournament = [
   body('name')
@@ -32,6 +36,106 @@ export const validateTournament = [
       return true;
     }),
 
+  body('maxParticipants')
+    .optional({ values: 'null' })
+    .isInt({ min: 2 })
+    .withMessage('Max participants must be at least 2'),
+
+  body('requireApproval')
+    .optional()
+    .isBoolean()
+    .withMessage('requireApproval must be a boolean'),
+
+  body('requireCheckIn')
+    .optional()
+    .isBoolean()
+    .withMessage('requireCheckIn must be a boolean'),
+
+  body('lateEntryPoints')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Late entry points must be a non-negative number'),
+
+  body('skipRoundPoints')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Skip round points must be a non-negative number'),
+
+  body('withdrawalPoints')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Withdrawal points must be a non-negative number'),
+
+  body('tieBreakers')
+    .optional()
+    .isArray()
+    .withMessage('Tie-breakers must be an array')
+    .custom((value: string[]) => {
+      if (value.some(item => !Object.values(TieBreaker).includes(item as TieBreaker))) {
+        throw new Error(`Invalid tie-breaker. Must be one of: ${Object.values(TieBreaker).join(', ')}`);
+      }
+      return true;
+    }),
+
+  body('handicapPolicy')
+    .optional()
+    .isIn(Object.values(HandicapPolicy))
+    .withMessage(`Invalid handicap policy. Must be one of: ${Object.values(HandicapPolicy).join(', ')}`),
+
+  body('handicapReduction')
+    .optional()
+    .isInt({ min: 0, max: 9 })
+    .withMessage('Handicap reduction must be between 0 and 9'),
+
+  body('maxHandicap')
+    .optional()
+    .isInt({ min: 0, max: 9 })
+    .withMessage('Maximum handicap must be between 0 and 9 stones'),
+
+  body(['komi', 'handicapKomi'])
+    .optional()
+    .isFloat()
+    .withMessage('Komi must be a number'),
+
+  body('byeAssignment')
+    .optional()
+    .isIn(Object.values(ByeAssignment))
+    .withMessage(`Invalid bye assignment. Must be one of: ${Object.values(ByeAssignment).join(', ')}`),
+
+  body(['repeatByes', 'byeCountsForSos', 'doubleRoundRobin'])
+    .optional()
+    .isBoolean()
+    .withMessage('repeatByes, byeCountsForSos and doubleRoundRobin must be booleans'),
+
+  body('byePoints')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Bye points must be a non-negative number'),
+
+  body('boardCount')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Board count must be between 1 and 10'),
+
+  body('groupMethod')
+    .optional({ values: 'null' })
+    .isIn(Object.values(GroupMethod))
+    .withMessage(`Group method must be one of: ${Object.values(GroupMethod).join(', ')}`),
+
+  body('groups')
+    .optional()
+    .isArray({ min: 2 })
+    .withMessage('At least 2 groups are required'),
+
+  body('groupRankBands')
+    .optional()
+    .isArray()
+    .withMessage('Group rank bands must be an array of ranks'),
+
+  body('groupRankBands.*')
+    .matches(/^\d+[dk]$/i)
+    .withMessage('Invalid rank format (e.g., "1d" or "30k")'),
+
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -48,7 +152,7 @@ export const validatePlayer = [
     .withMessage('Player name must be between 2 and 50 characters'),
   
   body('rank')
-    .matches(/^([1-9]d|[1-3][0-9]k|[1-9]k)$/)
+    .matches(RANK_PATTERN)
     .withMessage('Invalid rank format (e.g., "1d" or "30k")'),
 
   (req: Request, res: Response, next: NextFunction) => {
@@ -154,3 +258,313 @@ export const validateUserUpdate = [
     next();
   }
 ];
+
+export const validateLogin = [
+  body('email')
+    .trim()
+    .isEmail()
+    .withMessage('Invalid email address')
+    .normalizeEmail(),
+
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validatePasswordChange = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+
+  body('newPassword')
+    .isString()
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateRefreshToken = [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateReferees = [
+  body('referees')
+    .isArray()
+    .withMessage('Referees must be an array of user IDs'),
+
+  body('referees.*')
+    .isMongoId()
+    .withMessage('Invalid referee user ID'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateUserRole = [
+  body('role')
+    .isIn(Object.values(UserRole))
+    .withMessage(`Role must be one of: ${Object.values(UserRole).join(', ')}`),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validatePlayerLink = [
+  body('playerId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateAttendance = [
+  param('roundNumber')
+    .isInt({ min: 1 })
+    .withMessage('Round number must be a positive integer'),
+
+  body('players')
+    .isArray({ min: 1 })
+    .withMessage('Players must be a non-empty array'),
+
+  body('players.*.player')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  body('players.*.present')
+    .isBoolean()
+    .withMessage('present must be a boolean'),
+
+  body('players.*.points')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Points must be a non-negative number'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateAbsence = [
+  param('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  body('rounds')
+    .optional()
+    .isInt({ min: 1, max: MAX_SKIP_ROUNDS })
+    .withMessage(`Rounds must be an integer between 1 and ${MAX_SKIP_ROUNDS}`),
+
+  body('points')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Points must be a non-negative number'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateStage = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Stage name must be between 1 and 50 characters'),
+
+  body('format')
+    .isIn(Object.values(TournamentFormat))
+    .withMessage('Invalid tournament format'),
+
+  body('qualification.method')
+    .isIn(Object.values(QualificationMethod))
+    .withMessage(`Qualification method must be one of: ${Object.values(QualificationMethod).join(', ')}`),
+
+  body('qualification.count')
+    .isInt({ min: 1 })
+    .withMessage('Qualification count must be a positive integer'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateGroups = [
+  body('groupMethod')
+    .optional({ values: 'null' })
+    .isIn(Object.values(GroupMethod))
+    .withMessage(`Group method must be one of: ${Object.values(GroupMethod).join(', ')}`),
+
+  body('groups')
+    .optional()
+    .isArray({ min: 2 })
+    .withMessage('At least 2 groups are required'),
+
+  body('groupRankBands')
+    .optional()
+    .isArray()
+    .withMessage('Group rank bands must be an array of ranks'),
+
+  body('groupRankBands.*')
+    .matches(/^\d+[dk]$/i)
+    .withMessage('Invalid rank format (e.g., "1d" or "30k")'),
+
+  body('assignments')
+    .optional()
+    .isArray()
+    .withMessage('Assignments must be an array'),
+
+  body('assignments.*.player')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  body('assignments.*.group')
+    .isString()
+    .withMessage('Group name is required'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+// 选手资料：国家代码和各协会的会员编号，传空值表示清除
+export const validatePlayerProfile = [
+  body('club')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Club must be at most 50 characters'),
+
+  body('country')
+    .optional({ values: 'falsy' })
+    .matches(COUNTRY_PATTERN)
+    .withMessage('Country must be a two-letter code (e.g., "CN")'),
+
+  body('agaId')
+    .optional({ values: 'falsy' })
+    .matches(PLAYER_ID_PATTERNS.agaId)
+    .withMessage('AGA ID must be up to 8 digits'),
+
+  body('egdPin')
+    .optional({ values: 'falsy' })
+    .matches(PLAYER_ID_PATTERNS.egdPin)
+    .withMessage('EGD PIN must be 8 digits'),
+
+  body('cwaId')
+    .optional({ values: 'falsy' })
+    .matches(PLAYER_ID_PATTERNS.cwaId)
+    .withMessage('Chinese association ID must be up to 20 letters, digits or dashes'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateTeam = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Team name must be between 2 and 50 characters'),
+
+  body('players')
+    .optional()
+    .isArray()
+    .withMessage('Players must be an array'),
+
+  body('players.*')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
+
+export const validateRoster = [
+  body('teamId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+
+  body('roster')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Roster must be a non-empty array'),
+
+  body('roster.*')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    next();
+  }
+];
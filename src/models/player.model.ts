@@ -5,7 +5,14 @@ const playerSchema = new Schema<IPlayer>({
   name: { type: String, required: true },
   rank: { type: String, required: true },
   rating: { type: Number },
+  club: { type: String, trim: true },
+  country: { type: String, trim: true, uppercase: true }, // 国家或地区代码，两位字母，如 CN
+  // 各围棋协会的会员编号，用于提交等级分
+  agaId: { type: String, trim: true }, // 美国围棋协会（AGA）
+  egdPin: { type: String, trim: true }, // 欧洲围棋数据库（EGD）PIN
+  cwaId: { type: String, trim: true }, // 中国围棋协会
   tournaments: [{ type: Schema.Types.ObjectId, ref: 'Tournament' }],
+  user: { type: Schema.Types.ObjectId, ref: 'User', default: null }, // 关联的用户账号
   wins: { type: Number, default: 0 },
   losses: { type: Number, default: 0 },
   draws: { type: Number, default: 0 }
@@ -19,6 +26,10 @@ const playerSchema = new Schema<IPlayer>({
 playerSchema.index({ name: 1 });
 playerSchema.index({ rank: 1 });
 playerSchema.index({ rating: 1 });
+playerSchema.index({ user: 1 }, { unique: true, partialFilterExpression: { user: { $type: 'objectId' } } });
+playerSchema.index({ agaId: 1 }, { unique: true, partialFilterExpression: { agaId: { $type: 'string' } } });
+playerSchema.index({ egdPin: 1 }, { unique: true, partialFilterExpression: { egdPin: { $type: 'string' } } });
+playerSchema.index({ cwaId: 1 }, { unique: true, partialFilterExpression: { cwaId: { $type: 'string' } } });
 
 // Virtual for total games
 playerSchema.virtual('totalGames').get(function(this: IPlayer) {
@@ -0,0 +1,18 @@
+import { Schema, model } from 'mongoose';
+import { ITeam } from '../types/team.types';
+
+const teamSchema = new Schema<ITeam>({
+  name: { type: String, required: true, trim: true },
+  club: { type: String, trim: true },
+  players: [{ type: Schema.Types.ObjectId, ref: 'Player' }], // 默认名单
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+teamSchema.index({ name: 1 });
+
+export default model<ITeam>('Team', teamSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRefreshToken } from '../types/auth.types';
+
+const refreshTokenSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  replacedBy: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// 过期的刷新令牌由 MongoDB 自动清理
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
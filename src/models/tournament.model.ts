@@ -1,20 +1,52 @@
 import { Schema, model, Types } from 'mongoose';
-import { ITournament, TournamentFormat, TournamentStatus } from '../types/tournament.types';
+import { AbsenceReason, AttendanceStatus, ByeAssignment, GroupMethod, HandicapPolicy, ITournament, MatchResultType, QualificationMethod, RegistrationStatus, ResultReason, StoneColor, TieBreaker, TournamentFormat, TournamentStatus } from '../types/tournament.types';
+import { BracketSide } from '../types/bracket.types';
 
 const matchSchema = new Schema({
   player1: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
   player2: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  black: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  white: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  nigiri: { type: Boolean, default: false },
+  handicap: { type: Number, default: 0 },
+  komi: { type: Number },
   winner: { type: Schema.Types.ObjectId, ref: 'Player' },
   result: { type: String, default: '' },
+  resultType: { type: String, enum: [...Object.values(MatchResultType), null], default: null },
+  winningColor: { type: String, enum: [...Object.values(StoneColor), null], default: null },
+  margin: { type: Number, default: null },
+  reason: { type: String, enum: [...Object.values(ResultReason), null], default: null },
   // McMahon specific fields
   player1Score: { type: Number, default: null },
-  player2Score: { type: Number, default: null }
+  player2Score: { type: Number, default: null },
+  // Elimination specific fields
+  bracketCode: { type: String },
+  bye: { type: Boolean, default: false }, // 轮空
+  group: { type: String, default: null }, // 分组赛中所属的组
+  // Team specific fields
+  teamMatch: { type: Schema.Types.ObjectId, default: null }, // 所属的两队对抗
+  board: { type: Number, default: null } // 台次
 });
 
+const teamMatchSchema = new Schema({
+  team1: { type: Schema.Types.ObjectId, ref: 'Team', required: true },
+  team2: { type: Schema.Types.ObjectId, ref: 'Team', default: null }, // 轮空为空
+  lineup1: [{ type: Schema.Types.ObjectId, ref: 'Player', default: null }], // 每台出场选手
+  lineup2: [{ type: Schema.Types.ObjectId, ref: 'Player', default: null }]
+});
+
+const roundAbsenceSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  reason: { type: String, enum: Object.values(AbsenceReason), required: true },
+  points: { type: Number, default: 0 }
+}, { _id: false });
+
 const roundSchema = new Schema({
   roundNumber: { type: Number, required: true },
   matches: [matchSchema],
-  completed: { type: Boolean, default: false }
+  completed: { type: Boolean, default: false },
+  absences: [roundAbsenceSchema], // 本轮缺席、退赛的选手
+  teamMatches: [teamMatchSchema] // 团体赛的两队对抗
 });
 
 const playerScoreSchema = new Schema({
@@ -28,6 +60,100 @@ const playerScoreSchema = new Schema({
   opponents: [{ type: Schema.Types.ObjectId, ref: 'Player' }]
 });
 
+const groupAssignmentSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  group: { type: String, required: true }
+}, { _id: false });
+
+const tournamentTeamSchema = new Schema({
+  team: { type: Schema.Types.ObjectId, ref: 'Team', required: true },
+  roster: [{ type: Schema.Types.ObjectId, ref: 'Player' }] // 前 boardCount 位出场，其余替补
+}, { _id: false });
+
+const mcmahonOverrideSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  initialScore: { type: Number, required: true }
+}, { _id: false });
+
+const registrationSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  status: { type: String, enum: Object.values(RegistrationStatus), required: true },
+  registeredAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const attendanceSchema = new Schema({
+  roundNumber: { type: Number, required: true },
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  status: { type: String, enum: Object.values(AttendanceStatus), required: true },
+  points: { type: Number, default: null }, // 请假本轮的得分
+  updatedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const withdrawalSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  fromRound: { type: Number, required: true },
+  points: { type: Number, default: null }, // 退赛后每轮的得分
+  withdrawnAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const lateEntrySchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  joinedRound: { type: Number, required: true },
+  entryPoints: { type: Number, default: 0 }
+}, { _id: false });
+
+const bracketSlotRefSchema = new Schema({
+  code: { type: String, required: true },
+  slot: { type: Number, enum: [1, 2], required: true }
+}, { _id: false });
+
+const bracketMatchSchema = new Schema({
+  code: { type: String, required: true },
+  side: {
+    type: String,
+    enum: Object.values(BracketSide),
+    required: true
+  },
+  round: { type: Number, required: true },
+  position: { type: Number, required: true },
+  player1: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  player2: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  winner: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  loser: { type: Schema.Types.ObjectId, ref: 'Player', default: null },
+  bye: { type: Boolean, default: false },
+  winnerTo: bracketSlotRefSchema,
+  loserTo: bracketSlotRefSchema,
+  roundNumber: { type: Number }
+}, { _id: false });
+
+const bracketLossCountSchema = new Schema({
+  player: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+  losses: { type: Number, default: 0 }
+}, { _id: false });
+
+const bracketSchema = new Schema({
+  size: { type: Number, required: true },
+  seeds: [{ type: Schema.Types.ObjectId, ref: 'Player' }],
+  thirdPlaceMatch: { type: Boolean, default: false },
+  bracketReset: { type: Boolean, default: false },
+  matches: [bracketMatchSchema],
+  lossCounts: [bracketLossCountSchema]
+}, { _id: false });
+
+const stageSchema = new Schema({
+  name: { type: String, required: true },
+  tournament: { type: Schema.Types.ObjectId, ref: 'Tournament', required: true },
+  qualification: {
+    type: new Schema({
+      method: { type: String, enum: Object.values(QualificationMethod), required: true },
+      count: { type: Number, required: true, min: 1 }
+    }, { _id: false }),
+    default: null
+  },
+  qualifiedAt: { type: Date, default: null }
+}, { _id: false });
+
 const tournamentSchema = new Schema<ITournament>({
   name: { type: String, required: true },
   format: { 
@@ -45,6 +171,24 @@ const tournamentSchema = new Schema<ITournament>({
   players: [{ type: Schema.Types.ObjectId, ref: 'Player' }],
   rounds: [roundSchema],
   description: String,
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }, // 比赛所有者
+  referees: [{ type: Schema.Types.ObjectId, ref: 'User' }], // 本比赛的裁判
+
+  // 报名
+  maxParticipants: { type: Number, min: 2, default: null }, // 参赛人数上限
+  requireApproval: { type: Boolean, default: false }, // 自助报名需要审核
+  registrations: [registrationSchema], // 报名记录（含候补、退出）
+
+  // 签到与补报名
+  requireCheckIn: { type: Boolean, default: false }, // 只编排已签到的选手
+  attendance: [attendanceSchema], // 每轮签到记录
+  lateEntryPoints: { type: Number, default: 1, min: 0 }, // 每个缺席轮次补给的分数，默认半胜
+  lateEntries: [lateEntrySchema], // 补报名选手
+
+  // 请假与退赛
+  skipRoundPoints: { type: Number, default: 0, min: 0 }, // 请假一轮的得分
+  withdrawalPoints: { type: Number, default: 0, min: 0 }, // 退赛后每轮的得分
+  withdrawals: [withdrawalSchema], // 中途退赛的选手
   
   // McMahon specific fields
   upperBar: { type: Number }, // 上限分段位
@@ -52,7 +196,46 @@ const tournamentSchema = new Schema<ITournament>({
   minimumScore: { type: Number }, // 最低分数限制
   roundCount: { type: Number }, // 总轮数
   groups: [{ type: String }], // 分组
-  playerScores: [playerScoreSchema] // 选手分数记录
+  playerScores: [playerScoreSchema], // 选手分数记录
+  mcmahonOverrides: [mcmahonOverrideSchema], // 手动调整的 McMahon 分组
+
+  // 排名规则，按顺序比较
+  tieBreakers: [{ type: String, enum: Object.values(TieBreaker) }],
+
+  // Handicap and komi
+  handicapPolicy: { type: String, enum: Object.values(HandicapPolicy), default: HandicapPolicy.NONE },
+  handicapReduction: { type: Number, default: 0, min: 0 },
+  maxHandicap: { type: Number, default: 9, min: 0, max: 9 },
+  komi: { type: Number, default: 7.5 },
+  handicapKomi: { type: Number, default: 0.5 },
+
+  // 轮空规则
+  byeAssignment: { type: String, enum: Object.values(ByeAssignment), default: ByeAssignment.LOWEST_SCORE },
+  repeatByes: { type: Boolean, default: false },
+  byePoints: { type: Number, default: 2, min: 0 },
+  byeCountsForSos: { type: Boolean, default: false },
+
+  // 分组赛
+  groupMethod: { type: String, enum: [...Object.values(GroupMethod), null], default: null }, // 为空表示不分组
+  groupRankBands: [{ type: String }], // 按段位分组时每组的最低段位
+  groupAssignments: [groupAssignmentSchema], // 选手所在的组
+
+  // 团体赛
+  boardCount: { type: Number, default: null, min: 1 }, // 每队出场台数，为空表示个人赛
+  teams: [tournamentTeamSchema], // 参赛队伍和名单
+
+  // 多阶段比赛
+  stages: [stageSchema], // 第一阶段保存的全部阶段
+  parentTournament: { type: Schema.Types.ObjectId, ref: 'Tournament', default: null }, // 之后的阶段指向第一阶段
+
+  // Round robin specific fields
+  doubleRoundRobin: { type: Boolean, default: false }, // 双循环
+  seeding: [{ type: Schema.Types.ObjectId, ref: 'Player' }], // Berger 序号，开赛时按实力排定
+
+  // Elimination specific fields
+  thirdPlaceMatch: { type: Boolean, default: false }, // 是否进行三四名决赛
+  bracketReset: { type: Boolean, default: true }, // 双败淘汰总决赛是否允许加赛
+  bracket: bracketSchema // 淘汰赛签表
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -1,8 +1,8 @@
-import mongoose, { Schema } from 'mongoose';
-import { IUser } from '../types/user.types';
+import mongoose, { Model, Schema } from 'mongoose';
+import { IUser, IUserMethods, UserRole } from '../types/user.types';
 import bcrypt from 'bcryptjs';
 
-const userSchema = new Schema({
+const userSchema = new Schema<IUser, Model<IUser, {}, IUserMethods>, IUserMethods>({
   name: { 
     type: String, 
     required: true,
@@ -47,6 +47,16 @@ const userSchema = new Schema({
     type: String,
     trim: true
   },
+  role: {
+    type: String,
+    enum: Object.values(UserRole),
+    default: UserRole.PLAYER
+  },
+  player: {
+    type: Schema.Types.ObjectId,
+    ref: 'Player',
+    default: null
+  },
   tournaments: [{
     type: Schema.Types.ObjectId,
     ref: 'Tournament'
@@ -75,4 +85,4 @@ userSchema.methods.comparePassword = async function(password: string): Promise<b
   return bcrypt.compare(password, this.password);
 };
 
-export default mongoose.model<IUser>('User', userSchema);
+export default mongoose.model<IUser, Model<IUser, {}, IUserMethods>>('User', userSchema);
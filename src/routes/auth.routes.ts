@@ -1,10 +1,19 @@
 import express from 'express';
+import { AuthController } from '../controllers/auth.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { validateLogin, validatePasswordChange, validateRefreshToken, validateUser } from '../middleware/validation.middleware';
 
 const router = express.Router();
+const authController = new AuthController();
 
-// Placeholder routes - to be implemented
-router.post('/login', (req, res) => {
-  res.json({ message: 'Auth routes to be implemented' });
-});
+// Public routes
+router.post('/register', validateUser, authController.register);
+router.post('/login', validateLogin, authController.login);
+router.post('/refresh', validateRefreshToken, authController.refresh);
+
+// Protected routes (require authentication)
+router.post('/logout', authenticate, authController.logout);
+router.get('/me', authenticate, authController.me);
+router.put('/password', authenticate, validatePasswordChange, authController.changePassword);
 
 export default router;
@@ -1,14 +1,33 @@
 import express from 'express';
 import { TournamentController } from '../controllers/tournament.controller';
-import { validateTournament } from '../middleware/validation.middleware';
+import { validateAbsence, validateAttendance, validateGroups, validatePlayerProfile, validateReferees, validateRoster, validateStage, validateTeam, validateTournament } from '../middleware/validation.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize, authorizeTournament } from '../middleware/authorization.middleware';
+import { TournamentAccess } from '../types/auth.types';
+import { UserRole } from '../types/user.types';
 
 const router = express.Router();
 const tournamentController = new TournamentController();
 
+// 查看比赛不需要登录；修改操作需要登录并具有相应权限
+const director = [authenticate, authorize(UserRole.DIRECTOR)];
+const admin = [authenticate, authorize(UserRole.ADMIN)];
+const manage = [authenticate, authorizeTournament(TournamentAccess.MANAGE)];
+const score = [authenticate, authorizeTournament(TournamentAccess.SCORE)];
+
+// 导入的比赛文件可能较大，XML 按文本读取
+const xmlBody = express.text({ type: ['application/xml', 'text/xml'], limit: '5mb' });
+const csvBody = express.text({ type: ['text/csv', 'text/tab-separated-values', 'text/plain'], limit: '5mb' });
+
 // Player management routes   --> Moved to player.routes.ts TXY 2024.12.21 > No. back here
 router.get('/players', tournamentController.getAllPlayers.bind(tournamentController));
-router.post('/players', tournamentController.createPlayer.bind(tournamentController));
-router.delete('/players/:id', tournamentController.deletePlayer.bind(tournamentController));
+router.post('/players/import', director, csvBody, tournamentController.importPlayers.bind(tournamentController));
+router.post('/players', director, validatePlayerProfile, tournamentController.createPlayer.bind(tournamentController));
+router.put('/players/:id', director, validatePlayerProfile, tournamentController.updatePlayer.bind(tournamentController));
+router.delete('/players/:id', director, tournamentController.deletePlayer.bind(tournamentController));
+router.get('/teams', tournamentController.getAllTeams.bind(tournamentController));
+router.post('/teams', director, validateTeam, tournamentController.createTeam.bind(tournamentController));
+router.delete('/teams/:teamId', director, tournamentController.deleteTeam.bind(tournamentController));
 //Now your player routes will be accessible at:    //TXY  12.21 18:38
 //GET /api/tournaments/players
 //POST /api/tournaments/players
@@ -18,20 +37,52 @@ router.delete('/players/:id', tournamentController.deletePlayer.bind(tournamentC
 
 // Tournament routes
 router.get('/', tournamentController.getTournaments.bind(tournamentController));
-router.post('/', validateTournament, tournamentController.createTournament.bind(tournamentController));
+router.post('/', director, validateTournament, tournamentController.createTournament.bind(tournamentController));
+router.post('/import/opengotha', director, xmlBody, tournamentController.importOpenGotha.bind(tournamentController));
 
 // 临时路由：统一比赛格式
-router.post('/normalize-formats', tournamentController.normalizeFormats.bind(tournamentController));
+router.post('/normalize-formats', admin, tournamentController.normalizeFormats.bind(tournamentController));
 
 // Tournament detail routes
 router.get('/:id', tournamentController.getTournamentById.bind(tournamentController));
-router.put('/:id', validateTournament, tournamentController.updateTournament.bind(tournamentController));
-router.post('/:id/players', tournamentController.addPlayer.bind(tournamentController));
-router.post('/:id/rounds', tournamentController.generateNextRound.bind(tournamentController));
-router.put('/:id/matches/:matchId/result', tournamentController.recordMatchResult.bind(tournamentController));
-router.put('/:id/matches/:matchId', tournamentController.updateMatchResult.bind(tournamentController));
-router.delete('/:id/rounds/:roundNumber', tournamentController.deleteRound.bind(tournamentController));
+router.put('/:id', manage, validateTournament, tournamentController.updateTournament.bind(tournamentController));
+router.post('/:id/players', manage, tournamentController.addPlayer.bind(tournamentController));
+router.post('/:id/players/import', manage, csvBody, tournamentController.importPlayers.bind(tournamentController));
+router.post('/:id/register', authenticate, authorize(UserRole.PLAYER), tournamentController.registerSelf.bind(tournamentController));
+router.delete('/:id/register', authenticate, tournamentController.withdrawSelf.bind(tournamentController));
+router.get('/:id/registrations', tournamentController.getRegistrations.bind(tournamentController));
+router.put('/:id/registrations/:playerId/approve', manage, tournamentController.approveRegistration.bind(tournamentController));
+router.put('/:id/registrations/:playerId/reject', manage, tournamentController.rejectRegistration.bind(tournamentController));
+router.delete('/:id/registrations/:playerId', manage, tournamentController.withdrawRegistration.bind(tournamentController));
+router.put('/:id/mcmahon-overrides/:playerId', manage, tournamentController.setMcMahonOverride.bind(tournamentController));
+router.post('/:id/late-entries', manage, tournamentController.addLateEntry.bind(tournamentController));
+router.get('/:id/attendance', tournamentController.getAttendance.bind(tournamentController));
+router.put('/:id/attendance/:roundNumber', score, validateAttendance, tournamentController.setAttendance.bind(tournamentController));
+router.post('/:id/players/:playerId/skip', score, validateAbsence, tournamentController.skipRounds.bind(tournamentController));
+router.post('/:id/players/:playerId/withdraw', manage, validateAbsence, tournamentController.withdrawPlayer.bind(tournamentController));
+router.delete('/:id/players/:playerId/withdraw', manage, tournamentController.reinstatePlayer.bind(tournamentController));
+router.post('/:id/check-in', authenticate, authorize(UserRole.PLAYER), tournamentController.checkIn.bind(tournamentController));
+router.get('/:id/schedule', tournamentController.getSchedule.bind(tournamentController));
+router.get('/:id/teams', tournamentController.getTournamentTeams.bind(tournamentController));
+router.post('/:id/teams', manage, validateRoster, tournamentController.addTeam.bind(tournamentController));
+router.put('/:id/teams/:teamId/roster', manage, validateRoster, tournamentController.setRoster.bind(tournamentController));
+router.delete('/:id/teams/:teamId', manage, tournamentController.removeTeam.bind(tournamentController));
+router.get('/:id/team-results', tournamentController.getTeamResults.bind(tournamentController));
+router.get('/:id/groups', tournamentController.getGroups.bind(tournamentController));
+router.put('/:id/groups', manage, validateGroups, tournamentController.setGroups.bind(tournamentController));
+router.get('/:id/stages', tournamentController.getStages.bind(tournamentController));
+router.post('/:id/stages', manage, validateStage, tournamentController.addStage.bind(tournamentController));
+router.post('/:id/stages/advance', manage, tournamentController.advanceStage.bind(tournamentController));
+router.post('/:id/rounds', manage, tournamentController.generateNextRound.bind(tournamentController));
+router.put('/:id/matches/:matchId/result', score, tournamentController.recordMatchResult.bind(tournamentController));
+router.put('/:id/matches/:matchId', score, tournamentController.updateMatchResult.bind(tournamentController));
+router.get('/:id/rounds/:roundNumber/print/:document', tournamentController.printRound.bind(tournamentController));
+router.delete('/:id/rounds/:roundNumber', manage, tournamentController.deleteRound.bind(tournamentController));
+router.put('/:id/referees', manage, validateReferees, tournamentController.setReferees.bind(tournamentController));
+router.get('/:id/export/opengotha', tournamentController.exportOpenGotha.bind(tournamentController));
+router.get('/:id/export/egd', tournamentController.exportEgd.bind(tournamentController));
+router.get('/:id/export/aga', tournamentController.exportAga.bind(tournamentController));
 router.get('/:id/results', tournamentController.getTournamentResults.bind(tournamentController));
-router.put('/:id/end', tournamentController.endTournament.bind(tournamentController));
+router.put('/:id/end', manage, tournamentController.endTournament.bind(tournamentController));
 
 export default router;
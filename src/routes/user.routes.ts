@@ -1,7 +1,9 @@
 import express from 'express';
 import { UserController } from '../controllers/user.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { validateUser, validateUserUpdate } from '../middleware/validation.middleware';
+import { authorize, authorizeSelf } from '../middleware/authorization.middleware';
+import { validatePlayerLink, validateUser, validateUserRole, validateUserUpdate } from '../middleware/validation.middleware';
+import { UserRole } from '../types/user.types';
 
 const router = express.Router();
 const userController = new UserController();
@@ -10,10 +12,19 @@ const userController = new UserController();
 router.post('/', validateUser, userController.createUser);
 
 // Protected routes (require authentication)
+router.get('/me/player', authenticate, userController.getMyPlayer);
+router.post('/me/player', authenticate, validatePlayerLink, userController.linkMyPlayer);
+router.delete('/me/player', authenticate, userController.unlinkMyPlayer);
 router.get('/', authenticate, userController.getUsers);
 router.get('/search', authenticate, userController.searchUsers);
 router.get('/:id', authenticate, userController.getUserById);
-router.put('/:id', authenticate, validateUserUpdate, userController.updateUser);
-router.delete('/:id', authenticate, userController.deleteUser);
+router.put('/:id', authenticate, authorizeSelf, validateUserUpdate, userController.updateUser);
+router.delete('/:id', authenticate, authorizeSelf, userController.deleteUser);
+
+// Director routes
+router.post('/:id/player', authenticate, authorize(UserRole.DIRECTOR), validatePlayerLink, userController.linkPlayer);
+
+// Admin routes
+router.put('/:id/role', authenticate, authorize(UserRole.ADMIN), validateUserRole, userController.updateUserRole);
 
 export default router;
@@ -6,9 +6,18 @@ import tournamentRoutes from './routes/tournament.routes';
 import playerRoutes from './routes/player.routes';
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/user.routes';
+import { getJwtSecret } from './utils/auth.utils';
 
 dotenv.config();
 
+// 没有配置 JWT 密钥时拒绝启动，避免用默认密钥签发令牌
+try {
+  getJwtSecret();
+} catch (error: any) {
+  console.error(`${error.message}. Set JWT_SECRET in the environment or .env file.`);
+  process.exit(1);
+}
+
 const app = express();
 const port = process.env.PORT || 3003;
 
@@ -16,10 +25,21 @@ const port = process.env.PORT || 3003;
 app.use(cors());
 app.use(express.json());
 
+// 请求日志中不输出密码和令牌
+const SECRET_FIELDS = ['password', 'refreshToken', 'token'];
+const maskSecrets = (body: unknown): unknown => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return body;
+  }
+  return Object.fromEntries(Object.entries(body).map(([key, value]) =>
+    [key, SECRET_FIELDS.includes(key) ? '***' : value]
+  ));
+};
+
 // Request logging middleware
 app.use((req, res, next) => {
   console.log(`${req.method} ${req.url}`);
-  console.log('Request body:', req.body);
+  console.log('Request body:', maskSecrets(req.body));
   next();
 });
 
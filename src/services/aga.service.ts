@@ -0,0 +1,83 @@
+import Tournament from '../models/tournament.model';
+import { MatchResultType } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { agaLine, formatAgaDate, formatAgaName, formatAgaRank } from '../utils/aga.utils';
+import { getMatchColors, hasResult, isByeMatch } from '../utils/result.utils';
+
+export interface IAgaOptions {
+  location?: string;  // 比赛地点，写在 TOURNEY 一行
+  rules?: string;     // 规则，默认 AGA
+}
+
+// 只有下完且分出黑白胜负的对局计算等级分；轮空、弃权、和棋、双方判负不提交
+const RATED_RESULTS = [MatchResultType.BLACK_WIN, MatchResultType.WHITE_WIN];
+
+// AGA 成绩文件：提交美国围棋协会计算等级分
+export class AgaService {
+  // 只导出已完成轮次的对局，每盘棋为：白方 ID、黑方 ID、胜方颜色、让子、贴目
+  async exportResults(tournamentId: string, options: IAgaOptions = {}): Promise<{ name: string; results: string }> {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank agaId');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const rounds = tournament.rounds
+      .filter(round => round.completed || round.matches.every(match => hasResult(match)))
+      .sort((a, b) => a.roundNumber - b.roundNumber);
+    if (rounds.length === 0) {
+      throw new Error('The tournament has no completed rounds to report');
+    }
+
+    const ratedGames = rounds.map(round => ({
+      roundNumber: round.roundNumber,
+      matches: round.matches.filter(match =>
+        !isByeMatch(match) && RATED_RESULTS.includes(match.resultType as MatchResultType)
+      )
+    }));
+
+    // 参加了计分对局的选手都必须有 AGA 会员号
+    const players = new Map((tournament.players as any[]).map(player => [refId(player)!, player]));
+    const ratedPlayerIds = new Set(ratedGames.flatMap(round =>
+      round.matches.flatMap(match => [refId(match.player1)!, refId(match.player2)!])
+    ));
+    const missing = Array.from(ratedPlayerIds)
+      .map(id => players.get(id))
+      .filter(player => !player?.agaId)
+      .map(player => player?.name || '?');
+    if (missing.length > 0) {
+      throw new Error(`Players without an AGA ID: ${missing.join(', ')}`);
+    }
+
+    const agaIdOf = (id: string | null) => players.get(id!)!.agaId;
+    const lines = [
+      `TOURNEY ${[tournament.name, options.location].filter(Boolean).join(', ')}`,
+      `\tstart=${formatAgaDate(tournament.startDate)}`,
+      `\tfinish=${formatAgaDate(tournament.endDate)}`,
+      `\trules=${options.rules || 'AGA'}`,
+      'PLAYERS',
+      ...Array.from(ratedPlayerIds).map(id => {
+        const player = players.get(id);
+        return agaLine(player.agaId, formatAgaName(player.name), formatAgaRank(player.rank));
+      }),
+      'GAMES'
+    ];
+    for (const round of ratedGames) {
+      lines.push(`# Round ${round.roundNumber}`);
+      for (const match of round.matches) {
+        const colors = getMatchColors(match);
+        lines.push(agaLine(
+          agaIdOf(colors.white),
+          agaIdOf(colors.black),
+          match.resultType === MatchResultType.WHITE_WIN ? 'W' : 'B',
+          match.handicap || 0,
+          match.komi ?? tournament.komi ?? 7.5
+        ));
+      }
+    }
+
+    const gameCount = ratedGames.reduce((sum, round) => sum + round.matches.length, 0);
+    console.log(`导出 AGA 成绩: ${tournament.name}, ${ratedPlayerIds.size} 名选手, ${gameCount} 盘对局`);
+    return { name: tournament.name, results: [...lines, ''].join('\n') };
+  }
+}
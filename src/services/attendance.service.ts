@@ -0,0 +1,172 @@
+import Tournament from '../models/tournament.model';
+import { AttendanceStatus, TournamentStatus } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { findAttendance, findWithdrawal, getNextRoundNumber, getRemainingRounds, isPresent } from '../utils/attendance.utils';
+import { UserService } from './user.service';
+
+export interface IAttendanceInput {
+  player: string;
+  present: boolean;
+  points?: number | null;  // 请假本轮的得分，为空时使用赛事设置
+}
+
+// 每轮签到：编排前记录哪些选手到场，缺席的选手不参加本轮编排
+export class AttendanceService {
+  private userService = new UserService();
+
+  // 某一轮的签到表，默认是下一轮
+  async getAttendance(tournamentId: string, roundNumber?: number) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank rating club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const round = roundNumber || getNextRoundNumber(tournament);
+    return {
+      roundNumber: round,
+      requireCheckIn: Boolean(tournament.requireCheckIn),
+      players: tournament.players.map(player => {
+        const record = findAttendance(tournament, refId(player)!, round);
+        const withdrawal = findWithdrawal(tournament, refId(player)!);
+        return {
+          player,
+          status: record ? record.status : null,
+          points: record?.points ?? null,
+          present: isPresent(tournament, refId(player)!, round),
+          withdrawnFromRound: withdrawal ? withdrawal.fromRound : null
+        };
+      })
+    };
+  }
+
+  // 裁判批量登记到场或缺席，只能修改尚未编排的轮次
+  async setAttendance(tournamentId: string, roundNumber: number, entries: IAttendanceInput[]) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status === TournamentStatus.COMPLETED) {
+      throw new Error('Tournament is already completed');
+    }
+    const nextRound = getNextRoundNumber(tournament);
+    if (roundNumber < nextRound) {
+      throw new Error(`Round ${roundNumber} has already been paired`);
+    }
+
+    const playerIds = new Set(tournament.players.map(player => refId(player)!));
+    const unknown = entries.find(entry => !playerIds.has(entry.player));
+    if (unknown) {
+      throw new Error(`Player ${unknown.player} is not in this tournament`);
+    }
+
+    tournament.attendance = tournament.attendance || [];
+    for (const entry of entries) {
+      const status = entry.present ? AttendanceStatus.PRESENT : AttendanceStatus.ABSENT;
+      const points = entry.present ? null : entry.points ?? null;
+      const record = findAttendance(tournament, entry.player, roundNumber);
+      if (record) {
+        record.status = status;
+        record.points = points;
+        record.updatedAt = new Date();
+      } else {
+        tournament.attendance.push({ roundNumber, player: entry.player, status, points, updatedAt: new Date() });
+      }
+    }
+    await tournament.save();
+    console.log(`第 ${roundNumber} 轮签到更新:`, entries);
+
+    return this.getAttendance(tournamentId, roundNumber);
+  }
+
+  // 选手用关联的选手资料为下一轮签到（present 为 false 表示请假）
+  async checkInSelf(tournamentId: string, userId: string, present: boolean = true) {
+    const player = await this.userService.getLinkedPlayer(userId);
+    if (!player) {
+      throw new Error('Link a player profile to your account before checking in');
+    }
+    const tournament = await Tournament.findById(tournamentId).select('rounds');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    return this.setAttendance(tournamentId, getNextRoundNumber(tournament), [
+      { player: player._id.toString(), present }
+    ]);
+  }
+
+  // 请假：从下一轮起连续缺席 rounds 轮，points 为每轮的得分
+  async skipRounds(tournamentId: string, playerId: string, rounds: number = 1, points?: number | null) {
+    const tournament = await Tournament.findById(tournamentId).select('rounds players roundCount');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (rounds < 1) {
+      throw new Error('At least one round must be skipped');
+    }
+    const remaining = getRemainingRounds(tournament);
+    if (rounds > remaining) {
+      throw new Error(remaining === 0
+        ? 'There are no rounds left to skip'
+        : `Only ${remaining} round${remaining === 1 ? '' : 's'} left to skip`);
+    }
+
+    const nextRound = getNextRoundNumber(tournament);
+    for (let round = nextRound; round < nextRound + rounds; round++) {
+      await this.setAttendance(tournamentId, round, [{ player: playerId, present: false, points }]);
+    }
+    console.log(`选手 ${playerId} 请假第 ${nextRound}-${nextRound + rounds - 1} 轮`);
+
+    return this.getAttendance(tournamentId, nextRound);
+  }
+
+  // 退赛：从下一轮起不再编排，已赛轮次的成绩保留
+  async withdraw(tournamentId: string, playerId: string, points?: number | null) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status !== TournamentStatus.ONGOING) {
+      throw new Error('Players can only withdraw from an ongoing tournament');
+    }
+    if (!tournament.players.some(player => refId(player) === playerId)) {
+      throw new Error(`Player ${playerId} is not in this tournament`);
+    }
+    if (findWithdrawal(tournament, playerId)) {
+      throw new Error('Player has already withdrawn');
+    }
+
+    const fromRound = getNextRoundNumber(tournament);
+    tournament.withdrawals = tournament.withdrawals || [];
+    tournament.withdrawals.push({ player: playerId, fromRound, points: points ?? null, withdrawnAt: new Date() });
+    await tournament.save();
+    console.log(`选手 ${playerId} 从第 ${fromRound} 轮起退赛`);
+
+    return tournament;
+  }
+
+  // 撤销退赛：只能撤销尚未开始编排的轮次
+  async reinstate(tournamentId: string, playerId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status === TournamentStatus.COMPLETED) {
+      throw new Error('Tournament is already completed');
+    }
+    const withdrawal = findWithdrawal(tournament, playerId);
+    if (!withdrawal) {
+      throw new Error('Withdrawal not found');
+    }
+    const nextRound = getNextRoundNumber(tournament);
+    if (withdrawal.fromRound < nextRound) {
+      throw new Error(`Round ${withdrawal.fromRound} has already been paired without this player; delete it first`);
+    }
+
+    tournament.withdrawals = (tournament.withdrawals || []).filter(w => refId(w.player) !== playerId);
+    await tournament.save();
+    console.log(`选手 ${playerId} 撤销退赛`);
+
+    return tournament;
+  }
+}
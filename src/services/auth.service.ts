@@ -0,0 +1,132 @@
+import jwt, { SignOptions } from 'jsonwebtoken';
+import User from '../models/user.model';
+import RefreshToken from '../models/token.model';
+import { IAuthResponse, IAuthTokens, ILoginCredentials, IRegisterData, ITokenPayload } from '../types/auth.types';
+import { IUserResponse, UserRole } from '../types/user.types';
+import {
+  generateRefreshToken,
+  getAccessTokenExpiresIn,
+  getJwtSecret,
+  getRefreshTokenDays,
+  hashToken,
+  isAdminEmail
+} from '../utils/auth.utils';
+import { pickNewUser } from '../utils/user.utils';
+
+// 登录失败时统一提示，避免泄露邮箱是否已注册
+const INVALID_CREDENTIALS = 'Invalid email or password';
+
+export class AuthService {
+  async register(data: IRegisterData): Promise<IAuthResponse> {
+    // 注册时不能自选角色、关联选手；ADMIN_EMAILS 中的邮箱注册为管理员
+    const userData = pickNewUser(data);
+    const user = new User({
+      ...userData,
+      role: isAdminEmail(userData.email) ? UserRole.ADMIN : UserRole.PLAYER
+    });
+    await user.save();
+    console.log('Registered user:', user.email);
+
+    const tokens = await this.issueTokens(user._id.toString(), user.email);
+    return { user: user.toJSON() as IUserResponse, ...tokens };
+  }
+
+  async login(credentials: ILoginCredentials): Promise<IAuthResponse> {
+    const email = (credentials.email || '').trim().toLowerCase();
+    const user = await User.findOne({ email });
+    if (!user) {
+      throw new Error(INVALID_CREDENTIALS);
+    }
+
+    const valid = await user.comparePassword(credentials.password || '');
+    if (!valid) {
+      throw new Error(INVALID_CREDENTIALS);
+    }
+    console.log('User logged in:', user.email);
+
+    const tokens = await this.issueTokens(user._id.toString(), user.email);
+    return { user: user.toJSON() as IUserResponse, ...tokens };
+  }
+
+  // 用刷新令牌换取新的访问令牌，同时轮换刷新令牌
+  async refresh(refreshToken: string): Promise<IAuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const stored = await RefreshToken.findOne({ tokenHash });
+    if (!stored) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // 已撤销的令牌被再次使用，可能已泄露：撤销该用户的所有令牌
+    if (stored.revokedAt) {
+      console.log('Revoked refresh token reused, revoking all tokens of user:', stored.user.toString());
+      await this.revokeAll(stored.user.toString());
+      throw new Error('Invalid refresh token');
+    }
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Refresh token expired');
+    }
+
+    const user = await User.findById(stored.user);
+    if (!user) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const tokens = await this.issueTokens(user._id.toString(), user.email);
+    stored.revokedAt = new Date();
+    stored.replacedBy = hashToken(tokens.refreshToken);
+    await stored.save();
+    return tokens;
+  }
+
+  // 注销：撤销传入的刷新令牌；all 为 true 时撤销该用户的所有刷新令牌
+  async logout(userId: string, refreshToken?: string, all: boolean = false): Promise<void> {
+    if (all) {
+      await this.revokeAll(userId);
+      return;
+    }
+    if (!refreshToken) {
+      throw new Error('Refresh token is required');
+    }
+
+    await RefreshToken.updateOne(
+      { tokenHash: hashToken(refreshToken), user: userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  // 修改密码：通过 save() 触发加密，并撤销所有刷新令牌，其他设备需要重新登录
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    const valid = await user.comparePassword(currentPassword || '');
+    if (!valid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    user.password = newPassword;
+    await user.save();
+    await this.revokeAll(userId);
+    console.log('Password changed:', user.email);
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await RefreshToken.updateMany(
+      { user: userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  private async issueTokens(userId: string, email: string): Promise<IAuthTokens> {
+    const payload: ITokenPayload = { id: userId, email };
+    const expiresIn = getAccessTokenExpiresIn();
+    const token = jwt.sign(payload, getJwtSecret(), { expiresIn } as SignOptions);
+
+    const refreshToken = generateRefreshToken();
+    const expiresAt = new Date(Date.now() + getRefreshTokenDays() * 24 * 60 * 60 * 1000);
+    await RefreshToken.create({ user: userId, tokenHash: hashToken(refreshToken), expiresAt });
+
+    return { token, refreshToken, expiresIn };
+  }
+}
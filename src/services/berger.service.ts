@@ -0,0 +1,85 @@
+import { Types } from 'mongoose';
+import { IBergerPairing, IBergerRound } from '../types/berger.types';
+import { compareByStrength } from '../utils/rank.utils';
+
+interface SeedablePlayer {
+  _id: Types.ObjectId;
+  rank: string;
+  rating?: number;
+}
+
+// Berger 表：n 名选手（奇数时补一个空位凑成偶数）每个循环 n-1 轮，每轮 n/2 台。
+// 表中先列出的一方执黑；最后一号每轮交替执黑执白，其余选手的执色也基本交替
+export class BergerService {
+  // 排出 Berger 序号：有 seeding（例如上一阶段的名次）时按其顺序，否则按段位/等级分从强到弱
+  seed(players: SeedablePlayer[], seeding: string[] = []): Types.ObjectId[] {
+    const order = new Map(seeding.map((id, index) => [id, index]));
+    return [...players]
+      .sort((a, b) => seeding.length > 0
+        ? (order.get(a._id.toString()) ?? seeding.length) - (order.get(b._id.toString()) ?? seeding.length)
+        : compareByStrength(a, b))
+      .map(player => player._id);
+  }
+
+  getRoundCount(playerCount: number, doubleRoundRobin: boolean = false): number {
+    if (playerCount < 2) {
+      return 0;
+    }
+    const cycleRounds = playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+    return doubleRoundRobin ? cycleRounds * 2 : cycleRounds;
+  }
+
+  // 第 roundNumber 轮（从1开始）的对阵；双循环的第二循环重复第一循环并交换黑白
+  getRound(seeding: string[], roundNumber: number, doubleRoundRobin: boolean = false): IBergerRound {
+    const total = this.getRoundCount(seeding.length, doubleRoundRobin);
+    if (roundNumber < 1 || roundNumber > total) {
+      throw new Error(`Round ${roundNumber} is not part of the schedule (${total} rounds)`);
+    }
+
+    const cycleRounds = doubleRoundRobin ? total / 2 : total;
+    const cycle = Math.ceil(roundNumber / cycleRounds);
+    const pairings = this.getCyclePairings(seeding, roundNumber - (cycle - 1) * cycleRounds);
+
+    return {
+      roundNumber,
+      cycle,
+      pairings: pairings.map(pairing => cycle % 2 === 0 && pairing.white
+        ? { ...pairing, black: pairing.white, white: pairing.black }
+        : pairing)
+    };
+  }
+
+  createSchedule(seeding: string[], doubleRoundRobin: boolean = false): IBergerRound[] {
+    const total = this.getRoundCount(seeding.length, doubleRoundRobin);
+    return Array.from({ length: total }, (_, i) => this.getRound(seeding, i + 1, doubleRoundRobin));
+  }
+
+  // 单循环第 round 轮：第1台为最后一号对 s，其余第 i 台为 s+(i-1) 对 s-(i-1)（按 n-1 取模），
+  // 其中 s = (round-1) * n/2 + 1
+  private getCyclePairings(seeding: string[], round: number): IBergerPairing[] {
+    const numbers: (string | null)[] = seeding.length % 2 === 0 ? [...seeding] : [...seeding, null];
+    const n = numbers.length;
+    const m = n - 1;
+    const wrap = (value: number) => ((((value - 1) % m) + m) % m) + 1;
+    const playerAt = (number: number) => numbers[number - 1];
+
+    const start = wrap((round - 1) * (n / 2) + 1);
+    const tables: [number, number][] = [
+      round % 2 === 1 ? [start, n] : [n, start]
+    ];
+    for (let i = 2; i <= n / 2; i++) {
+      tables.push([wrap(start + i - 1), wrap(start - i + 1)]);
+    }
+
+    return tables.map(([first, second], index) => {
+      const black = playerAt(first);
+      const white = playerAt(second);
+      // 与空位相遇的选手轮空
+      return {
+        board: index + 1,
+        black: (black ?? white)!,
+        white: black && white ? white : null
+      };
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import { BracketService } from './bracket.service';
+import { IBracket } from '../types/bracket.types';
+import { IMatch, IRound } from '../types/tournament.types';
+
+const service = new BracketService();
+
+const createPlayers = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ _id: new Types.ObjectId(), rank: `${9 - index}d` }));
+
+const findMatch = (bracket: IBracket, code: string) => bracket.matches.find(m => m.code === code)!;
+
+const losses = (bracket: IBracket, player: Types.ObjectId) =>
+  bracket.lossCounts.find(c => c.player.equals(player))!.losses;
+
+// 模拟生成一轮：安排签表中可以进行的对局
+const scheduleRound = (bracket: IBracket, roundNumber: number): IRound => ({
+  roundNumber,
+  matches: service.scheduleReadyMatches(bracket, roundNumber),
+  completed: false
+});
+
+// 模拟录入结果：写入轮次中的对局，并推进签表
+const recordWin = (bracket: IBracket, round: IRound, code: string, winner: Types.ObjectId) => {
+  const match = round.matches.find(m => m.bracketCode === code) as IMatch;
+  match.winner = winner;
+  service.recordResult(bracket, code, winner);
+};
+
+describe('BracketService', () => {
+  describe('rebuild', () => {
+    it('lets a deleted round be generated again', () => {
+      const players = createPlayers(4);
+      const bracket = service.createSingleEliminationBracket(players);
+      const round1 = scheduleRound(bracket, 1);
+      const semiFinal1 = findMatch(bracket, 'W1-1');
+      const semiFinal2 = findMatch(bracket, 'W1-2');
+      recordWin(bracket, round1, 'W1-1', semiFinal1.player1!);
+      recordWin(bracket, round1, 'W1-2', semiFinal2.player2!);
+      const round2 = scheduleRound(bracket, 2);
+      recordWin(bracket, round2, 'W2-1', findMatch(bracket, 'W2-1').player1!);
+      expect(service.isComplete(bracket)).toBe(true);
+
+      // 删除第 2 轮：决赛回到未安排状态，可以重新生成
+      service.rebuild(bracket, [round1]);
+      const final = findMatch(bracket, 'W2-1');
+      expect(final.winner).toBeNull();
+      expect(final.roundNumber).toBeUndefined();
+      expect(losses(bracket, final.player1!)).toBe(0);
+      expect(scheduleRound(bracket, 2).matches.map(m => m.bracketCode)).toEqual(['W2-1']);
+
+      // 再删除第 1 轮：签表回到开赛前
+      service.rebuild(bracket, []);
+      expect(findMatch(bracket, 'W2-1').player1).toBeNull();
+      expect(bracket.lossCounts.every(c => c.losses === 0)).toBe(true);
+      expect(scheduleRound(bracket, 1).matches.map(m => m.bracketCode)).toEqual(['W1-1', 'W1-2']);
+    });
+
+    it('keeps byes settled', () => {
+      const players = createPlayers(3);
+      const bracket = service.createSingleEliminationBracket(players);
+      const round1 = scheduleRound(bracket, 1);
+      recordWin(bracket, round1, 'W1-2', findMatch(bracket, 'W1-2').player1!);
+      scheduleRound(bracket, 2);
+
+      service.rebuild(bracket, [round1]);
+      // 1 号种子轮空直接进入决赛
+      expect(findMatch(bracket, 'W1-1').bye).toBe(true);
+      expect(findMatch(bracket, 'W2-1').player1!.equals(players[0]._id)).toBe(true);
+      expect(scheduleRound(bracket, 2).matches.map(m => m.bracketCode)).toEqual(['W2-1']);
+    });
+  });
+
+  describe('recordResult', () => {
+    it('rejects a different winner for a resolved match', () => {
+      const bracket = service.createSingleEliminationBracket(createPlayers(4));
+      const round1 = scheduleRound(bracket, 1);
+      const match = findMatch(bracket, 'W1-1');
+      recordWin(bracket, round1, 'W1-1', match.player1!);
+
+      expect(() => service.recordResult(bracket, 'W1-1', match.player1!)).not.toThrow();
+      expect(() => service.recordResult(bracket, 'W1-1', match.player2!)).toThrow('already has a different winner');
+    });
+  });
+
+  describe('correctResult', () => {
+    it('moves the new winner forward and undoes the old loss', () => {
+      const bracket = service.createDoubleEliminationBracket(createPlayers(4));
+      const round1 = scheduleRound(bracket, 1);
+      const match = findMatch(bracket, 'W1-1');
+      const [first, second] = [match.player1!, match.player2!];
+      recordWin(bracket, round1, 'W1-1', first);
+
+      const roundMatch = round1.matches.find(m => m.bracketCode === 'W1-1')!;
+      roundMatch.winner = second;
+      service.correctResult(bracket, 'W1-1', [round1]);
+
+      expect(findMatch(bracket, 'W1-1').winner!.equals(second)).toBe(true);
+      expect(findMatch(bracket, 'W2-1').player1!.equals(second)).toBe(true);
+      expect(findMatch(bracket, 'L1-1').player1!.equals(first)).toBe(true);
+      expect(losses(bracket, first)).toBe(1);
+      expect(losses(bracket, second)).toBe(0);
+    });
+
+    it('refuses once the next match is scheduled', () => {
+      const bracket = service.createSingleEliminationBracket(createPlayers(4));
+      const round1 = scheduleRound(bracket, 1);
+      recordWin(bracket, round1, 'W1-1', findMatch(bracket, 'W1-1').player1!);
+      recordWin(bracket, round1, 'W1-2', findMatch(bracket, 'W1-2').player1!);
+      scheduleRound(bracket, 2);
+
+      expect(() => service.correctResult(bracket, 'W1-1', [round1])).toThrow('next match has already been scheduled');
+    });
+  });
+});
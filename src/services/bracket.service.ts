@@ -0,0 +1,417 @@
+import { Types } from 'mongoose';
+import { IMatch, IRound } from '../types/tournament.types';
+import { MongoId, toString } from '../types/mongoose.types';
+import { BracketSide, IBracket, IBracketMatch, IBracketSlotRef } from '../types/bracket.types';
+import { compareByStrength } from '../utils/rank.utils';
+
+interface SeedablePlayer {
+  _id: Types.ObjectId;
+  rank: string;
+  rating?: number;
+}
+
+const THIRD_PLACE_CODE = '3P-1';
+const GRAND_FINAL_CODE = 'GF-1';
+const BRACKET_RESET_CODE = 'GF-2';
+
+export class BracketService {
+  // 生成单淘汰签表：按段位/等级分排种子，非2的幂人数时给高种子轮空
+  createSingleEliminationBracket(
+    players: SeedablePlayer[],
+    thirdPlaceMatch: boolean = false,
+    seeding: string[] = []
+  ): IBracket {
+    if (players.length < 2) {
+      throw new Error('Single elimination requires at least 2 players');
+    }
+
+    const { seeds, size } = this.seedPlayers(players, seeding);
+    const totalRounds = Math.log2(size);
+    const matches = this.createWinnersBracket(size);
+
+    // 三四名决赛：两场半决赛的负者进入
+    const hasThirdPlace = thirdPlaceMatch && totalRounds >= 2;
+    if (hasThirdPlace) {
+      matches.push(this.createMatch(BracketSide.THIRD_PLACE, totalRounds, 1));
+      matches
+        .filter(m => m.side === BracketSide.WINNERS && m.round === totalRounds - 1)
+        .forEach(semiFinal => {
+          semiFinal.loserTo = { code: THIRD_PLACE_CODE, slot: semiFinal.position === 1 ? 1 : 2 };
+        });
+    }
+
+    const bracket: IBracket = {
+      size,
+      seeds,
+      thirdPlaceMatch: hasThirdPlace,
+      bracketReset: false,
+      matches,
+      lossCounts: seeds.map(player => ({ player, losses: 0 }))
+    };
+
+    this.placeFirstRound(bracket);
+    this.settleByes(bracket);
+    return bracket;
+  }
+
+  // 生成双败淘汰签表：胜者组的负者落入败者组，败者组冠军与胜者组冠军争夺总冠军
+  createDoubleEliminationBracket(
+    players: SeedablePlayer[],
+    bracketReset: boolean = true,
+    seeding: string[] = []
+  ): IBracket {
+    if (players.length < 2) {
+      throw new Error('Double elimination requires at least 2 players');
+    }
+
+    const { seeds, size } = this.seedPlayers(players, seeding);
+    const winnersRounds = Math.log2(size);
+    const losersRounds = 2 * (winnersRounds - 1);
+    const matches = this.createWinnersBracket(size);
+
+    // 败者组：奇数轮由败者组选手互相淘汰，偶数轮迎接从胜者组落下的选手
+    for (let round = 1; round <= losersRounds; round++) {
+      const matchCount = size / Math.pow(2, Math.floor((round + 1) / 2) + 1);
+      for (let position = 1; position <= matchCount; position++) {
+        let winnerTo: IBracketSlotRef;
+        if (round === losersRounds) {
+          winnerTo = { code: GRAND_FINAL_CODE, slot: 2 };
+        } else if (round % 2 === 1) {
+          winnerTo = { code: this.getCode(BracketSide.LOSERS, round + 1, position), slot: 1 };
+        } else {
+          winnerTo = { code: this.getCode(BracketSide.LOSERS, round + 1, Math.ceil(position / 2)), slot: position % 2 === 1 ? 1 : 2 };
+        }
+        matches.push(this.createMatch(BracketSide.LOSERS, round, position, winnerTo));
+      }
+    }
+
+    // 胜者组负者的去向：第1轮两两进入败者组第1轮，之后进入败者组偶数轮（交替反向排列，避免过早重复对阵）
+    matches
+      .filter(m => m.side === BracketSide.WINNERS)
+      .forEach(match => {
+        if (losersRounds === 0) {
+          match.loserTo = { code: GRAND_FINAL_CODE, slot: 2 };
+        } else if (match.round === 1) {
+          match.loserTo = {
+            code: this.getCode(BracketSide.LOSERS, 1, Math.ceil(match.position / 2)),
+            slot: match.position % 2 === 1 ? 1 : 2
+          };
+        } else {
+          const matchCount = size / Math.pow(2, match.round);
+          const position = match.round % 2 === 0 ? matchCount + 1 - match.position : match.position;
+          match.loserTo = { code: this.getCode(BracketSide.LOSERS, 2 * (match.round - 1), position), slot: 2 };
+        }
+      });
+
+    const winnersFinal = matches.find(m => m.side === BracketSide.WINNERS && m.round === winnersRounds)!;
+    winnersFinal.winnerTo = { code: GRAND_FINAL_CODE, slot: 1 };
+
+    // 总决赛：胜者组冠军在 slot 1；败者组冠军获胜时进入加赛
+    const grandFinal = this.createMatch(BracketSide.GRAND_FINAL, 1, 1);
+    matches.push(grandFinal);
+    if (bracketReset) {
+      grandFinal.winnerTo = { code: BRACKET_RESET_CODE, slot: 1 };
+      grandFinal.loserTo = { code: BRACKET_RESET_CODE, slot: 2 };
+      matches.push(this.createMatch(BracketSide.GRAND_FINAL, 2, 1));
+    }
+
+    const bracket: IBracket = {
+      size,
+      seeds,
+      thirdPlaceMatch: false,
+      bracketReset,
+      matches,
+      lossCounts: seeds.map(player => ({ player, losses: 0 }))
+    };
+
+    this.placeFirstRound(bracket);
+    this.settleByes(bracket);
+    return bracket;
+  }
+
+  // 标准种子顺序，例如 8 人签：1, 8, 4, 5, 2, 7, 3, 6
+  getSeedOrder(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+      const total = order.length * 2;
+      order = order.flatMap(seed => [seed, total + 1 - seed]);
+    }
+    return order;
+  }
+
+  // 录入一场淘汰赛对局的结果，并把选手送入下一场对局
+  recordResult(bracket: IBracket, code: string, winnerId: MongoId): void {
+    const bracketMatch = this.findMatch(bracket, code);
+    if (!bracketMatch) {
+      throw new Error(`Bracket match ${code} not found`);
+    }
+
+    const winner = new Types.ObjectId(toString(winnerId));
+    // 同一结果重复写入时跳过；更改胜者请用 correctResult
+    if (this.isResolved(bracketMatch)) {
+      if (bracketMatch.winner && bracketMatch.winner.equals(winner)) {
+        return;
+      }
+      throw new Error(`Bracket match ${code} already has a different winner`);
+    }
+
+    const isPlayer = [bracketMatch.player1, bracketMatch.player2].some(p => p && p.equals(winner));
+    if (!isPlayer) {
+      throw new Error('Winner must be one of the bracket match players');
+    }
+
+    this.resolveMatch(bracket, bracketMatch, winner);
+    this.settleByes(bracket);
+  }
+
+  // 更正已录入的结果：rounds 中已是更正后的结果。下一场对局已经安排时不能再更改胜者
+  correctResult(bracket: IBracket, code: string, rounds: IRound[]): void {
+    const bracketMatch = this.findMatch(bracket, code);
+    if (!bracketMatch) {
+      throw new Error(`Bracket match ${code} not found`);
+    }
+    if (this.isNextMatchScheduled(bracket, bracketMatch)) {
+      throw new Error(`Cannot change the winner of bracket match ${code}: the next match has already been scheduled`);
+    }
+    this.rebuild(bracket, rounds);
+  }
+
+  // 按现有轮次重建签表：从种子重新排位，再依次写入每轮安排的对局和结果（用于删除轮次、更正结果）
+  rebuild(bracket: IBracket, rounds: IRound[]): void {
+    bracket.matches.forEach(match => {
+      match.player1 = null;
+      match.player2 = null;
+      match.winner = null;
+      match.loser = null;
+      match.bye = false;
+      match.roundNumber = undefined;
+    });
+    bracket.lossCounts.forEach(lossCount => {
+      lossCount.losses = 0;
+    });
+    this.placeFirstRound(bracket);
+    this.settleByes(bracket);
+
+    [...rounds]
+      .sort((a, b) => a.roundNumber - b.roundNumber)
+      .forEach(round => {
+        round.matches.forEach(match => {
+          const bracketMatch = match.bracketCode ? this.findMatch(bracket, match.bracketCode) : undefined;
+          if (bracketMatch) {
+            bracketMatch.roundNumber = round.roundNumber;
+          }
+        });
+        this.applyRoundResults(bracket, round);
+      });
+  }
+
+  // 把上一轮的结果写入签表（已录入的对局会被跳过）
+  applyRoundResults(bracket: IBracket, round: IRound): void {
+    round.matches.forEach(match => {
+      if (match.bracketCode && match.winner) {
+        this.recordResult(bracket, match.bracketCode, match.winner);
+      }
+    });
+
+    this.settleByes(bracket);
+  }
+
+  // 安排本轮可以进行的对局：双方都已确定，并且属于各组当前最早未完成的轮次
+  scheduleReadyMatches(bracket: IBracket, roundNumber: number): IMatch[] {
+    const pending = bracket.matches.filter(m => !this.isResolved(m));
+    const currentRounds = new Map<BracketSide, number>();
+    pending.forEach(m => {
+      currentRounds.set(m.side, Math.min(currentRounds.get(m.side) ?? Infinity, m.round));
+    });
+
+    return pending
+      .filter(m =>
+        m.round === currentRounds.get(m.side) &&
+        m.player1 && m.player2 &&
+        m.roundNumber == null
+      )
+      .map(m => {
+        m.roundNumber = roundNumber;
+        return {
+          player1: m.player1!,
+          player2: m.player2!,
+          winner: null,
+          result: '',
+          player1Score: 0,
+          player2Score: 0,
+          bracketCode: m.code
+        };
+      });
+  }
+
+  isComplete(bracket: IBracket): boolean {
+    return bracket.matches.every(m => this.isResolved(m));
+  }
+
+  // 有 seeding（例如上一阶段的名次）时按其顺序排种子，否则按段位/等级分
+  private seedPlayers(players: SeedablePlayer[], seeding: string[] = []): { seeds: Types.ObjectId[]; size: number } {
+    const order = new Map(seeding.map((id, index) => [id, index]));
+    const seeds = [...players]
+      .sort((a, b) => seeding.length > 0
+        ? (order.get(a._id.toString()) ?? seeding.length) - (order.get(b._id.toString()) ?? seeding.length)
+        : compareByStrength(a, b))
+      .map(player => player._id);
+    let size = 2;
+    while (size < seeds.length) {
+      size *= 2;
+    }
+    return { seeds, size };
+  }
+
+  private createWinnersBracket(size: number): IBracketMatch[] {
+    const totalRounds = Math.log2(size);
+    const matches: IBracketMatch[] = [];
+    for (let round = 1; round <= totalRounds; round++) {
+      const matchCount = size / Math.pow(2, round);
+      for (let position = 1; position <= matchCount; position++) {
+        matches.push(this.createMatch(BracketSide.WINNERS, round, position, round < totalRounds
+          ? { code: this.getCode(BracketSide.WINNERS, round + 1, Math.ceil(position / 2)), slot: position % 2 === 1 ? 1 : 2 }
+          : undefined
+        ));
+      }
+    }
+    return matches;
+  }
+
+  // 第一轮按标准种子顺序放入选手，超出人数的种子位即为轮空
+  private placeFirstRound(bracket: IBracket): void {
+    const order = this.getSeedOrder(bracket.size);
+    bracket.matches
+      .filter(m => m.side === BracketSide.WINNERS && m.round === 1)
+      .forEach(match => {
+        const seedA = order[(match.position - 1) * 2];
+        const seedB = order[(match.position - 1) * 2 + 1];
+        match.player1 = bracket.seeds[seedA - 1] || null;
+        match.player2 = bracket.seeds[seedB - 1] || null;
+      });
+  }
+
+  private createMatch(side: BracketSide, round: number, position: number, winnerTo?: IBracketSlotRef): IBracketMatch {
+    return {
+      code: this.getCode(side, round, position),
+      side,
+      round,
+      position,
+      player1: null,
+      player2: null,
+      winner: null,
+      loser: null,
+      bye: false,
+      winnerTo
+    };
+  }
+
+  private getCode(side: BracketSide, round: number, position: number): string {
+    switch (side) {
+      case BracketSide.THIRD_PLACE:
+        return THIRD_PLACE_CODE;
+      case BracketSide.GRAND_FINAL:
+        return round === 1 ? GRAND_FINAL_CODE : BRACKET_RESET_CODE;
+      case BracketSide.LOSERS:
+        return `L${round}-${position}`;
+      default:
+        return `W${round}-${position}`;
+    }
+  }
+
+  private findMatch(bracket: IBracket, code: string): IBracketMatch | undefined {
+    return bracket.matches.find(m => m.code === code);
+  }
+
+  private isResolved(match: IBracketMatch): boolean {
+    return match.winner != null || (match.bye && !match.player1 && !match.player2);
+  }
+
+  private resolveMatch(bracket: IBracket, match: IBracketMatch, winnerId: Types.ObjectId | null): void {
+    const winner = winnerId ? winnerId.toString() : null;
+    match.winner = winnerId;
+    match.loser = [match.player1, match.player2].find(p => p && p.toString() !== winner) || null;
+
+    if (match.loser) {
+      const lossCount = bracket.lossCounts.find(c => c.player.toString() === match.loser!.toString());
+      if (lossCount) {
+        lossCount.losses += 1;
+      }
+    }
+
+    // 总决赛由胜者组冠军（slot 1）获胜时比赛结束，不需要加赛
+    if (match.code === GRAND_FINAL_CODE && winner === match.player1?.toString()) {
+      return;
+    }
+
+    if (match.winnerTo && match.winner) {
+      this.placePlayer(bracket, match.winnerTo, match.winner);
+    }
+    if (match.loserTo && match.loser) {
+      this.placePlayer(bracket, match.loserTo, match.loser);
+    }
+  }
+
+  private placePlayer(bracket: IBracket, ref: IBracketSlotRef, playerId: Types.ObjectId): void {
+    const target = this.findMatch(bracket, ref.code);
+    if (!target) {
+      throw new Error(`Bracket match ${ref.code} not found`);
+    }
+    if (ref.slot === 1) {
+      target.player1 = playerId;
+    } else {
+      target.player2 = playerId;
+    }
+  }
+
+  // 胜者、负者去向的对局是否已安排进某一轮；轮空直接晋级的对局继续往后查
+  private isNextMatchScheduled(bracket: IBracket, match: IBracketMatch): boolean {
+    return [match.winnerTo, match.loserTo].some(ref => {
+      const target = ref && this.findMatch(bracket, ref.code);
+      if (!target) {
+        return false;
+      }
+      return target.roundNumber != null || (target.bye && this.isResolved(target) && this.isNextMatchScheduled(bracket, target));
+    });
+  }
+
+  // 某个位置的所有来源对局都已结束但仍然空着，说明这个位置轮空
+  private isSlotClosed(bracket: IBracket, match: IBracketMatch, slot: 1 | 2): boolean {
+    const player = slot === 1 ? match.player1 : match.player2;
+    if (player) {
+      return false;
+    }
+    const feeders = bracket.matches.filter(m =>
+      (m.winnerTo?.code === match.code && m.winnerTo.slot === slot) ||
+      (m.loserTo?.code === match.code && m.loserTo.slot === slot)
+    );
+    return feeders.every(feeder => this.isResolved(feeder));
+  }
+
+  // 处理轮空：只有一方的对局直接晋级，双方都空的对局直接结束，直到签表不再变化
+  private settleByes(bracket: IBracket): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const match of bracket.matches) {
+        if (this.isResolved(match)) {
+          continue;
+        }
+        const slot1Closed = this.isSlotClosed(bracket, match, 1);
+        const slot2Closed = this.isSlotClosed(bracket, match, 2);
+        if (slot1Closed && slot2Closed) {
+          match.bye = true;
+          changed = true;
+        } else if (slot1Closed && match.player2) {
+          match.bye = true;
+          this.resolveMatch(bracket, match, match.player2);
+          changed = true;
+        } else if (slot2Closed && match.player1) {
+          match.bye = true;
+          this.resolveMatch(bracket, match, match.player1);
+          changed = true;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { Types } from 'mongoose';
+import { IMatch, StoneColor } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { getMatchColors, getMatchOutcome, isByeMatch } from '../utils/result.utils';
+import { rankToValue } from '../utils/rank.utils';
+
+export interface IColorAllocation {
+  black: string;
+  white: string;
+  nigiri: boolean;   // 双方颜色记录完全相同，猜先决定
+}
+
+// 执黑/执白分配：让选手在整场比赛中尽量黑白均衡
+export class ColorService {
+  // 每位选手按轮次顺序的执色记录，只统计真正下过的对局
+  getColorHistory(rounds: any[]): Map<string, StoneColor[]> {
+    const history = new Map<string, StoneColor[]>();
+    const push = (id: string | null, color: StoneColor) => {
+      if (!id) return;
+      if (!history.has(id)) history.set(id, []);
+      history.get(id)!.push(color);
+    };
+
+    for (const round of rounds) {
+      for (const match of round.matches) {
+        if (isByeMatch(match) || getMatchOutcome(match)?.played === false) {
+          continue;
+        }
+        const { black, white } = getMatchColors(match);
+        push(black, StoneColor.BLACK);
+        push(white, StoneColor.WHITE);
+      }
+    }
+
+    return history;
+  }
+
+  // 让子棋由弱方执黑；分先时执黑较少的一方执黑，
+  // 次数相同时从最近一轮往前找双方颜色不同的一轮，交替执色，仍无法区分则猜先
+  allocate(
+    a: string,
+    b: string,
+    history: Map<string, StoneColor[]>,
+    options: { handicap?: number; rankA?: string; rankB?: string } = {}
+  ): IColorAllocation {
+    if (options.handicap && options.handicap > 0) {
+      const strengthA = rankToValue(options.rankA || '') ?? 0;
+      const strengthB = rankToValue(options.rankB || '') ?? 0;
+      return strengthA <= strengthB
+        ? { black: a, white: b, nigiri: false }
+        : { black: b, white: a, nigiri: false };
+    }
+
+    const colorsA = history.get(a) || [];
+    const colorsB = history.get(b) || [];
+    const balance = (colors: StoneColor[]) =>
+      colors.filter(c => c === StoneColor.BLACK).length - colors.filter(c => c === StoneColor.WHITE).length;
+
+    const balanceA = balance(colorsA);
+    const balanceB = balance(colorsB);
+    if (balanceA !== balanceB) {
+      return balanceA < balanceB
+        ? { black: a, white: b, nigiri: false }
+        : { black: b, white: a, nigiri: false };
+    }
+
+    for (let i = 1; i <= Math.min(colorsA.length, colorsB.length); i++) {
+      const lastA = colorsA[colorsA.length - i];
+      const lastB = colorsB[colorsB.length - i];
+      if (lastA !== lastB) {
+        return lastA === StoneColor.WHITE
+          ? { black: a, white: b, nigiri: false }
+          : { black: b, white: a, nigiri: false };
+      }
+    }
+
+    return Math.random() < 0.5
+      ? { black: a, white: b, nigiri: true }
+      : { black: b, white: a, nigiri: true };
+  }
+
+  // 为新生成的对局确定黑白，执黑方放在 player1
+  assignColors(rounds: any[], matches: IMatch[], players: { _id: any; rank?: string }[]): void {
+    const history = this.getColorHistory(rounds);
+    const ranks = new Map(players.map(p => [refId(p)!, p.rank]));
+
+    for (const match of matches) {
+      if (isByeMatch(match)) {
+        continue;
+      }
+      // 已经排定黑白的分先对局（循环赛 Berger 表）保持不变
+      if (match.black && match.white && !match.handicap) {
+        continue;
+      }
+      const player1Id = refId(match.player1)!;
+      const player2Id = refId(match.player2)!;
+      const allocation = this.allocate(player1Id, player2Id, history, {
+        handicap: match.handicap,
+        rankA: ranks.get(player1Id),
+        rankB: ranks.get(player2Id)
+      });
+
+      if (allocation.black !== player1Id) {
+        [match.player1, match.player2] = [match.player2, match.player1];
+        [match.player1Score, match.player2Score] = [match.player2Score, match.player1Score];
+      }
+      match.black = new Types.ObjectId(allocation.black);
+      match.white = new Types.ObjectId(allocation.white);
+      match.nigiri = allocation.nigiri;
+    }
+  }
+}
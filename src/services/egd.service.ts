@@ -0,0 +1,117 @@
+import Tournament from '../models/tournament.model';
+import { HandicapPolicy, StoneColor, TieBreaker } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { getByePoints } from '../utils/bye.utils';
+import {
+  alignColumns,
+  formatEgdClub,
+  formatEgdGame,
+  formatEgdName,
+  formatEgdNoGame,
+  formatEgdScore
+} from '../utils/egd.utils';
+import { toOpenGothaDate } from '../utils/opengotha.utils';
+import { WIN_POINTS, getMatchColors, getMatchOutcome, isByeMatch } from '../utils/result.utils';
+import { TournamentService } from './tournament.service';
+
+export interface IEgdOptions {
+  country?: string;          // 比赛所在国家代码，选手没有国家代码时也用它
+  city?: string;
+  tournamentClass?: string;  // EGD 比赛级别 A-D
+}
+
+// EGD 成绩表（.h9）：提交欧洲围棋数据库计算等级分
+export class EgdService {
+  private tournamentService = new TournamentService();
+
+  async exportReport(tournamentId: string, options: IEgdOptions = {}): Promise<{ name: string; report: string }> {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank rating club country');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.rounds.length === 0) {
+      throw new Error('The tournament has no rounds to report');
+    }
+    const unfinished = tournament.rounds.find(round => round.matches.some(match => !getMatchOutcome(match)));
+    if (unfinished) {
+      throw new Error(`Round ${unfinished.roundNumber} still has games without a result`);
+    }
+    const country = options.country?.trim().toUpperCase();
+    if (country && !/^[A-Z]{2}$/.test(country)) {
+      throw new Error('Country must be a two-letter code');
+    }
+
+    const standings = this.tournamentService.getSortedPlayers(tournament);
+    const places = new Map(standings.map((standing, index) => [refId(standing.player)!, index + 1]));
+    const missingCountry = standings.find(standing => !standing.player.country && !country);
+    if (missingCountry) {
+      throw new Error(`Player ${missingCountry.player.name} has no country; set it on the player or pass a tournament country`);
+    }
+
+    // 排名分列：直接对局不是分数，不输出
+    const tieBreakers = this.tournamentService.getTieBreakers(tournament)
+      .filter((tieBreaker): tieBreaker is Exclude<TieBreaker, TieBreaker.DIRECT> => tieBreaker !== TieBreaker.DIRECT);
+    const rounds = [...tournament.rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+
+    const rows = standings.map((standing, index) => {
+      const playerId = refId(standing.player)!;
+      return [
+        String(index + 1),
+        formatEgdName(standing.player.name),
+        standing.player.rank,
+        standing.player.country || country!,
+        formatEgdClub(standing.player.club),
+        ...tieBreakers.map(tieBreaker => formatEgdScore(
+          tieBreaker === TieBreaker.WINS
+            ? standing.tieBreakers[tieBreaker]
+            : standing.tieBreakers[tieBreaker] / WIN_POINTS
+        )),
+        ...rounds.map(round => this.formatRound(tournament, round, playerId, places))
+      ];
+    });
+    const header = ['Pl', 'Name', 'Rk', 'Co', 'Club', ...tieBreakers, ...rounds.map(round => String(round.roundNumber))];
+    const [headerLine, ...lines] = alignColumns([header, ...rows]);
+
+    const handicap = tournament.handicapPolicy === HandicapPolicy.NONE ? 'h0' : `h${tournament.maxHandicap ?? 9}`;
+    const report = [
+      ...(options.tournamentClass ? [`; CL[${options.tournamentClass.toUpperCase()}]`] : []),
+      `; EV[${tournament.name}]`,
+      ...(country ? [`; PC[${[country, options.city].filter(Boolean).join(', ')}]`] : []),
+      `; DT[${toOpenGothaDate(tournament.startDate)},${toOpenGothaDate(tournament.endDate)}]`,
+      `; HA[${handicap}]`,
+      `; KM[${tournament.komi ?? 7.5}]`,
+      ';',
+      `; ${headerLine}`,
+      ...lines.map(line => `  ${line}`),
+      ''
+    ].join('\n');
+
+    console.log(`导出 EGD 成绩表: ${tournament.name}, ${standings.length} 名选手, ${rounds.length} 轮`);
+    return { name: tournament.name, report };
+  }
+
+  // 一位选手某一轮的成绩
+  private formatRound(tournament: any, round: any, playerId: string, places: Map<string, number>): string {
+    const match = round.matches.find((m: any) => refId(m.player1) === playerId || refId(m.player2) === playerId);
+    if (!match) {
+      const absence = (round.absences || []).find((a: any) => refId(a.player) === playerId);
+      return formatEgdNoGame(absence?.points || 0);
+    }
+    if (isByeMatch(match)) {
+      return formatEgdNoGame(getByePoints(tournament));
+    }
+
+    const outcome = getMatchOutcome(match)!;
+    const isPlayer1 = refId(match.player1) === playerId;
+    const opponentId = refId(isPlayer1 ? match.player2 : match.player1)!;
+    const color = getMatchColors(match).black === playerId ? StoneColor.BLACK : StoneColor.WHITE;
+    return formatEgdGame(
+      places.get(opponentId) || 0,
+      isPlayer1 ? outcome.player1 : outcome.player2,
+      outcome.played,
+      color,
+      match.handicap || 0
+    );
+  }
+}
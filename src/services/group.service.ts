@@ -0,0 +1,106 @@
+import Tournament from '../models/tournament.model';
+import { GroupMethod, IGroupAssignment } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import {
+  assignGroups,
+  getPlayerGroup,
+  isGrouped,
+  resolveGroupAssignments,
+  validateGroupSettings
+} from '../utils/group.utils';
+import { StandingsService } from './standings.service';
+
+export interface IGroupSettingsInput {
+  groupMethod: GroupMethod | null;
+  groups?: string[];
+  groupRankBands?: string[];
+  assignments?: IGroupAssignment[];  // 手动调整的分组，未列出的选手按分组方式补入
+}
+
+// 分组赛：循环赛、瑞士制的选手分成几组，各组并行比赛、分别排名
+export class GroupService {
+  private standingsService = new StandingsService();
+
+  // 各组的选手和排名；开赛前为按当前设置的预览
+  async getGroups(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank rating club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (!isGrouped(tournament)) {
+      throw new Error('This tournament is not split into groups');
+    }
+
+    const published = tournament.rounds.length > 0;
+    if (!published) {
+      tournament.groupAssignments = resolveGroupAssignments(tournament.players as any[], tournament);
+    }
+    const standings = this.standingsService.getGroupStandings(tournament);
+
+    return {
+      published,
+      groupMethod: tournament.groupMethod,
+      groupRankBands: tournament.groupRankBands || [],
+      groups: tournament.groups!.map(group => ({
+        name: group,
+        players: tournament.players.filter(player => getPlayerGroup(tournament, refId(player)!) === group),
+        standings: standings.get(group) || []
+      }))
+    };
+  }
+
+  // 修改分组设置并重新分组，只能在第一轮编排前进行；groupMethod 为空时取消分组
+  async setGroups(tournamentId: string, input: IGroupSettingsInput) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank rating club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.rounds.length > 0) {
+      throw new Error('Groups cannot be changed after round 1 has been generated');
+    }
+
+    if (!input.groupMethod) {
+      tournament.groupMethod = null;
+      tournament.groupAssignments = [];
+      await tournament.save();
+      console.log('取消分组:', tournamentId);
+      return { published: false, groupMethod: null, groupRankBands: [], groups: [] };
+    }
+
+    const settings = {
+      format: tournament.format,
+      groupMethod: input.groupMethod,
+      groups: input.groups || tournament.groups || [],
+      groupRankBands: input.groupRankBands || tournament.groupRankBands || []
+    };
+    validateGroupSettings(settings);
+
+    const players = tournament.players as any[];
+    let assignments: IGroupAssignment[];
+    if (input.assignments && input.assignments.length > 0) {
+      const playerIds = new Set(players.map(player => refId(player)!));
+      const invalid = input.assignments.find(assignment =>
+        !playerIds.has(refId(assignment.player)!) || !settings.groups.includes(assignment.group)
+      );
+      if (invalid) {
+        throw new Error(`Invalid assignment of player ${refId(invalid.player)} to group ${invalid.group}`);
+      }
+      assignments = resolveGroupAssignments(players, { ...settings, groupAssignments: input.assignments });
+    } else {
+      assignments = assignGroups(players, settings);
+    }
+
+    tournament.groupMethod = settings.groupMethod;
+    tournament.groups = settings.groups;
+    tournament.groupRankBands = settings.groupRankBands;
+    tournament.groupAssignments = assignments;
+    await tournament.save();
+    console.log('分组:', settings.groups.map(group =>
+      `${group} ${assignments.filter(assignment => assignment.group === group).length} 人`
+    ));
+
+    return this.getGroups(tournamentId);
+  }
+}
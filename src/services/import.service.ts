@@ -0,0 +1,263 @@
+import Player from '../models/player.model';
+import {
+  IPlayerImportOptions,
+  IPlayerImportResult,
+  IPlayerImportRow,
+  PlayerImportAction,
+  PlayerImportField
+} from '../types/player.types';
+import { refId } from '../types/mongoose.types';
+import { parseDelimited, resolveColumns } from '../utils/csv.utils';
+import { COUNTRY_PATTERN, PLAYER_ID_FIELDS, PLAYER_ID_LABELS, PLAYER_ID_PATTERNS } from '../utils/player.utils';
+import { RANK_PATTERN } from '../utils/rank.utils';
+import { RegistrationService } from './registration.service';
+
+// 表头别名（小写、去掉空格和标点后比较）
+const COLUMN_ALIASES: Record<PlayerImportField, string[]> = {
+  name: ['name', 'fullname', 'player', 'playername', '姓名', '选手'],
+  firstName: ['firstname', 'givenname', 'first', '名'],
+  lastName: ['lastname', 'surname', 'familyname', 'last', '姓'],
+  rank: ['rank', 'grade', 'level', 'strength', '段位'],
+  club: ['club', 'clubname', '俱乐部'],
+  country: ['country', 'countrycode', 'nation', '国家'],
+  agaId: ['agaid', 'aga', 'agamemberid', 'agano'],
+  egdPin: ['egdpin', 'egfpin', 'egd', 'egf', 'pin'],
+  cwaId: ['cwaid', 'cwa', '中国围协']
+};
+
+// 已有选手缺少时可以补充的字段
+const FILLABLE_FIELDS = ['club', 'country', ...PLAYER_ID_FIELDS] as const;
+
+// "3 Dan"、"5kyu"、"2D" 统一写成 3d、5k、2d
+const normalizeRank = (rank: string): string =>
+  rank.toLowerCase().replace(/\s+/g, '').replace(/dan$/, 'd').replace(/kyu$/, 'k');
+
+// 从表格批量导入选手：识别列、校验数据、与已有选手匹配，可以同时加入比赛
+export class ImportService {
+  private registrationService = new RegistrationService();
+
+  async importPlayers(text: string, options: IPlayerImportOptions = {}, tournamentId?: string): Promise<IPlayerImportResult> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error('The file is empty');
+    }
+    if (options.delimiter && options.delimiter.length !== 1) {
+      throw new Error('Delimiter must be a single character');
+    }
+
+    const [header, ...records] = parseDelimited(text, options.delimiter || undefined);
+    const columns = resolveColumns(header, COLUMN_ALIASES, options.mapping);
+    if (columns.name === undefined && columns.lastName === undefined) {
+      throw new Error('No name column found; map one with mapping.name');
+    }
+    if (columns.rank === undefined) {
+      throw new Error('No rank column found; map one with mapping.rank');
+    }
+
+    // 表头是第 1 行，跳过空行
+    const rows = records
+      .map((record, index) => ({ record, line: index + 2 }))
+      .filter(({ record }) => record.some(cell => cell !== ''))
+      .map(({ record, line }) => this.readRow(record, columns, line));
+    if (rows.length === 0) {
+      throw new Error('The file has no player rows');
+    }
+    this.checkDuplicates(rows);
+
+    // 导入到比赛时先检查报名是否开放，避免建好选手后才失败
+    const tournament = tournamentId ? await this.registrationService.loadOpenRegistration(tournamentId) : null;
+    const confirmed = tournament ? new Set(tournament.players.map(player => refId(player))) : null;
+    const existing = await this.findExisting(rows);
+    this.matchRows(rows, existing, confirmed);
+
+    const valid = rows.filter(row => row.action !== PlayerImportAction.ERROR);
+    const skipped = rows.length - valid.length;
+    const toAdd = valid.filter(row => !row.inTournament);
+    if (tournament) {
+      this.registrationService.checkPlaces(tournament, toAdd.length);
+    }
+
+    const result: IPlayerImportResult = {
+      dryRun: !!options.dryRun,
+      headers: header,
+      columns: Object.fromEntries(
+        Object.entries(columns).map(([field, index]) => [field, header[index as number]])
+      ),
+      rows,
+      created: valid.filter(row => row.action === PlayerImportAction.CREATE).length,
+      matched: valid.filter(row => row.action === PlayerImportAction.MATCH).length,
+      added: tournament ? toAdd.length : 0,
+      skipped
+    };
+    if (options.dryRun) {
+      return result;
+    }
+    if (skipped > 0 && !options.skipInvalid) {
+      throw new Error(`${skipped} rows have errors; fix them or import with skipInvalid`);
+    }
+
+    for (const row of valid) {
+      if (row.action === PlayerImportAction.CREATE) {
+        const player = await Player.create({
+          name: row.name,
+          rank: row.rank,
+          club: row.club,
+          country: row.country,
+          agaId: row.agaId,
+          egdPin: row.egdPin,
+          cwaId: row.cwaId,
+          rating: 1500,
+          wins: 0,
+          losses: 0,
+          draws: 0
+        });
+        row.player = player._id.toString();
+      } else if (row.updates.length > 0) {
+        const player = existing.find(item => item._id.toString() === row.player)!;
+        row.updates.forEach(field => player.set(field, row[field as typeof FILLABLE_FIELDS[number]]));
+        await player.save();
+      }
+    }
+    if (tournament) {
+      const added = await this.registrationService.addPlayers(tournamentId!, valid.map(row => row.player!));
+      result.added = added.length;
+    }
+
+    console.log('批量导入选手:', { tournamentId, created: result.created, matched: result.matched, added: result.added, skipped });
+    return result;
+  }
+
+  // 读取并校验一行
+  private readRow(record: string[], columns: Partial<Record<PlayerImportField, number>>, line: number): IPlayerImportRow {
+    const cell = (field: PlayerImportField) => {
+      const index = columns[field];
+      return index === undefined ? '' : record[index] || '';
+    };
+    const name = cell('name') || [cell('firstName'), cell('lastName')].filter(Boolean).join(' ');
+    const row: IPlayerImportRow = {
+      line,
+      name,
+      rank: normalizeRank(cell('rank')),
+      club: cell('club') || undefined,
+      country: cell('country').toUpperCase() || undefined,
+      action: PlayerImportAction.CREATE,
+      updates: [],
+      errors: [],
+      warnings: []
+    };
+    PLAYER_ID_FIELDS.forEach(field => {
+      row[field] = cell(field) || undefined;
+    });
+
+    if (name.length < 2 || name.length > 50) {
+      row.errors.push('Player name must be between 2 and 50 characters');
+    }
+    if (!RANK_PATTERN.test(row.rank)) {
+      row.errors.push(`Invalid rank "${cell('rank')}" (e.g., "1d" or "30k")`);
+    }
+    if (row.club && row.club.length > 50) {
+      row.errors.push('Club must be at most 50 characters');
+    }
+    if (row.country && !COUNTRY_PATTERN.test(row.country)) {
+      row.errors.push(`Invalid country "${row.country}"; use a two-letter code`);
+    }
+    PLAYER_ID_FIELDS.forEach(field => {
+      if (row[field] && !PLAYER_ID_PATTERNS[field].test(row[field]!)) {
+        row.errors.push(`Invalid ${PLAYER_ID_LABELS[field]} "${row[field]}"`);
+      }
+    });
+    return row;
+  }
+
+  // 同一文件中重复的姓名或会员号
+  private checkDuplicates(rows: IPlayerImportRow[]) {
+    const seen = new Map<string, number>();
+    for (const row of rows) {
+      const keys = [
+        { key: `name:${row.name.toLowerCase()}`, label: 'name' },
+        ...PLAYER_ID_FIELDS
+          .filter(field => row[field])
+          .map(field => ({ key: `${field}:${row[field]!.toLowerCase()}`, label: PLAYER_ID_LABELS[field] }))
+      ];
+      for (const { key, label } of keys) {
+        const line = seen.get(key);
+        if (line !== undefined) {
+          row.errors.push(`Same ${label} as row ${line}`);
+        } else {
+          seen.set(key, row.line);
+        }
+      }
+    }
+    rows.filter(row => row.errors.length > 0).forEach(row => {
+      row.action = PlayerImportAction.ERROR;
+    });
+  }
+
+  // 按会员号或姓名（不区分大小写）查找已有选手
+  private async findExisting(rows: IPlayerImportRow[]) {
+    const valid = rows.filter(row => row.action !== PlayerImportAction.ERROR);
+    const conditions: Record<string, unknown>[] = [{ name: { $in: valid.map(row => row.name) } }];
+    PLAYER_ID_FIELDS.forEach(field => {
+      const values = valid.map(row => row[field]).filter(Boolean);
+      if (values.length > 0) {
+        conditions.push({ [field]: { $in: values } });
+      }
+    });
+    return Player.find({ $or: conditions }).collation({ locale: 'en', strength: 2 });
+  }
+
+  // 会员号优先，其次按姓名匹配；会员号与已有选手冲突的行不导入
+  private matchRows(rows: IPlayerImportRow[], existing: any[], confirmed: Set<string | null> | null) {
+    const same = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+    const matchedRows = new Map<string, number>();
+
+    for (const row of rows.filter(item => item.action !== PlayerImportAction.ERROR)) {
+      const idMatches = PLAYER_ID_FIELDS
+        .map(field => ({ field, player: existing.find(player => same(player[field], row[field])) }))
+        .filter(match => match.player);
+      const players = Array.from(new Set(idMatches.map(match => match.player)));
+      if (players.length > 1) {
+        row.errors.push(`IDs belong to different players: ${players.map(player => player.name).join(', ')}`);
+      }
+
+      const player = idMatches[0]?.player || existing.find(item => same(item.name, row.name));
+      if (player && row.errors.length === 0) {
+        row.matchedBy = idMatches[0]?.field || 'name';
+        PLAYER_ID_FIELDS.forEach(field => {
+          if (player[field] && row[field] && !same(player[field], row[field])) {
+            row.errors.push(`${player.name} already has ${PLAYER_ID_LABELS[field]} ${player[field]}`);
+          }
+        });
+        if (!same(player.name, row.name)) {
+          row.warnings.push(`Matched ${player.name} by ${PLAYER_ID_LABELS[row.matchedBy as keyof typeof PLAYER_ID_LABELS]}`);
+        }
+        if (player.rank !== row.rank) {
+          row.warnings.push(`Rank stays ${player.rank}; change it on the player`);
+        }
+        if (player.country && row.country && player.country !== row.country) {
+          row.warnings.push(`Country stays ${player.country}`);
+        }
+        row.updates = FILLABLE_FIELDS.filter(field => !player[field] && row[field]);
+
+        const playerId = player._id.toString();
+        const line = matchedRows.get(playerId);
+        if (line !== undefined) {
+          row.errors.push(`Same player as row ${line}`);
+        }
+        matchedRows.set(playerId, row.line);
+        row.player = playerId;
+        row.action = PlayerImportAction.MATCH;
+        if (confirmed) {
+          row.inTournament = confirmed.has(playerId);
+        }
+      }
+
+      if (row.errors.length > 0) {
+        row.action = PlayerImportAction.ERROR;
+        row.updates = [];
+        delete row.inTournament;
+      } else if (!player && confirmed) {
+        row.inTournament = false;
+      }
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { Types } from 'mongoose';
+import Tournament from '../models/tournament.model';
+import Player from '../models/player.model';
+import {
+  AbsenceReason,
+  AttendanceStatus,
+  HandicapPolicy,
+  IAttendance,
+  IMatch,
+  IRound,
+  IRoundAbsence,
+  ITournament,
+  RegistrationStatus,
+  StoneColor,
+  TournamentFormat,
+  TournamentStatus
+} from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { findAttendance, findWithdrawal } from '../utils/attendance.utils';
+import { createByeMatch, getByePoints } from '../utils/bye.utils';
+import { rankToValue, valueToRank } from '../utils/rank.utils';
+import { WIN_POINTS, getMatchColors, hasResult, isByeMatch, resolveMatchResult } from '../utils/result.utils';
+import {
+  OPENGOTHA_MM_ZERO,
+  PARTICIPATION_LENGTH,
+  fromOpenGothaRank,
+  fromOpenGothaResult,
+  fromPlacementCriteria,
+  parseXmlElements,
+  splitPlayerName,
+  toOpenGothaDate,
+  toOpenGothaRank,
+  toOpenGothaResult,
+  toPlacementCriteria,
+  toPlayerKey,
+  xmlElement
+} from '../utils/opengotha.utils';
+import { RegistrationService } from './registration.service';
+import { TournamentService } from './tournament.service';
+
+// OpenGotha XML 导入导出，方便比赛中途在两个软件之间切换
+export class OpenGothaService {
+  private tournamentService = new TournamentService();
+  private registrationService = new RegistrationService();
+
+  // 导出选手、段位、各轮对阵、结果和 McMahon 参数
+  async exportTournament(tournamentId: string): Promise<{ name: string; xml: string }> {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('players', 'name rank rating club country agaId egdPin');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const players = tournament.players as any[];
+    const roundCount = Math.max(tournament.roundCount || 0, tournament.rounds.length, 1);
+    const keys = this.buildPlayerKeys(players);
+    const overrides = new Map(
+      (tournament.mcmahonOverrides || []).map(override => [refId(override.player)!, override.initialScore])
+    );
+
+    const playerElements = players.map(player => {
+      const playerId = refId(player)!;
+      const { name, firstName } = keys.names.get(playerId)!;
+      const override = overrides.get(playerId);
+      return xmlElement('Player', {
+        agaExpirationDate: '',
+        agaId: player.agaId || '',
+        club: player.club || '',
+        country: player.country || '',
+        egfPin: player.egdPin || '',
+        ffgLicence: '',
+        ffgLicenceStatus: '',
+        firstName,
+        grade: '',
+        name,
+        participating: this.getParticipation(tournament, playerId),
+        rank: toOpenGothaRank(player.rank),
+        rating: player.rating ?? 0,
+        ratingOrigin: '',
+        registeringStatus: 'FIN',
+        // 手动调整的 McMahon 分，记为相对段位计算值的修正
+        smmsCorrection: override !== undefined
+          ? override - this.tournamentService.calculateMcMahonInitialScore(player.rank, tournament)
+          : 0
+      });
+    });
+
+    const gameElements: string[] = [];
+    const byeElements: string[] = [];
+    for (const round of tournament.rounds) {
+      let table = 0;
+      for (const match of round.matches) {
+        if (isByeMatch(match)) {
+          byeElements.push(xmlElement('ByePlayer', {
+            player: keys.keys.get(refId(match.player1)!),
+            roundNumber: round.roundNumber
+          }));
+          continue;
+        }
+        const colors = getMatchColors(match);
+        table++;
+        gameElements.push(xmlElement('Game', {
+          blackPlayer: keys.keys.get(colors.black!),
+          handicap: match.handicap || 0,
+          knownColor: 'true',
+          result: toOpenGothaResult(match.resultType, match.winningColor ?? null),
+          roundNumber: round.roundNumber,
+          tableNumber: table,
+          whitePlayer: keys.keys.get(colors.white!)
+        }));
+      }
+    }
+
+    // McMahon 上限和下限：下限比上限低 initialScore - minimumScore 个段位
+    const upperBar = tournament.upperBar ?? 0;
+    const floor = upperBar - ((tournament.initialScore ?? 0) - (tournament.minimumScore ?? tournament.initialScore ?? 0));
+    const criteria = toPlacementCriteria(tournament.format, this.tournamentService.getTieBreakers(tournament));
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<Tournament dataVersion="201" fullVersionNumber="3.51">',
+      '<Players>',
+      ...playerElements,
+      '</Players>',
+      '<Games>',
+      ...gameElements,
+      '</Games>',
+      '<ByePlayers>',
+      ...byeElements,
+      '</ByePlayers>',
+      '<TournamentParameterSet>',
+      xmlElement('GeneralParameterSet', {
+        beginDate: toOpenGothaDate(tournament.startDate),
+        director: '',
+        endDate: toOpenGothaDate(tournament.endDate),
+        genMMBar: toOpenGothaRank(valueToRank(upperBar)),
+        genMMFloor: toOpenGothaRank(valueToRank(floor)),
+        genMMS2ValueAbsent: tournament.skipRoundPoints ?? 0,
+        genMMS2ValueBye: getByePoints(tournament),
+        genMMZero: OPENGOTHA_MM_ZERO,
+        genNBW2ValueAbsent: tournament.skipRoundPoints ?? 0,
+        genNBW2ValueBye: getByePoints(tournament),
+        komi: tournament.komi ?? 7.5,
+        location: '',
+        name: tournament.name,
+        numberOfRounds: roundCount,
+        shortName: tournament.name.replace(/\s/g, '').slice(0, 20),
+        size: 19
+      }),
+      xmlElement('HandicapParameterSet', {
+        hdBasedOnMMS: 'false',
+        hdCeiling: tournament.handicapPolicy === HandicapPolicy.NONE ? 0 : tournament.maxHandicap ?? 9,
+        hdCorrection: tournament.handicapPolicy === HandicapPolicy.REDUCED ? tournament.handicapReduction || 0 : 0,
+        hdNoHdRankThreshold: '9D'
+      }),
+      '<PlacementParameterSet>',
+      '<PlacementCriteria>',
+      ...criteria.map((name, index) => xmlElement('PlacementCriterion', { name, number: index + 1 })),
+      '</PlacementCriteria>',
+      '</PlacementParameterSet>',
+      '</TournamentParameterSet>',
+      '</Tournament>',
+      ''
+    ].join('\n');
+
+    console.log(`导出 OpenGotha: ${tournament.name}, ${players.length} 名选手, ${gameElements.length} 盘对局`);
+    return { name: tournament.name, xml };
+  }
+
+  // 导入 OpenGotha 文件，新建比赛；同名同段位的选手沿用已有资料，其余新建
+  async importTournament(xml: string, createdBy?: string) {
+    if (typeof xml !== 'string' || !/<Tournament[\s>]/.test(xml)) {
+      throw new Error('Not an OpenGotha tournament file');
+    }
+
+    const general = parseXmlElements(xml, 'GeneralParameterSet')[0] || {};
+    const handicap = parseXmlElements(xml, 'HandicapParameterSet')[0] || {};
+    const playerElements = parseXmlElements(xml, 'Player');
+    const gameElements = parseXmlElements(xml, 'Game');
+    const byeElements = parseXmlElements(xml, 'ByePlayer').filter(element => element.player);
+    const criteria = parseXmlElements(xml, 'PlacementCriterion')
+      .sort((a, b) => Number(a.number) - Number(b.number))
+      .map(element => element.name);
+    if (playerElements.length < 2) {
+      throw new Error('The file must contain at least 2 players');
+    }
+
+    // 写入数据库之前先检查段位和对局中的选手
+    const keys = new Set<string>();
+    for (const element of playerElements) {
+      const name = [element.firstName, element.name].filter(Boolean).join(' ').trim();
+      if (!name) {
+        throw new Error('Every player needs a name');
+      }
+      if (!fromOpenGothaRank(element.rank)) {
+        throw new Error(`Invalid rank ${element.rank} for player ${name}`);
+      }
+      keys.add(toPlayerKey(element.name || '', element.firstName || ''));
+    }
+    for (const element of [...gameElements.flatMap(game => [game.blackPlayer, game.whitePlayer]), ...byeElements.map(bye => bye.player)]) {
+      if (!keys.has(toPlayerKey(element || '', ''))) {
+        throw new Error(`A game refers to unknown player ${element}`);
+      }
+    }
+
+    // 选手：对局中用姓 + 名指代
+    const playersByKey = new Map<string, { id: string; rank: string; participating: string; smmsCorrection: number }>();
+    for (const element of playerElements) {
+      const name = [element.firstName, element.name].filter(Boolean).join(' ').trim();
+      const rank = fromOpenGothaRank(element.rank)!;
+      // 有会员编号时按编号找已有选手，否则按姓名和段位
+      const federationIds = [
+        ...(element.egfPin ? [{ egdPin: element.egfPin }] : []),
+        ...(element.agaId ? [{ agaId: element.agaId }] : [])
+      ];
+      const player = (federationIds.length > 0 && await Player.findOne({ $or: federationIds }))
+        || await Player.findOne({ name, rank })
+        || await Player.create({
+          name,
+          rank,
+          rating: element.rating ? Number(element.rating) : 1500,
+          club: element.club || undefined,
+          country: element.country || undefined,
+          agaId: element.agaId || undefined,
+          egdPin: element.egfPin || undefined,
+          wins: 0,
+          losses: 0,
+          draws: 0
+        });
+      playersByKey.set(toPlayerKey(element.name || '', element.firstName || ''), {
+        id: player._id.toString(),
+        rank,
+        participating: element.participating || '',
+        smmsCorrection: Number(element.smmsCorrection) || 0
+      });
+    }
+    const playerIdOf = (key: string) => playersByKey.get(toPlayerKey(key, ''))!.id;
+
+    const { format, tieBreakers } = fromPlacementCriteria(criteria);
+    const roundCount = Math.max(Number(general.numberOfRounds) || 0, ...gameElements.map(game => Number(game.roundNumber)), 1);
+    const absentPoints = Number(general.genMMS2ValueAbsent ?? general.genNBW2ValueAbsent) || 0;
+    const parseDate = (value: string | undefined) => (value && !isNaN(Date.parse(value)) ? new Date(value) : new Date());
+
+    // McMahon：上限及以上从 initialScore 起算，下限及以下为 0
+    const upperBar = rankToValue(fromOpenGothaRank(general.genMMBar) || '') ?? 0;
+    const floor = Math.min(rankToValue(fromOpenGothaRank(general.genMMFloor) || '') ?? upperBar, upperBar);
+
+    const ceiling = Number(handicap.hdCeiling ?? 9);
+    const correction = Number(handicap.hdCorrection) || 0;
+    const data: Partial<ITournament> = {
+      name: general.name || general.shortName || 'OpenGotha tournament',
+      format,
+      startDate: parseDate(general.beginDate),
+      endDate: parseDate(general.endDate || general.beginDate),
+      description: general.location || undefined,
+      status: TournamentStatus.UPCOMING,
+      players: [],
+      rounds: [],
+      ...(createdBy && { createdBy: new Types.ObjectId(createdBy) }),
+      ...(tieBreakers.length > 0 && { tieBreakers }),
+      roundCount,
+      komi: general.komi !== undefined ? Number(general.komi) : 7.5,
+      handicapPolicy: ceiling === 0 ? HandicapPolicy.NONE : correction > 0 ? HandicapPolicy.REDUCED : HandicapPolicy.FULL,
+      handicapReduction: correction,
+      maxHandicap: Math.min(Math.max(ceiling, 0), 9),
+      skipRoundPoints: absentPoints,
+      ...(general.genMMS2ValueBye !== undefined && { byePoints: Number(general.genMMS2ValueBye) }),
+      ...(format === TournamentFormat.MCMAHON && {
+        upperBar,
+        initialScore: upperBar - floor,
+        minimumScore: 0
+      })
+    };
+    const tournament = await this.tournamentService.createTournament(data);
+    const tournamentId = tournament._id.toString();
+
+    const playerIds = Array.from(playersByKey.values()).map(player => player.id);
+    tournament.players = playerIds.map(id => new Types.ObjectId(id));
+    tournament.registrations = playerIds.map(id => ({
+      player: id,
+      status: RegistrationStatus.CONFIRMED,
+      registeredAt: new Date(),
+      updatedAt: new Date()
+    }));
+
+    // McMahon 初始分按段位计算，加上 OpenGotha 的手动修正
+    if (format === TournamentFormat.MCMAHON) {
+      tournament.mcmahonOverrides = [];
+      tournament.playerScores = [];
+      for (const player of playersByKey.values()) {
+        const calculated = this.tournamentService.calculateMcMahonInitialScore(player.rank, tournament);
+        const initialScore = Math.min(Math.max(calculated + player.smmsCorrection, 0), upperBar - floor);
+        if (player.smmsCorrection !== 0) {
+          tournament.mcmahonOverrides.push({ player: new Types.ObjectId(player.id), initialScore });
+        }
+        tournament.playerScores.push({
+          player: new Types.ObjectId(player.id),
+          currentScore: initialScore * WIN_POINTS,
+          initialScore: initialScore * WIN_POINTS,
+          wins: 0,
+          losses: 0,
+          draws: 0,
+          opponents: []
+        });
+      }
+    }
+
+    // 各轮对阵：OpenGotha 中没有对局的选手按请假处理
+    const playedRounds = Array.from(new Set([
+      ...gameElements.map(game => Number(game.roundNumber)),
+      ...byeElements.map(bye => Number(bye.roundNumber))
+    ])).filter(roundNumber => roundNumber >= 1).sort((a, b) => a - b);
+    const scores = new Map((tournament.playerScores || []).map(score => [refId(score.player)!, score]));
+    const rounds: IRound[] = [];
+    for (const roundNumber of playedRounds) {
+      const matches: IMatch[] = [];
+      const games = gameElements
+        .filter(game => Number(game.roundNumber) === roundNumber)
+        .sort((a, b) => Number(a.tableNumber) - Number(b.tableNumber));
+      for (const game of games) {
+        const black = playerIdOf(game.blackPlayer);
+        const white = playerIdOf(game.whitePlayer);
+        const stones = Number(game.handicap) || 0;
+        const match: IMatch = {
+          player1: new Types.ObjectId(black),
+          player2: new Types.ObjectId(white),
+          black: new Types.ObjectId(black),
+          white: new Types.ObjectId(white),
+          nigiri: false,
+          handicap: stones,
+          komi: stones > 0 ? tournament.handicapKomi ?? 0.5 : tournament.komi,
+          winner: null,
+          result: '',
+          player1Score: scores.get(black)?.currentScore ?? 0,
+          player2Score: scores.get(white)?.currentScore ?? 0
+        };
+        const result = fromOpenGothaResult(game.result);
+        if (result) {
+          const resolved = resolveMatchResult(match, {
+            resultType: result.resultType,
+            ...(result.winner && { winnerId: result.winner === StoneColor.BLACK ? black : white })
+          });
+          match.winner = resolved.winnerId ? new Types.ObjectId(resolved.winnerId) : null;
+          match.resultType = resolved.resultType;
+          match.winningColor = resolved.winningColor;
+          match.margin = resolved.margin;
+          match.reason = resolved.reason;
+          match.result = resolved.result;
+        }
+        matches.push(match);
+      }
+      for (const bye of byeElements.filter(element => Number(element.roundNumber) === roundNumber)) {
+        const playerId = playerIdOf(bye.player);
+        matches.push(createByeMatch(playerId, scores.get(playerId)?.currentScore ?? 0));
+      }
+
+      const paired = new Set(matches.flatMap(match => [refId(match.player1)!, refId(match.player2)!]));
+      const absences: IRoundAbsence[] = playerIds
+        .filter(id => !paired.has(id))
+        .map(id => ({ player: new Types.ObjectId(id), reason: AbsenceReason.SKIPPED, points: absentPoints }));
+      const round: IRound = { roundNumber, matches, completed: matches.every(match => hasResult(match)), absences };
+
+      if (format === TournamentFormat.MCMAHON) {
+        this.tournamentService.applyRoundPoints(tournament, tournament.playerScores!, round, 1);
+        matches.forEach(match => this.tournamentService.applyMatchScores(tournament.playerScores!, match, 1));
+      }
+      rounds.push(round);
+    }
+    tournament.rounds = rounds;
+
+    // 之后各轮不参加的选手记为缺席
+    const lastRound = playedRounds.length > 0 ? playedRounds[playedRounds.length - 1] : 0;
+    const attendance: IAttendance[] = [];
+    for (const player of playersByKey.values()) {
+      for (let roundNumber = lastRound + 1; roundNumber <= roundCount; roundNumber++) {
+        if (player.participating[roundNumber - 1] === '0') {
+          attendance.push({ roundNumber, player: new Types.ObjectId(player.id), status: AttendanceStatus.ABSENT, points: null, updatedAt: new Date() });
+        }
+      }
+    }
+    tournament.attendance = attendance;
+    tournament.status = rounds.length > 0 ? TournamentStatus.ONGOING : TournamentStatus.UPCOMING;
+
+    await tournament.save();
+    await this.registrationService.syncPlayerTournaments(playerIds, tournamentId, true);
+    console.log(`导入 OpenGotha: ${tournament.name}, ${playerIds.length} 名选手, ${rounds.length} 轮`);
+
+    return Tournament.findById(tournamentId).populate('players', 'name rank rating club');
+  }
+
+  // 姓 + 名必须唯一，重名时在名后加序号
+  private buildPlayerKeys(players: any[]) {
+    const keys = new Map<string, string>();
+    const names = new Map<string, { name: string; firstName: string }>();
+    const used = new Set<string>();
+    for (const player of players) {
+      const { name, firstName } = splitPlayerName(player.name);
+      let uniqueFirstName = firstName;
+      for (let suffix = 2; used.has(toPlayerKey(name, uniqueFirstName)); suffix++) {
+        uniqueFirstName = `${firstName}${suffix}`;
+      }
+      used.add(toPlayerKey(name, uniqueFirstName));
+      keys.set(refId(player)!, toPlayerKey(name, uniqueFirstName));
+      names.set(refId(player)!, { name, firstName: uniqueFirstName });
+    }
+    return { keys, names };
+  }
+
+  // 每轮一位：缺席、请假或已退赛为 0
+  private getParticipation(tournament: any, playerId: string): string {
+    const rounds = new Map((tournament.rounds || []).map((round: any) => [round.roundNumber, round]));
+    return Array.from({ length: PARTICIPATION_LENGTH }, (_, index) => {
+      const roundNumber = index + 1;
+      const round: any = rounds.get(roundNumber);
+      const absent = round
+        ? (round.absences || []).some((absence: any) => refId(absence.player) === playerId)
+        : findAttendance(tournament, playerId, roundNumber)?.status === AttendanceStatus.ABSENT
+          || Boolean(findWithdrawal(tournament, playerId, roundNumber));
+      return absent ? '0' : '1';
+    }).join('');
+  }
+}
@@ -0,0 +1,72 @@
+import { MaxWeightPairingEngine } from './pairing.service';
+import { IPairing, IPairingPlayer } from '../types/pairing.types';
+
+const createPlayer = (id: string, score: number, opponents: string[] = [], extra: Partial<IPairingPlayer> = {}): IPairingPlayer => ({
+  id,
+  score,
+  opponents,
+  colorBalance: 0,
+  hadBye: false,
+  byeScore: score,
+  ...extra
+});
+
+const pairKeys = (pairings: IPairing[]) =>
+  pairings.map(p => p.player2 ? [p.player1, p.player2].sort().join('-') : `${p.player1}-bye`).sort();
+
+const hasRematch = (players: IPairingPlayer[], pairings: IPairing[]) => {
+  const opponents = new Map(players.map(p => [p.id, p.opponents]));
+  return pairings.some(p => p.player2 && opponents.get(p.player1)!.includes(p.player2));
+};
+
+describe('MaxWeightPairingEngine', () => {
+  const engine = new MaxWeightPairingEngine();
+
+  it('avoids the rematch that greedy top-down pairing would force', () => {
+    // 从高分往下贪心配对会先配 A-B，剩下的 C-D 已经下过
+    const players = [
+      createPlayer('A', 3, ['C']),
+      createPlayer('B', 3),
+      createPlayer('C', 2, ['A', 'D']),
+      createPlayer('D', 2, ['C'])
+    ];
+    const pairings = engine.pair(players);
+    expect(hasRematch(players, pairings)).toBe(false);
+    expect(pairKeys(pairings)).toEqual(['A-D', 'B-C']);
+  });
+
+  it('never forces a rematch when a rematch-free pairing exists', () => {
+    // 6 人各已下过 3 局，仍存在不重复的配对
+    const history: Record<string, string[]> = {
+      A: ['B', 'C', 'D'],
+      B: ['A', 'C', 'E'],
+      C: ['A', 'B', 'F'],
+      D: ['A', 'E', 'F'],
+      E: ['B', 'D', 'F'],
+      F: ['C', 'D', 'E']
+    };
+    const players = Object.entries(history).map(([id, opponents], index) => createPlayer(id, 6 - index, opponents));
+    const pairings = engine.pair(players);
+    expect(pairings).toHaveLength(3);
+    expect(hasRematch(players, pairings)).toBe(false);
+  });
+
+  it('pairs by score when there is no history', () => {
+    const players = [createPlayer('A', 4), createPlayer('B', 4), createPlayer('C', 1), createPlayer('D', 1)];
+    const pairings = engine.pair(players);
+    expect(pairKeys(pairings)).toEqual(['A-B', 'C-D']);
+    expect(pairings[0]).toEqual({ player1: 'A', player2: 'B' });
+  });
+
+  it('gives the bye to the lowest player who has not had one', () => {
+    const players = [
+      createPlayer('A', 2),
+      createPlayer('B', 1),
+      createPlayer('C', 0, [], { hadBye: true })
+    ];
+    const pairings = engine.pair(players);
+    expect(pairings).toHaveLength(2);
+    expect(pairings[1]).toEqual({ player1: 'B', player2: null });
+    expect(engine.pair(players, { repeatByes: true })[1]).toEqual({ player1: 'C', player2: null });
+  });
+});
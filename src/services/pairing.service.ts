@@ -0,0 +1,100 @@
+import { IPairing, IPairingEngine, IPairingOptions, IPairingPlayer, IPairingWeights } from '../types/pairing.types';
+import { maxWeightMatching, WeightedEdge } from '../utils/blossom';
+
+export const DEFAULT_PAIRING_WEIGHTS: IPairingWeights = {
+  scoreDifference: 1000,
+  rematch: 1000000000,
+  colorBalance: 100,
+  sameClub: 500
+};
+
+// 基于最大权完美匹配的配对引擎：一次性考虑整轮所有选手，
+// 只要存在不重复对阵的配对方案，就不会出现重复对阵
+export class MaxWeightPairingEngine implements IPairingEngine {
+  private weights: IPairingWeights;
+
+  constructor(weights: Partial<IPairingWeights> = {}) {
+    this.weights = { ...DEFAULT_PAIRING_WEIGHTS, ...weights };
+  }
+
+  pair(players: IPairingPlayer[], options: IPairingOptions = {}): IPairing[] {
+    if (players.length === 0) {
+      return [];
+    }
+    if (players.length === 1) {
+      return [{ player1: players[0].id, player2: null }];
+    }
+
+    // 奇数人数时加入一个虚拟的轮空选手，由匹配结果决定谁轮空
+    const byeIndex = players.length % 2 === 1 ? players.length : -1;
+    const minByeScore = Math.min(...players.map(p => p.byeScore));
+
+    const edges: WeightedEdge[] = [];
+    for (let i = 0; i < players.length; i++) {
+      for (let j = i + 1; j < players.length; j++) {
+        edges.push([i, j, -this.getPairCost(players[i], players[j])]);
+      }
+      if (byeIndex !== -1) {
+        edges.push([i, byeIndex, -this.getByeCost(players[i], minByeScore, options)]);
+      }
+    }
+
+    const mate = maxWeightMatching(edges, true);
+
+    const pairings: IPairing[] = [];
+    const byePlayers: IPairingPlayer[] = [];
+    players.forEach((player, i) => {
+      const opponentIndex = mate[i];
+      if (opponentIndex === byeIndex) {
+        byePlayers.push(player);
+      } else if (opponentIndex > i) {
+        pairings.push(this.orderPair(player, players[opponentIndex]));
+      }
+    });
+
+    // 高分对局排在前面
+    const scores = new Map(players.map(p => [p.id, p.score]));
+    pairings.sort((a, b) =>
+      Math.max(scores.get(b.player1)!, scores.get(b.player2!)!) -
+      Math.max(scores.get(a.player1)!, scores.get(a.player2!)!)
+    );
+    byePlayers.forEach(player => pairings.push({ player1: player.id, player2: null }));
+
+    return pairings;
+  }
+
+  private getPairCost(a: IPairingPlayer, b: IPairingPlayer): number {
+    const scoreDiff = a.score - b.score;
+    let cost = Math.round(this.weights.scoreDifference * scoreDiff * scoreDiff);
+
+    if (a.opponents.includes(b.id) || b.opponents.includes(a.id)) {
+      cost += this.weights.rematch;
+    }
+    if (a.club && b.club && a.club.trim().toLowerCase() === b.club.trim().toLowerCase()) {
+      cost += this.weights.sameClub;
+    }
+    // 双方都偏向同一种颜色时，其中一方只能继续拿同色
+    if (Math.sign(a.colorBalance) !== 0 && Math.sign(a.colorBalance) === Math.sign(b.colorBalance)) {
+      cost += this.weights.colorBalance * Math.min(Math.abs(a.colorBalance), Math.abs(b.colorBalance));
+    }
+
+    return cost;
+  }
+
+  // 轮空优先给 byeScore 最低的选手；不允许重复轮空时，尽量避开已经轮空过的选手
+  private getByeCost(player: IPairingPlayer, minByeScore: number, options: IPairingOptions): number {
+    const scoreDiff = player.byeScore - minByeScore;
+    let cost = Math.round(this.weights.scoreDifference * scoreDiff * scoreDiff);
+    if (player.hadBye && !options.repeatByes) {
+      cost += this.weights.rematch;
+    }
+    return cost;
+  }
+
+  // 积分高的一方为 player1，黑白由 ColorService 另行分配
+  private orderPair(a: IPairingPlayer, b: IPairingPlayer): IPairing {
+    return a.score >= b.score
+      ? { player1: a.id, player2: b.id }
+      : { player1: b.id, player2: a.id };
+  }
+}
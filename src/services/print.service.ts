@@ -0,0 +1,259 @@
+import Tournament from '../models/tournament.model';
+import { IPrintContent, IPrintTable, PrintDocument, PrintFormat } from '../types/print.types';
+import { AbsenceReason, StoneColor, TieBreaker, TournamentFormat } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { formatEgdGame } from '../utils/egd.utils';
+import { renderPrintHtml, renderPrintPdf } from '../utils/print.utils';
+import { formatResultNotation, getMatchColors, getMatchOutcome, hasResult, isByeMatch } from '../utils/result.utils';
+import { TournamentService } from './tournament.service';
+
+const ABSENCE_LABELS: Record<AbsenceReason, string> = {
+  [AbsenceReason.SKIPPED]: 'not playing',
+  [AbsenceReason.WITHDRAWN]: 'withdrawn'
+};
+
+// 比赛当天打印的对阵表、成绩单和交叉表，内容全部来自比赛记录
+export class PrintService {
+  private tournamentService = new TournamentService();
+
+  async printRound(
+    tournamentId: string,
+    roundNumber: number,
+    document: PrintDocument,
+    format: PrintFormat
+  ): Promise<{ name: string; contentType: string; body: string | Buffer }> {
+    if (!Object.values(PrintDocument).includes(document)) {
+      throw new Error(`Unknown document ${document}; use ${Object.values(PrintDocument).join(', ')}`);
+    }
+    if (!Object.values(PrintFormat).includes(format)) {
+      throw new Error(`Unknown format ${format}; use ${Object.values(PrintFormat).join(' or ')}`);
+    }
+    const tournament = await Tournament.findById(tournamentId).populate('players', 'name rank club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    const round = tournament.rounds.find(item => item.roundNumber === roundNumber);
+    if (!round) {
+      throw new Error(`Round ${roundNumber} not found`);
+    }
+
+    const content = document === PrintDocument.PAIRINGS
+      ? this.getPairings(tournament, round)
+      : document === PrintDocument.SLIPS
+        ? this.getSlips(tournament, round)
+        : this.getWallChart(tournament, roundNumber);
+
+    console.log(`打印 ${tournament.name} 第 ${roundNumber} 轮 ${document} (${format})`);
+    const name = `${tournament.name} round ${roundNumber} ${document}`;
+    return format === PrintFormat.PDF
+      ? { name: `${name}.pdf`, contentType: 'application/pdf', body: renderPrintPdf(content) }
+      : { name: `${name}.html`, contentType: 'text/html; charset=utf-8', body: renderPrintHtml(content) };
+  }
+
+  // 对阵表：按台次排列，分组赛每组一张表；后面附按姓名排序的索引，方便选手找到自己的台次
+  private getPairings(tournament: any, round: any): IPrintContent {
+    const players = this.getPlayerMap(tournament);
+    const index: { name: string; rank: string; table: string; color: string }[] = [];
+    const tables = new Map<string, IPrintTable>();
+    const byes: string[] = [];
+
+    this.getTableMatches(round).forEach(({ match, table }) => {
+      if (isByeMatch(match)) {
+        const player = players.get(refId(match.player1)!);
+        byes.push(player?.name || 'Unknown');
+        index.push({ name: player?.name || 'Unknown', rank: player?.rank || '', table: 'Bye', color: '' });
+        return;
+      }
+      const colors = getMatchColors(match);
+      const black = colors.black!;
+      const white = colors.white!;
+      const scoreOf = (id: string) => String(refId(match.player1) === id ? match.player1Score ?? '' : match.player2Score ?? '');
+      const blackPlayer = players.get(black);
+      const whitePlayer = players.get(white);
+      const group = match.group || '';
+      if (!tables.has(group)) {
+        tables.set(group, {
+          ...(group && { heading: `Group ${group}` }),
+          columns: [
+            { label: 'Table', width: 5, align: 'center' },
+            { label: 'Black', width: 28 },
+            { label: 'Rank', width: 6, align: 'center' },
+            { label: 'Score', width: 6, align: 'right' },
+            { label: 'White', width: 28 },
+            { label: 'Rank', width: 6, align: 'center' },
+            { label: 'Score', width: 6, align: 'right' },
+            { label: 'Hcp', width: 5, align: 'center' },
+            { label: 'Komi', width: 5, align: 'center' },
+            { label: 'Result', width: 10, align: 'center' }
+          ],
+          rows: []
+        });
+      }
+      tables.get(group)!.rows.push([
+        String(table),
+        blackPlayer?.name || 'Unknown',
+        blackPlayer?.rank || '',
+        scoreOf(black),
+        whitePlayer?.name || 'Unknown',
+        whitePlayer?.rank || '',
+        scoreOf(white),
+        String(match.handicap || 0),
+        String(match.komi ?? tournament.komi ?? ''),
+        hasResult(match) ? this.formatResult(match) : ''
+      ]);
+      index.push({ name: blackPlayer?.name || 'Unknown', rank: blackPlayer?.rank || '', table: String(table), color: 'Black' });
+      index.push({ name: whitePlayer?.name || 'Unknown', rank: whitePlayer?.rank || '', table: String(table), color: 'White' });
+    });
+
+    const absences = (round.absences || []).map((absence: any) => {
+      const player = players.get(refId(absence.player)!);
+      index.push({ name: player?.name || 'Unknown', rank: player?.rank || '', table: '-', color: '' });
+      return `${player?.name || 'Unknown'} (${ABSENCE_LABELS[absence.reason as AbsenceReason] || absence.reason})`;
+    });
+
+    return {
+      title: tournament.name,
+      subtitle: `Round ${round.roundNumber} - Pairings`,
+      landscape: false,
+      tables: [
+        ...tables.values(),
+        {
+          heading: 'Players',
+          columns: [
+            { label: 'Name', width: 40 },
+            { label: 'Rank', width: 8, align: 'center' },
+            { label: 'Table', width: 8, align: 'center' },
+            { label: 'Color', width: 10, align: 'center' }
+          ],
+          rows: index
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(entry => [entry.name, entry.rank, entry.table, entry.color])
+        }
+      ],
+      notes: [
+        ...(byes.length > 0 ? [`Bye: ${byes.join(', ')}`] : []),
+        ...(absences.length > 0 ? [`Not paired: ${absences.join(', ')}`] : [])
+      ],
+      slips: []
+    };
+  }
+
+  // 成绩单：每台一张，双方确认结果后签字
+  private getSlips(tournament: any, round: any): IPrintContent {
+    const players = this.getPlayerMap(tournament);
+    const slips = this.getTableMatches(round)
+      .filter(({ match }) => !isByeMatch(match))
+      .map(({ match, table }) => {
+        const colors = getMatchColors(match);
+        const black = colors.black!;
+        const white = colors.white!;
+        const handicap = match.handicap || 0;
+        const komi = match.komi ?? tournament.komi;
+        return {
+          title: `${tournament.name} - Round ${round.roundNumber} - Table ${table}`,
+          players: [
+            { color: 'Black', name: players.get(black)?.name || 'Unknown', rank: players.get(black)?.rank || '' },
+            { color: 'White', name: players.get(white)?.name || 'Unknown', rank: players.get(white)?.rank || '' }
+          ],
+          details: [
+            handicap > 0 ? `Handicap ${handicap}` : 'Even game',
+            ...(komi !== undefined && komi !== null ? [`komi ${komi}`] : []),
+            ...(match.group ? [`group ${match.group}`] : [])
+          ].join(', ')
+        };
+      });
+    if (slips.length === 0) {
+      throw new Error(`Round ${round.roundNumber} has no games to play`);
+    }
+
+    return {
+      title: tournament.name,
+      subtitle: `Round ${round.roundNumber} - Result slips`,
+      landscape: false,
+      tables: [],
+      notes: [],
+      slips
+    };
+  }
+
+  // 交叉表：截至本轮的排名，每轮写对手名次、胜负、执色和让子，如 12+/w3
+  private getWallChart(tournament: any, roundNumber: number): IPrintContent {
+    const rounds = [...tournament.rounds]
+      .filter((round: any) => round.roundNumber <= roundNumber)
+      .sort((a: any, b: any) => a.roundNumber - b.roundNumber);
+    const standings = this.tournamentService.getSortedPlayers({ ...tournament.toObject(), rounds });
+    const places = new Map(standings.map((standing, index) => [refId(standing.player)!, index + 1]));
+    // 主分列按赛制命名，直接对局不是分数，不单独列出
+    const scoreLabel = tournament.format === TournamentFormat.MCMAHON ? 'MMS' : 'Pts';
+    const tieBreakers = this.tournamentService.getTieBreakers(tournament)
+      .filter((tieBreaker): tieBreaker is Exclude<TieBreaker, TieBreaker.DIRECT | TieBreaker.MMS> =>
+        tieBreaker !== TieBreaker.DIRECT && tieBreaker !== TieBreaker.MMS);
+
+    return {
+      title: tournament.name,
+      subtitle: `Standings after round ${roundNumber}`,
+      landscape: true,
+      tables: [{
+        columns: [
+          { label: 'Pl', width: 4, align: 'right' },
+          { label: 'Name', width: 22 },
+          { label: 'Rank', width: 5, align: 'center' },
+          { label: 'Club', width: 8 },
+          ...rounds.map((round: any) => ({ label: String(round.roundNumber), width: 7, align: 'center' as const })),
+          { label: scoreLabel, width: 5, align: 'right' },
+          ...tieBreakers.map(tieBreaker => ({ label: tieBreaker, width: 6, align: 'right' as const }))
+        ],
+        rows: standings.map((standing, index) => {
+          const playerId = refId(standing.player)!;
+          return [
+            String(index + 1),
+            standing.player.name,
+            standing.player.rank,
+            standing.player.club || '',
+            ...rounds.map((round: any) => this.formatChartCell(round, playerId, places)),
+            String(standing.tieBreakers[TieBreaker.MMS]),
+            ...tieBreakers.map(tieBreaker => String(standing.tieBreakers[tieBreaker]))
+          ];
+        })
+      }],
+      notes: ['12+/w3: won against place 12 with white, 3 handicap stones; ! marks a game not played; ? a missing result'],
+      slips: []
+    };
+  }
+
+  // 一位选手某一轮在交叉表中的内容
+  private formatChartCell(round: any, playerId: string, places: Map<string, number>): string {
+    const match = round.matches.find((m: any) => refId(m.player1) === playerId || refId(m.player2) === playerId);
+    if (!match) {
+      return (round.absences || []).some((a: any) => refId(a.player) === playerId) ? '-' : '';
+    }
+    if (isByeMatch(match)) {
+      return 'Bye';
+    }
+    const isPlayer1 = refId(match.player1) === playerId;
+    const opponentPlace = places.get(refId(isPlayer1 ? match.player2 : match.player1)!) || 0;
+    const outcome = getMatchOutcome(match);
+    if (!outcome) {
+      return `${opponentPlace}?`;
+    }
+    const color = getMatchColors(match).black === playerId ? StoneColor.BLACK : StoneColor.WHITE;
+    return formatEgdGame(opponentPlace, isPlayer1 ? outcome.player1 : outcome.player2, outcome.played, color, match.handicap || 0);
+  }
+
+  // 已录入的结果，优先用记录的记法
+  private formatResult(match: any): string {
+    return match.result
+      || formatResultNotation(match.resultType, match.winningColor ?? null, match.margin ?? null, match.reason ?? null)
+      || match.resultType;
+  }
+
+  // 台次按本轮对局顺序编号，轮空不占台次
+  private getTableMatches(round: any): { match: any; table: number }[] {
+    let table = 0;
+    return round.matches.map((match: any) => ({ match, table: isByeMatch(match) ? 0 : ++table }));
+  }
+
+  private getPlayerMap(tournament: any): Map<string, { name: string; rank: string }> {
+    return new Map(tournament.players.map((player: any) => [refId(player)!, player]));
+  }
+}
@@ -0,0 +1,423 @@
+import Tournament from '../models/tournament.model';
+import Player from '../models/player.model';
+import { IRegistration, RegistrationStatus, TournamentFormat, TournamentStatus } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { getNextRoundNumber } from '../utils/attendance.utils';
+import { isTeamEvent } from '../utils/team.utils';
+import { UserService } from './user.service';
+import { TournamentService } from './tournament.service';
+
+// 仍占用或等待名额的报名状态
+const ACTIVE_STATUSES = [RegistrationStatus.PENDING, RegistrationStatus.CONFIRMED, RegistrationStatus.WAITLISTED];
+
+export interface IRegistrationEntry {
+  player: any;
+  status: RegistrationStatus;
+  registeredAt: Date | null;
+  updatedAt: Date | null;
+  waitlistPosition: number | null;
+}
+
+// 报名流程：审核、名额上限、候补和退出。tournament.players 只包含已确认参赛的选手
+export class RegistrationService {
+  private userService = new UserService();
+  private tournamentService = new TournamentService();
+
+  // 裁判长直接添加选手，确认参赛
+  async addPlayer(tournamentId: string, playerId: string) {
+    const tournament = await this.loadOpenRegistration(tournamentId);
+    const player = await Player.findById(playerId);
+    if (!player) {
+      throw new Error('Player not found');
+    }
+    if (this.isConfirmed(tournament, playerId)) {
+      throw new Error('Player already in tournament');
+    }
+    if (this.isFull(tournament)) {
+      throw new Error('Tournament is full');
+    }
+
+    this.confirm(tournament, playerId);
+    await tournament.save();
+    await this.syncPlayerTournaments([playerId], tournamentId, true);
+
+    return this.getPopulatedTournament(tournamentId);
+  }
+
+  // 批量添加选手（导入名单），确认参赛；已在比赛中的选手跳过，名额不够时全部不添加
+  async addPlayers(tournamentId: string, playerIds: string[]) {
+    const tournament = await this.loadOpenRegistration(tournamentId);
+    const added = Array.from(new Set(playerIds)).filter(playerId => !this.isConfirmed(tournament, playerId));
+    this.checkPlaces(tournament, added.length);
+
+    added.forEach(playerId => this.confirm(tournament, playerId));
+    await tournament.save();
+    await this.syncPlayerTournaments(added, tournamentId, true);
+    console.log('批量添加选手:', { tournamentId, players: added.length });
+
+    return added;
+  }
+
+  // 比赛开始后补报名（瑞士制、McMahon）：缺席的轮次按 entryPoints 计分，
+  // 未指定时每个缺席轮次补给 tournament.lateEntryPoints 分
+  async addLateEntry(tournamentId: string, playerId: string, entryPoints?: number) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status !== TournamentStatus.ONGOING) {
+      throw new Error('Late entry is only possible while the tournament is ongoing');
+    }
+    if (isTeamEvent(tournament)) {
+      throw new Error('Players enter a team tournament through their team roster');
+    }
+    if (tournament.format !== TournamentFormat.SWISS && tournament.format !== TournamentFormat.MCMAHON) {
+      throw new Error('Late entry is only supported for Swiss and McMahon tournaments');
+    }
+
+    const player = await Player.findById(playerId);
+    if (!player) {
+      throw new Error('Player not found');
+    }
+    if (this.isConfirmed(tournament, playerId)) {
+      throw new Error('Player already in tournament');
+    }
+    if (this.isFull(tournament)) {
+      throw new Error('Tournament is full');
+    }
+
+    const joinedRound = getNextRoundNumber(tournament);
+    const missedRounds = joinedRound - 1;
+    if (tournament.roundCount && missedRounds >= tournament.roundCount) {
+      throw new Error('All rounds have already been paired');
+    }
+    const points = entryPoints ?? missedRounds * (tournament.lateEntryPoints ?? 1);
+
+    tournament.registrations = tournament.registrations || [];
+    this.confirm(tournament, playerId);
+    tournament.lateEntries = tournament.lateEntries || [];
+    tournament.lateEntries.push({ player: player._id, joinedRound, entryPoints: points });
+
+    // McMahon：按段位（或手动调整）确定初始分，再加上补给的分数
+    if (tournament.format === TournamentFormat.MCMAHON) {
+      const initialScore = this.tournamentService.getMcMahonStartScore(player, tournament);
+      tournament.playerScores = tournament.playerScores || [];
+      tournament.playerScores.push({
+        player: player._id,
+        currentScore: initialScore + points,
+        initialScore,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        opponents: []
+      });
+    }
+
+    await tournament.save();
+    await this.syncPlayerTournaments([playerId], tournamentId, true);
+    console.log('Late entry:', { tournamentId, player: player.name, joinedRound, entryPoints: points });
+
+    return this.getPopulatedTournament(tournamentId);
+  }
+
+  // 已登录用户用关联的选手资料报名：需要审核时进入待审核，名额已满时进入候补
+  async registerSelf(tournamentId: string, userId: string) {
+    const player = await this.userService.getLinkedPlayer(userId);
+    if (!player) {
+      throw new Error('Link a player profile to your account before registering');
+    }
+    const playerId = player._id.toString();
+    const tournament = await this.loadOpenRegistration(tournamentId);
+
+    const registration = this.findRegistration(tournament, playerId);
+    if (this.isConfirmed(tournament, playerId) || (registration && ACTIVE_STATUSES.includes(registration.status))) {
+      throw new Error('Player is already registered');
+    }
+    if (registration?.status === RegistrationStatus.REJECTED) {
+      throw new Error('Registration was rejected by the tournament director');
+    }
+
+    let status: RegistrationStatus;
+    if (tournament.requireApproval) {
+      status = RegistrationStatus.PENDING;
+    } else if (this.isFull(tournament)) {
+      status = RegistrationStatus.WAITLISTED;
+    } else {
+      status = RegistrationStatus.CONFIRMED;
+    }
+
+    // 退出后重新报名按新的报名时间排队，不保留原来的候补位置
+    if (registration) {
+      registration.registeredAt = new Date();
+    }
+    if (status === RegistrationStatus.CONFIRMED) {
+      this.confirm(tournament, playerId);
+    } else {
+      this.setStatus(tournament, playerId, status);
+    }
+    await tournament.save();
+    if (status === RegistrationStatus.CONFIRMED) {
+      await this.syncPlayerTournaments([playerId], tournamentId, true);
+    }
+    console.log('Self registration:', { tournamentId, playerId, status });
+
+    return { status, tournament: await this.getPopulatedTournament(tournamentId) };
+  }
+
+  // 审核通过：有名额则确认参赛，待审核的选手在名额已满时转为候补
+  async approve(tournamentId: string, playerId: string) {
+    const tournament = await this.loadUpcoming(tournamentId);
+    const registration = this.findRegistration(tournament, playerId);
+    if (!registration || (registration.status !== RegistrationStatus.PENDING
+      && registration.status !== RegistrationStatus.WAITLISTED)) {
+      throw new Error('Only pending or waitlisted registrations can be approved');
+    }
+
+    let status = RegistrationStatus.CONFIRMED;
+    if (this.isFull(tournament)) {
+      if (registration.status === RegistrationStatus.WAITLISTED) {
+        throw new Error('Tournament is full');
+      }
+      status = RegistrationStatus.WAITLISTED;
+    }
+
+    if (status === RegistrationStatus.CONFIRMED) {
+      this.confirm(tournament, playerId);
+    } else {
+      this.setStatus(tournament, playerId, status);
+    }
+    await tournament.save();
+    if (status === RegistrationStatus.CONFIRMED) {
+      await this.syncPlayerTournaments([playerId], tournamentId, true);
+    }
+
+    return this.getRegistrations(tournamentId);
+  }
+
+  async reject(tournamentId: string, playerId: string) {
+    const tournament = await this.loadUpcoming(tournamentId);
+    const registration = this.findRegistration(tournament, playerId);
+    if (!registration || (registration.status !== RegistrationStatus.PENDING
+      && registration.status !== RegistrationStatus.WAITLISTED)) {
+      throw new Error('Only pending or waitlisted registrations can be rejected');
+    }
+
+    this.setStatus(tournament, playerId, RegistrationStatus.REJECTED);
+    await tournament.save();
+    return this.getRegistrations(tournamentId);
+  }
+
+  // 退出报名；已确认的选手退出后自动递补候补第一位
+  async withdraw(tournamentId: string, playerId: string) {
+    const tournament = await this.loadUpcoming(tournamentId);
+    const registration = this.findRegistration(tournament, playerId);
+    const confirmed = this.isConfirmed(tournament, playerId);
+    if (!confirmed && (!registration || !ACTIVE_STATUSES.includes(registration.status))) {
+      throw new Error('Player is not registered');
+    }
+
+    if (confirmed) {
+      tournament.players = tournament.players.filter(id => refId(id) !== playerId);
+      tournament.mcmahonOverrides = (tournament.mcmahonOverrides || [])
+        .filter(override => refId(override.player) !== playerId);
+    }
+    this.setStatus(tournament, playerId, RegistrationStatus.WITHDRAWN);
+    const promoted = this.promote(tournament);
+    await tournament.save();
+
+    if (confirmed) {
+      await this.syncPlayerTournaments([playerId], tournamentId, false);
+    }
+    await this.syncPlayerTournaments(promoted, tournamentId, true);
+    console.log('Withdrawn:', playerId, 'promoted from waitlist:', promoted);
+
+    return this.getRegistrations(tournamentId);
+  }
+
+  async withdrawSelf(tournamentId: string, userId: string) {
+    const player = await this.userService.getLinkedPlayer(userId);
+    if (!player) {
+      throw new Error('Player is not registered');
+    }
+    return this.withdraw(tournamentId, player._id.toString());
+  }
+
+  // 名额增加后递补候补选手
+  async promoteWaitlisted(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament || tournament.status !== TournamentStatus.UPCOMING) {
+      return [];
+    }
+    const promoted = this.promote(tournament);
+    if (promoted.length > 0) {
+      await tournament.save();
+      await this.syncPlayerTournaments(promoted, tournamentId, true);
+    }
+    return promoted;
+  }
+
+  // 报名队列：已确认、待审核、候补（带候补顺位）、退出和被拒绝
+  async getRegistrations(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('registrations.player', 'name rank rating club')
+      .populate('players', 'name rank rating club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const registrations = tournament.registrations || [];
+    const entries: IRegistrationEntry[] = registrations.map(registration => ({
+      player: registration.player,
+      status: registration.status,
+      registeredAt: registration.registeredAt || null,
+      updatedAt: registration.updatedAt || null,
+      waitlistPosition: null
+    }));
+
+    // 旧数据中直接加入的选手没有报名记录，按已确认处理
+    tournament.players.forEach(player => {
+      if (!registrations.some(registration => refId(registration.player) === refId(player))) {
+        entries.push({
+          player,
+          status: RegistrationStatus.CONFIRMED,
+          registeredAt: null,
+          updatedAt: null,
+          waitlistPosition: null
+        });
+      }
+    });
+
+    this.waitlist(registrations).forEach((registration, index) => {
+      const entry = entries.find(item => refId(item.player) === refId(registration.player));
+      if (entry) {
+        entry.waitlistPosition = index + 1;
+      }
+    });
+
+    return {
+      maxParticipants: tournament.maxParticipants ?? null,
+      requireApproval: Boolean(tournament.requireApproval),
+      confirmedCount: tournament.players.length,
+      registrations: entries
+    };
+  }
+
+  private async loadUpcoming(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status !== TournamentStatus.UPCOMING) {
+      throw new Error('Registration is closed after the tournament has started');
+    }
+    tournament.registrations = tournament.registrations || [];
+    return tournament;
+  }
+
+  // 后续阶段不接受报名，只能从上一阶段晋级；团体赛的选手随队伍名单参赛
+  async loadOpenRegistration(tournamentId: string) {
+    const tournament = await this.loadUpcoming(tournamentId);
+    if (tournament.parentTournament) {
+      throw new Error('Players enter this stage by qualifying from the previous stage');
+    }
+    if (isTeamEvent(tournament)) {
+      throw new Error('Players enter a team tournament through their team roster');
+    }
+    return tournament;
+  }
+
+  private findRegistration(tournament: { registrations?: IRegistration[] }, playerId: string) {
+    return (tournament.registrations || []).find(registration => refId(registration.player) === playerId);
+  }
+
+  private isConfirmed(tournament: { players: any[] }, playerId: string): boolean {
+    return tournament.players.some(id => refId(id) === playerId);
+  }
+
+  private isFull(tournament: { players: any[]; maxParticipants?: number | null }): boolean {
+    return !!tournament.maxParticipants && tournament.players.length >= tournament.maxParticipants;
+  }
+
+  // 检查剩余名额是否够再确认 count 位选手
+  checkPlaces(tournament: { players: any[]; maxParticipants?: number | null }, count: number) {
+    const placesLeft = tournament.maxParticipants ? tournament.maxParticipants - tournament.players.length : Infinity;
+    if (count > placesLeft) {
+      throw new Error(`Tournament is full: ${Math.max(placesLeft, 0)} places left for ${count} players`);
+    }
+  }
+
+  private setStatus(tournament: any, playerId: string, status: RegistrationStatus) {
+    const registration = this.findRegistration(tournament, playerId);
+    if (registration) {
+      registration.status = status;
+      registration.updatedAt = new Date();
+    } else {
+      tournament.registrations.push({ player: playerId, status, registeredAt: new Date(), updatedAt: new Date() });
+    }
+  }
+
+  private confirm(tournament: any, playerId: string) {
+    tournament.players.push(playerId);
+    this.setStatus(tournament, playerId, RegistrationStatus.CONFIRMED);
+  }
+
+  // 候补队列按报名时间排序
+  private waitlist(registrations: IRegistration[]): IRegistration[] {
+    return registrations
+      .filter(registration => registration.status === RegistrationStatus.WAITLISTED)
+      .sort((a, b) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime());
+  }
+
+  // 多阶段比赛：上一阶段的晋级选手按名次进入本阶段，名次即本阶段的种子顺序
+  async seedQualifiers(tournamentId: string, playerIds: string[]) {
+    const tournament = await this.loadUpcoming(tournamentId);
+    const added = playerIds.filter(playerId => !this.isConfirmed(tournament, playerId));
+    added.forEach(playerId => this.confirm(tournament, playerId));
+    tournament.seeding = playerIds;
+    await tournament.save();
+    await this.syncPlayerTournaments(added, tournamentId, true);
+    console.log('晋级选手进入下一阶段:', { tournamentId, players: playerIds });
+
+    return this.getPopulatedTournament(tournamentId);
+  }
+
+  // 有空余名额时依次确认候补选手，返回被递补的选手
+  private promote(tournament: any): string[] {
+    const promoted: string[] = [];
+    for (const registration of this.waitlist(tournament.registrations || [])) {
+      if (this.isFull(tournament)) {
+        break;
+      }
+      const playerId = refId(registration.player)!;
+      this.confirm(tournament, playerId);
+      promoted.push(playerId);
+    }
+    return promoted;
+  }
+
+  // 同步 Player.tournaments 和关联用户的 tournaments
+  async syncPlayerTournaments(playerIds: string[], tournamentId: string, added: boolean) {
+    for (const playerId of playerIds) {
+      const player = await Player.findByIdAndUpdate(
+        playerId,
+        added ? { $addToSet: { tournaments: tournamentId } } : { $pull: { tournaments: tournamentId } }
+      );
+      if (player?.user) {
+        if (added) {
+          await this.userService.addTournament(player.user.toString(), tournamentId);
+        } else {
+          await this.userService.removeTournament(player.user.toString(), tournamentId);
+        }
+      }
+    }
+  }
+
+  private async getPopulatedTournament(tournamentId: string) {
+    return await Tournament.findById(tournamentId)
+      .populate({
+        path: 'players',
+        select: 'name rank rating'
+      })
+      .exec();
+  }
+}
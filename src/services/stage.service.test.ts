@@ -0,0 +1,49 @@
+import { Types } from 'mongoose';
+import { StageService } from './stage.service';
+import Tournament from '../models/tournament.model';
+import { QualificationMethod, TournamentFormat, TournamentStatus } from '../types/tournament.types';
+
+const service = new StageService();
+
+// 第一阶段：只有一名选手，下一阶段取前 4 名
+const createFirstStage = () => {
+  const id = new Types.ObjectId();
+  const nextId = new Types.ObjectId();
+  return {
+    _id: id,
+    format: TournamentFormat.SWISS,
+    status: TournamentStatus.ONGOING,
+    players: [{ _id: new Types.ObjectId(), name: 'A', rank: '1d' }],
+    rounds: [],
+    stages: [
+      { name: 'Qualifier', tournament: id, qualification: null, qualifiedAt: null },
+      { name: 'Final', tournament: nextId, qualification: { method: QualificationMethod.TOP_N, count: 4 }, qualifiedAt: null }
+    ],
+    save: jest.fn(),
+    markModified: jest.fn()
+  };
+};
+
+describe('StageService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the stage open when too few players can qualify', async () => {
+    jest.spyOn(Tournament, 'findById').mockReturnValue({
+      select: () => Promise.resolve({ status: TournamentStatus.UPCOMING, boardCount: null })
+    } as any);
+    const tournament = createFirstStage();
+
+    await expect(service.complete(tournament as any)).rejects.toThrow('At least 2 players must qualify');
+    expect(tournament.status).toBe(TournamentStatus.ONGOING);
+    expect(tournament.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects team settings for a stage', async () => {
+    jest.spyOn(Tournament, 'findById').mockResolvedValue(createFirstStage() as any);
+
+    await expect(service.addStage('id', 'Final', { method: QualificationMethod.TOP_N, count: 4 }, { boardCount: 4 }))
+      .rejects.toThrow('Team tournaments cannot have stages');
+  });
+});
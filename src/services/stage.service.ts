@@ -0,0 +1,216 @@
+import { HydratedDocument } from 'mongoose';
+import Tournament from '../models/tournament.model';
+import {
+  IQualification,
+  IStage,
+  IStanding,
+  ITournament,
+  QualificationMethod,
+  TournamentStatus
+} from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { isTeamEvent } from '../utils/team.utils';
+import { StandingsService } from './standings.service';
+import { RegistrationService } from './registration.service';
+import { TournamentService } from './tournament.service';
+
+// 每个阶段可以单独设置的字段，其余字段（名称、日期、所有者、裁判）沿用第一阶段。
+// 晋级的是个人选手，阶段不能是团体赛，所以没有 boardCount
+const STAGE_SETTINGS: (keyof ITournament)[] = [
+  'format', 'description', 'tieBreakers',
+  'upperBar', 'initialScore', 'minimumScore', 'roundCount',
+  'groups', 'groupMethod', 'groupRankBands',
+  'handicapPolicy', 'handicapReduction', 'maxHandicap', 'komi', 'handicapKomi',
+  'byeAssignment', 'repeatByes', 'byePoints', 'byeCountsForSos',
+  'requireCheckIn', 'skipRoundPoints', 'withdrawalPoints',
+  'doubleRoundRobin', 'thirdPlaceMatch', 'bracketReset'
+];
+
+interface NextStage {
+  root: HydratedDocument<ITournament>;  // 第一阶段，记录全部阶段
+  next: IStage;
+}
+
+interface Promotion extends NextStage {
+  qualifiers: string[];
+}
+
+// 多阶段比赛：例如瑞士制或循环赛预选，前 N 名进入淘汰赛。
+// 每个阶段是一场独立的比赛，第一阶段的 stages 记录全部阶段的顺序和晋级规则
+export class StageService {
+  private standingsService = new StandingsService();
+  private registrationService = new RegistrationService();
+  private tournamentService = new TournamentService();
+
+  // 可以传入任意一个阶段的 id
+  async getStages(tournamentId: string) {
+    const root = await this.loadFirstStage(tournamentId);
+    await root.populate('stages.tournament', 'name format status players');
+    return {
+      tournament: root._id,
+      stages: root.stages || []
+    };
+  }
+
+  // 在最后追加一个阶段，qualification 为从上一阶段晋级的规则
+  async addStage(tournamentId: string, name: string, qualification: IQualification, settings: Partial<ITournament>) {
+    const root = await Tournament.findById(tournamentId);
+    if (!root) {
+      throw new Error('Tournament not found');
+    }
+    if (root.parentTournament) {
+      throw new Error('Stages can only be added to the first stage of a tournament');
+    }
+    if (isTeamEvent(root) || isTeamEvent(settings)) {
+      throw new Error('Team tournaments cannot have stages');
+    }
+    if (!qualification || !Object.values(QualificationMethod).includes(qualification.method)) {
+      throw new Error(`Invalid qualification method. Must be one of: ${Object.values(QualificationMethod).join(', ')}`);
+    }
+    if (!Number.isInteger(qualification.count) || qualification.count < 1) {
+      throw new Error('Qualification count must be a positive integer');
+    }
+
+    const stages = root.stages || [];
+    if (stages.length === 0) {
+      stages.push({ name: root.name, tournament: root._id, qualification: null, qualifiedAt: null });
+    }
+    const previous = await Tournament.findById(stages[stages.length - 1].tournament).select('status');
+    if (previous?.status === TournamentStatus.COMPLETED) {
+      throw new Error('The previous stage has already been completed');
+    }
+
+    const stageSettings = Object.fromEntries(
+      STAGE_SETTINGS.filter(key => settings[key] !== undefined).map(key => [key, settings[key]])
+    ) as Partial<ITournament>;
+    const stage = await this.tournamentService.createTournament({
+      ...stageSettings,
+      name: `${root.name} - ${name}`,
+      startDate: root.startDate,
+      endDate: root.endDate,
+      status: TournamentStatus.UPCOMING,
+      players: [],
+      rounds: [],
+      createdBy: root.createdBy,
+      referees: root.referees,
+      parentTournament: root._id
+    });
+
+    stages.push({ name, tournament: stage._id, qualification, qualifiedAt: null });
+    root.stages = stages;
+    await root.save();
+    console.log('添加比赛阶段:', { tournamentId, name, format: stage.format, qualification });
+
+    return this.getStages(tournamentId);
+  }
+
+  // 某阶段结束后，按下一阶段的晋级规则把选手按名次送入下一阶段；没有下一阶段时返回 null
+  async advance(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    const stage = await this.findNextStage(tournament);
+    if (!stage) {
+      return null;
+    }
+
+    if (tournament.status !== TournamentStatus.COMPLETED) {
+      throw new Error('The stage must be completed before players can qualify');
+    }
+    return this.promote(await this.checkPromotion(tournament, stage));
+  }
+
+  // 结束一个阶段：先检查晋级条件，不满足时抛出原因、比赛状态不变，满足后再保存状态并晋级
+  async complete(tournament: HydratedDocument<ITournament>) {
+    const stage = await this.findNextStage(tournament);
+    const promotion = stage ? await this.checkPromotion(tournament, stage) : null;
+
+    tournament.status = TournamentStatus.COMPLETED;
+    await tournament.save();
+
+    return promotion ? this.promote(promotion) : null;
+  }
+
+  private async findNextStage(tournament: HydratedDocument<ITournament>): Promise<NextStage | null> {
+    const tournamentId = tournament._id.toString();
+    const root = tournament.parentTournament
+      ? await this.loadFirstStage(refId(tournament.parentTournament)!)
+      : tournament;
+    const stages = root.stages || [];
+    const index = stages.findIndex(stage => refId(stage.tournament) === tournamentId);
+    const next = index === -1 ? undefined : stages[index + 1];
+    return next ? { root, next } : null;
+  }
+
+  // 选出晋级选手，并确认下一阶段可以接收他们
+  private async checkPromotion(tournament: ITournament, { root, next }: NextStage): Promise<Promotion> {
+    if (next.qualifiedAt) {
+      throw new Error(`Players have already qualified for ${next.name}`);
+    }
+    const nextTournament = await Tournament.findById(next.tournament).select('status boardCount');
+    if (!nextTournament) {
+      throw new Error('Tournament not found');
+    }
+    if (nextTournament.status !== TournamentStatus.UPCOMING) {
+      throw new Error(`${next.name} has already started`);
+    }
+    if (isTeamEvent(nextTournament)) {
+      throw new Error('Players cannot qualify for a team tournament stage');
+    }
+
+    const qualifiers = this.selectQualifiers(tournament, next.qualification!);
+    if (qualifiers.length < 2) {
+      throw new Error(`At least 2 players must qualify for the next stage, but only ${qualifiers.length} can`);
+    }
+    return { root, next, qualifiers };
+  }
+
+  private async promote({ root, next, qualifiers }: Promotion) {
+    const nextTournament = await this.registrationService.seedQualifiers(refId(next.tournament)!, qualifiers);
+
+    next.qualifiedAt = new Date();
+    root.markModified('stages');
+    await root.save();
+    console.log(`${next.name} 晋级完成:`, qualifiers.length, '人');
+
+    return nextTournament;
+  }
+
+  // 晋级选手按名次排列：TOP_N 取前 count 名；GROUP_WINNERS 先排各组第一，再排各组第二……
+  // 已退赛的选手不晋级
+  selectQualifiers(tournament: ITournament, qualification: IQualification): string[] {
+    const active = (standings: IStanding[]) =>
+      standings.filter(standing => !standing.withdrawn).map(standing => refId(standing.player)!);
+
+    if (qualification.method === QualificationMethod.GROUP_WINNERS) {
+      const groups = Array.from(this.standingsService.getGroupStandings(tournament).values()).map(active);
+      const qualifiers: string[] = [];
+      for (let place = 0; place < qualification.count; place++) {
+        groups.forEach(group => {
+          if (group[place]) {
+            qualifiers.push(group[place]);
+          }
+        });
+      }
+      return qualifiers;
+    }
+
+    return active(this.standingsService.getStandings(tournament)).slice(0, qualification.count);
+  }
+
+  private async loadFirstStage(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.parentTournament) {
+      const root = await Tournament.findById(tournament.parentTournament);
+      if (!root) {
+        throw new Error('Tournament not found');
+      }
+      return root;
+    }
+    return tournament;
+  }
+}
@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import { StandingsService } from './standings.service';
+import { TournamentService } from './tournament.service';
+import { IStanding, MatchResultType, TieBreaker, TournamentFormat } from '../types/tournament.types';
+import { rankToValue } from '../utils/rank.utils';
+import { WIN_POINTS } from '../utils/result.utils';
+
+const standingsService = new StandingsService();
+const tournamentService = new TournamentService();
+
+const createPlayer = (name: string, rank: string) => ({ _id: new Types.ObjectId(), name, rank });
+
+const createMatch = (
+  player1: { _id: Types.ObjectId },
+  player2: { _id: Types.ObjectId },
+  winner: { _id: Types.ObjectId } | null,
+  resultType: MatchResultType
+) => ({
+  player1: player1._id,
+  player2: player2._id,
+  black: player1._id,
+  white: player2._id,
+  winner: winner ? winner._id : null,
+  resultType,
+  result: ''
+});
+
+// McMahon 比赛：上限 2d，下限为上限以下 3 个段位
+const createMcMahonTournament = (players: ReturnType<typeof createPlayer>[], rounds: any[]) => {
+  const settings = { upperBar: rankToValue('2d')!, initialScore: 0, minimumScore: -3 };
+  return {
+    format: TournamentFormat.MCMAHON,
+    ...settings,
+    players,
+    rounds,
+    playerScores: players.map(player => ({
+      player: player._id,
+      initialScore: tournamentService.getMcMahonStartScore(player, settings)
+    }))
+  };
+};
+
+const mmsOf = (standings: IStanding[], player: { _id: Types.ObjectId }) =>
+  standings.find(standing => standing.player._id.equals(player._id))!.tieBreakers[TieBreaker.MMS];
+
+describe('StandingsService', () => {
+  describe('McMahon scores', () => {
+    it('makes up one rank step with one win', () => {
+      const strong = createPlayer('Strong', '2d');
+      const weak = createPlayer('Weak', '1d');
+      const tournament = createMcMahonTournament([strong, weak], [
+        { roundNumber: 1, completed: true, matches: [createMatch(weak, strong, weak, MatchResultType.BLACK_WIN)] }
+      ]);
+
+      const standings = standingsService.getStandings(tournament);
+      expect(mmsOf(standings, strong)).toBe(0);
+      expect(mmsOf(standings, weak)).toBe(0);
+      // 同分时按直接对局排名
+      expect(standings[0].player.name).toBe('Weak');
+    });
+
+    it('starts each rank step one win apart and clamps at the floor', () => {
+      const players = [createPlayer('A', '3d'), createPlayer('B', '1k'), createPlayer('C', '10k')];
+      const standings = standingsService.getStandings(createMcMahonTournament(players, []));
+      expect(standings.map(standing => standing.tieBreakers[TieBreaker.MMS])).toEqual([0, -2 * WIN_POINTS, -3 * WIN_POINTS]);
+    });
+
+    it('scores a jigo as half a win for both players', () => {
+      const strong = createPlayer('Strong', '2d');
+      const weak = createPlayer('Weak', '1d');
+      const tournament = createMcMahonTournament([strong, weak], [
+        { roundNumber: 1, completed: true, matches: [createMatch(strong, weak, null, MatchResultType.JIGO)] }
+      ]);
+
+      const standings = standingsService.getStandings(tournament);
+      expect(mmsOf(standings, strong)).toBe(WIN_POINTS / 2);
+      expect(mmsOf(standings, weak)).toBe(-WIN_POINTS + WIN_POINTS / 2);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import {
+  IStanding,
+  IStandingGame,
+  PlayerOutcome,
+  StoneColor,
+  TieBreaker,
+  TournamentFormat
+} from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { findWithdrawal, getEntryPoints } from '../utils/attendance.utils';
+import { getByePoints } from '../utils/bye.utils';
+import { getPlayerGroup, isGrouped } from '../utils/group.utils';
+import { getMatchColors, getMatchOutcome, isByeMatch, outcomePoints } from '../utils/result.utils';
+
+// 各赛制默认的排名规则
+export const DEFAULT_TIE_BREAKERS: Record<TournamentFormat, TieBreaker[]> = {
+  [TournamentFormat.MCMAHON]: [TieBreaker.MMS, TieBreaker.SOS, TieBreaker.SOSOS, TieBreaker.DIRECT],
+  [TournamentFormat.SWISS]: [TieBreaker.MMS, TieBreaker.DIRECT, TieBreaker.SOS, TieBreaker.SOSOS],
+  [TournamentFormat.ROUNDROBIN]: [TieBreaker.MMS, TieBreaker.DIRECT, TieBreaker.SODOS, TieBreaker.WINS],
+  [TournamentFormat.SINGLEELIMINATION]: [TieBreaker.MMS, TieBreaker.WINS, TieBreaker.SOS],
+  [TournamentFormat.DOUBLEELIMINATION]: [TieBreaker.MMS, TieBreaker.WINS, TieBreaker.SOS]
+};
+
+interface PlayerRecord {
+  mms: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  opponents: string[];
+  beaten: string[];   // 胜过的对手
+  drawn: string[];    // 和棋的对手
+  byes: number;       // 轮空次数
+  games: IStandingGame[];
+}
+
+// 根据轮次记录计算排名表和所有排名比较项
+export class StandingsService {
+  getTieBreakers(tournament: any): TieBreaker[] {
+    if (tournament.tieBreakers && tournament.tieBreakers.length > 0) {
+      return tournament.tieBreakers;
+    }
+    return DEFAULT_TIE_BREAKERS[tournament.format as TournamentFormat] || DEFAULT_TIE_BREAKERS[TournamentFormat.SWISS];
+  }
+
+  getStandings(tournament: any): IStanding[] {
+    const records = this.collectRecords(tournament);
+    const roundNumbers: number[] = (tournament.rounds || []).map((round: any) => round.roundNumber);
+    const standings = tournament.players.map((player: any) =>
+      this.buildStanding(tournament, player, records, roundNumbers)
+    );
+
+    const tieBreakers = this.getTieBreakers(tournament);
+    return standings.sort((a: IStanding, b: IStanding) =>
+      this.compare(a, b, tieBreakers, records)
+    );
+  }
+
+  // 按组排名，用于每组取前几名晋级；没有分组的比赛整体算作一组。
+  // 分组赛只有组内对局，整体排名按组拆开即为各组排名
+  getGroupStandings(tournament: any): Map<string, IStanding[]> {
+    const standings = this.getStandings(tournament);
+    if (!isGrouped(tournament)) {
+      return new Map([['', standings]]);
+    }
+    return new Map((tournament.groups as string[]).map(group => [
+      group,
+      standings.filter(standing => getPlayerGroup(tournament, refId(standing.player)!) === group)
+    ]));
+  }
+
+  // 遍历所有轮次，统计每位选手的主分和对手
+  private collectRecords(tournament: any): Map<string, PlayerRecord> {
+    const records = new Map<string, PlayerRecord>();
+
+    tournament.players.forEach((player: any) => {
+      records.set(refId(player)!, {
+        mms: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        opponents: [],
+        beaten: [],
+        drawn: [],
+        byes: 0,
+        games: []
+      });
+    });
+
+    // McMahon 的主分从初始分开始
+    if (tournament.format === TournamentFormat.MCMAHON) {
+      (tournament.playerScores || []).forEach((playerScore: any) => {
+        const record = records.get(refId(playerScore.player)!);
+        if (record) {
+          record.mms = playerScore.initialScore || 0;
+        }
+      });
+    }
+
+    // 补报名选手加上缺席轮次补给的分数
+    records.forEach((record, playerId) => {
+      record.mms += getEntryPoints(tournament, playerId);
+    });
+
+    for (const round of tournament.rounds || []) {
+      // 请假、退赛的轮次：只加分，不计入对手
+      for (const absence of round.absences || []) {
+        const record = records.get(refId(absence.player)!);
+        if (!record) {
+          continue;
+        }
+        record.mms += absence.points || 0;
+        record.games.push({
+          roundNumber: round.roundNumber,
+          opponent: null,
+          color: null,
+          outcome: 'NONE',
+          resultType: null,
+          result: absence.reason,
+          margin: null,
+          reason: null
+        });
+      }
+
+      for (const match of round.matches) {
+        const player1Id = refId(match.player1);
+        const player2Id = refId(match.player2);
+        const record1 = player1Id ? records.get(player1Id) : undefined;
+        const record2 = player2Id ? records.get(player2Id) : undefined;
+        const outcome = getMatchOutcome(match);
+        // 尚未录入结果的对局不计入
+        if (!record1 || !record2 || !outcome) {
+          continue;
+        }
+
+        const game = {
+          roundNumber: round.roundNumber,
+          resultType: match.resultType || null,
+          result: match.result || '',
+          margin: match.margin ?? null,
+          reason: match.reason || null
+        };
+
+        // 轮空：按赛事设置加分，不计入对手
+        if (isByeMatch(match)) {
+          record1.mms += getByePoints(tournament);
+          record1.byes++;
+          record1.games.push({ ...game, opponent: null, color: null, outcome: outcome.player1 });
+          continue;
+        }
+
+        const black = getMatchColors(match).black;
+        // 弃权、未下的对局不记执色
+        const colorOf = (id: string) => outcome.played
+          ? (black === id ? StoneColor.BLACK : StoneColor.WHITE)
+          : null;
+        const sides: [PlayerRecord, PlayerOutcome, string, StoneColor | null][] = [
+          [record1, outcome.player1, player2Id!, colorOf(player1Id!)],
+          [record2, outcome.player2, player1Id!, colorOf(player2Id!)]
+        ];
+        for (const [record, result, opponentId, color] of sides) {
+          record.games.push({ ...game, opponent: opponentId, color, outcome: result });
+          record.mms += outcomePoints(result);
+          if (result === 'WIN') record.wins++;
+          if (result === 'LOSS') record.losses++;
+          if (result === 'DRAW') record.draws++;
+
+          // 弃权、未下的对局不计入对手分和直接对局
+          if (outcome.played) {
+            record.opponents.push(opponentId);
+            if (result === 'WIN') record.beaten.push(opponentId);
+            if (result === 'DRAW') record.drawn.push(opponentId);
+          }
+        }
+      }
+    }
+
+    return records;
+  }
+
+  private buildStanding(
+    tournament: any,
+    player: any,
+    records: Map<string, PlayerRecord>,
+    roundNumbers: number[]
+  ): IStanding {
+    const record = records.get(refId(player)!)!;
+    const withdrawal = findWithdrawal(tournament, refId(player)!);
+    const mmsOf = (id: string) => records.get(id)?.mms || 0;
+    // 轮空计入对手分时，视为对阵一位与自己同分的虚拟对手
+    const virtualOpponents = (r: PlayerRecord): number[] =>
+      tournament.byeCountsForSos ? Array(r.byes).fill(r.mms) : [];
+    const sosOf = (r: PlayerRecord) => r.opponents.reduce((sum, id) => sum + mmsOf(id), 0)
+      + virtualOpponents(r).reduce((sum, score) => sum + score, 0);
+
+    const opponentScores = [...record.opponents.map(mmsOf), ...virtualOpponents(record)];
+    const sos = sosOf(record);
+    const cutSos = opponentScores.length > 1 ? sos - Math.min(...opponentScores) : sos;
+    const sosos = record.opponents.reduce((sum, id) => {
+      const opponent = records.get(id);
+      return sum + (opponent ? sosOf(opponent) : 0);
+    }, 0);
+    // SODOS：胜局计对手全部分数，和棋计一半
+    const sodos = record.beaten.reduce((sum, id) => sum + mmsOf(id), 0)
+      + record.drawn.reduce((sum, id) => sum + mmsOf(id) / 2, 0);
+
+    // 每轮执色，轮空或没有对局记为 -
+    const colorSequence = roundNumbers
+      .map(roundNumber => record.games.find(game => game.roundNumber === roundNumber)?.color || '-')
+      .join('');
+
+    return {
+      player,
+      games: record.games,
+      colorSequence,
+      wins: record.wins,
+      losses: record.losses,
+      draws: record.draws,
+      withdrawn: Boolean(withdrawal),
+      withdrawnFromRound: withdrawal ? withdrawal.fromRound : null,
+      tieBreakers: {
+        [TieBreaker.MMS]: record.mms,
+        [TieBreaker.SOS]: sos,
+        [TieBreaker.SOSOS]: sosos,
+        [TieBreaker.SODOS]: sodos,
+        [TieBreaker.WINS]: record.wins,
+        [TieBreaker.CUT_SOS]: cutSos
+      }
+    };
+  }
+
+  private compare(
+    a: IStanding,
+    b: IStanding,
+    tieBreakers: TieBreaker[],
+    records: Map<string, PlayerRecord>
+  ): number {
+    for (const tieBreaker of tieBreakers) {
+      if (tieBreaker === TieBreaker.DIRECT) {
+        const direct = this.compareDirect(refId(a.player)!, refId(b.player)!, records);
+        if (direct !== 0) {
+          return direct;
+        }
+        continue;
+      }
+
+      const difference = b.tieBreakers[tieBreaker] - a.tieBreakers[tieBreaker];
+      if (Math.abs(difference) > 0.001) {
+        return difference;
+      }
+    }
+    return 0;
+  }
+
+  // 直接对局：两人之间胜局多者排前
+  private compareDirect(aId: string, bId: string, records: Map<string, PlayerRecord>): number {
+    const aWins = records.get(aId)!.beaten.filter(id => id === bId).length;
+    const bWins = records.get(bId)!.beaten.filter(id => id === aId).length;
+    return bWins - aWins;
+  }
+}
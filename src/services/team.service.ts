@@ -0,0 +1,264 @@
+import Tournament from '../models/tournament.model';
+import Team from '../models/team.model';
+import Player from '../models/player.model';
+import { TournamentStatus } from '../types/tournament.types';
+import { ITeam, ITeamStanding } from '../types/team.types';
+import { refId } from '../types/mongoose.types';
+import { getByePoints } from '../utils/bye.utils';
+import { WIN_POINTS, outcomePoints } from '../utils/result.utils';
+import { getBoardMatches, getTeamMatchOutcome, getTeamMatchScore, isTeamEvent } from '../utils/team.utils';
+import { RegistrationService } from './registration.service';
+
+// 团体赛：队伍、参赛名单和团体排名。编排见 TournamentService，每台的结果按个人对局录入
+export class TeamService {
+  private registrationService = new RegistrationService();
+
+  async getAllTeams() {
+    return Team.find().populate('players', 'name rank rating club').sort({ name: 1 });
+  }
+
+  async createTeam(data: Partial<ITeam>) {
+    const playerIds = (data.players || []).map(id => refId(id)!);
+    if (new Set(playerIds).size !== playerIds.length) {
+      throw new Error('A player can only be listed once in a team');
+    }
+    const found = await Player.countDocuments({ _id: { $in: playerIds } });
+    if (found !== playerIds.length) {
+      throw new Error('Player not found');
+    }
+    const team = new Team({ ...data, players: playerIds });
+    await team.save();
+    console.log('创建队伍:', team.name, playerIds.length, '人');
+    return team;
+  }
+
+  async deleteTeam(teamId: string) {
+    const team = await Team.findById(teamId);
+    if (!team) {
+      throw new Error('Team not found');
+    }
+    if (await Tournament.exists({ 'teams.team': teamId })) {
+      throw new Error('Cannot delete a team that is in tournaments');
+    }
+    await Team.findByIdAndDelete(teamId);
+  }
+
+  // 参赛队伍和名单；名单中前 boardCount 位按段位出场，其余为替补
+  async getTournamentTeams(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('teams.team', 'name club')
+      .populate('teams.roster', 'name rank rating club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    return {
+      boardCount: tournament.boardCount || null,
+      teams: tournament.teams || []
+    };
+  }
+
+  // 报名一支队伍，未指定名单时使用队伍的默认名单
+  async addTeam(tournamentId: string, teamId: string, roster?: string[]) {
+    if (!teamId) {
+      throw new Error('Team ID is required');
+    }
+    const tournament = await this.loadTeamEvent(tournamentId);
+    if (tournament.status !== TournamentStatus.UPCOMING) {
+      throw new Error('Teams can only be added before the tournament starts');
+    }
+    const team = await Team.findById(teamId);
+    if (!team) {
+      throw new Error('Team not found');
+    }
+    if ((tournament.teams || []).some(entry => refId(entry.team) === teamId)) {
+      throw new Error('Team is already in this tournament');
+    }
+
+    const playerIds = roster || team.players.map(id => refId(id)!);
+    this.validateRoster(tournament, teamId, playerIds);
+    tournament.teams = [...(tournament.teams || []), { team: team._id!, roster: playerIds }];
+    this.syncPlayers(tournament);
+    await tournament.save();
+    await this.registrationService.syncPlayerTournaments(playerIds, tournamentId, true);
+    console.log('队伍报名:', team.name, playerIds.length, '人');
+
+    return this.getTournamentTeams(tournamentId);
+  }
+
+  // 调整名单：比赛进行中也可以调整，从下一轮起生效
+  async setRoster(tournamentId: string, teamId: string, roster: string[]) {
+    const tournament = await this.loadTeamEvent(tournamentId);
+    if (tournament.status === TournamentStatus.COMPLETED) {
+      throw new Error('Tournament is already completed');
+    }
+    const entry = (tournament.teams || []).find(item => refId(item.team) === teamId);
+    if (!entry) {
+      throw new Error('Team not found');
+    }
+    this.validateRoster(tournament, teamId, roster);
+
+    const previous = entry.roster.map(id => refId(id)!);
+    entry.roster = roster;
+    const removed = this.syncPlayers(tournament);
+    await tournament.save();
+    await this.registrationService.syncPlayerTournaments(roster.filter(id => !previous.includes(id)), tournamentId, true);
+    await this.registrationService.syncPlayerTournaments(removed, tournamentId, false);
+    console.log('调整名单:', { teamId, roster });
+
+    return this.getTournamentTeams(tournamentId);
+  }
+
+  async removeTeam(tournamentId: string, teamId: string) {
+    const tournament = await this.loadTeamEvent(tournamentId);
+    if (tournament.status !== TournamentStatus.UPCOMING) {
+      throw new Error('Teams can only be removed before the tournament starts');
+    }
+    if (!(tournament.teams || []).some(entry => refId(entry.team) === teamId)) {
+      throw new Error('Team not found');
+    }
+    tournament.teams = (tournament.teams || []).filter(entry => refId(entry.team) !== teamId);
+    const removed = this.syncPlayers(tournament);
+    await tournament.save();
+    await this.registrationService.syncPlayerTournaments(removed, tournamentId, false);
+
+    return this.getTournamentTeams(tournamentId);
+  }
+
+  // 团体排名：先比场分，再比局分
+  getTeamStandings(tournament: any): ITeamStanding[] {
+    const standings = new Map<string, ITeamStanding>(
+      (tournament.teams || []).map((entry: any) => [refId(entry.team)!, {
+        team: entry.team,
+        matchPoints: 0,
+        boardPoints: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        byes: 0,
+        opponents: []
+      }])
+    );
+
+    for (const round of tournament.rounds || []) {
+      for (const teamMatch of round.teamMatches || []) {
+        const standing1 = standings.get(refId(teamMatch.team1)!);
+        const standing2 = teamMatch.team2 ? standings.get(refId(teamMatch.team2)!) : undefined;
+        const boardMatches = getBoardMatches(round.matches, teamMatch);
+        const outcome = getTeamMatchOutcome(teamMatch, boardMatches);
+        if (!standing1 || !outcome) {
+          continue;
+        }
+
+        // 轮空：场分按赛事设置，局分按相同比例计
+        if (!teamMatch.team2) {
+          standing1.matchPoints += getByePoints(tournament);
+          standing1.boardPoints += tournament.boardCount * getByePoints(tournament) / WIN_POINTS;
+          standing1.byes++;
+          continue;
+        }
+
+        const score = getTeamMatchScore(teamMatch, boardMatches);
+        const sides: [ITeamStanding | undefined, typeof outcome.player1, number, string][] = [
+          [standing1, outcome.player1, score.team1Points, refId(teamMatch.team2)!],
+          [standing2, outcome.player2, score.team2Points, refId(teamMatch.team1)!]
+        ];
+        for (const [standing, result, boardPoints, opponent] of sides) {
+          if (!standing) {
+            continue;
+          }
+          standing.matchPoints += outcomePoints(result);
+          standing.boardPoints += boardPoints;
+          standing.opponents.push(opponent);
+          if (result === 'WIN') standing.wins++;
+          if (result === 'DRAW') standing.draws++;
+          if (result === 'LOSS') standing.losses++;
+        }
+      }
+    }
+
+    return Array.from(standings.values()).sort((a, b) =>
+      b.matchPoints - a.matchPoints || b.boardPoints - a.boardPoints
+    );
+  }
+
+  // 团体成绩：排名和每轮两队对抗的比分
+  async getTeamResults(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate('teams.team', 'name club');
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (!isTeamEvent(tournament)) {
+      throw new Error('This is not a team tournament');
+    }
+
+    return {
+      boardCount: tournament.boardCount,
+      standings: this.getTeamStandings(tournament).map((standing, index) => ({ rank: index + 1, ...standing })),
+      rounds: tournament.rounds.map(round => ({
+        roundNumber: round.roundNumber,
+        teamMatches: (round.teamMatches || []).map(teamMatch => {
+          const boardMatches = getBoardMatches(round.matches, teamMatch);
+          const score = getTeamMatchScore(teamMatch, boardMatches);
+          return {
+            _id: teamMatch._id,
+            team1: teamMatch.team1,
+            team2: teamMatch.team2,
+            team1Points: teamMatch.team2 ? score.team1Points : null,
+            team2Points: teamMatch.team2 ? score.team2Points : null,
+            complete: score.complete,
+            boards: boardMatches.map(match => match._id)
+          };
+        })
+      }))
+    };
+  }
+
+  private async loadTeamEvent(tournamentId: string) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (!isTeamEvent(tournament)) {
+      throw new Error('This is not a team tournament');
+    }
+    return tournament;
+  }
+
+  // 名单不能少于出场台数，队员不能同时在其他队伍的名单中
+  private validateRoster(tournament: any, teamId: string, roster: string[]) {
+    if (!Array.isArray(roster)) {
+      throw new Error('Roster is required');
+    }
+    if (new Set(roster).size !== roster.length) {
+      throw new Error('A player can only be listed once in a roster');
+    }
+    if (roster.length < tournament.boardCount) {
+      throw new Error(`A roster needs at least ${tournament.boardCount} players`);
+    }
+    for (const entry of tournament.teams || []) {
+      if (refId(entry.team) === teamId) {
+        continue;
+      }
+      const taken = roster.find(playerId => entry.roster.some((id: any) => refId(id) === playerId));
+      if (taken) {
+        throw new Error(`Player ${taken} is already on another team's roster`);
+      }
+    }
+  }
+
+  // tournament.players 为所有名单中的队员，以及已经下过棋的原队员；返回被移出的选手
+  private syncPlayers(tournament: any): string[] {
+    const played = new Set<string>((tournament.rounds || []).flatMap((round: any) =>
+      round.matches.flatMap((match: any) => [refId(match.player1)!, refId(match.player2)!])
+    ));
+    const rostered = new Set<string>((tournament.teams || []).flatMap((entry: any) =>
+      entry.roster.map((id: any) => refId(id)!)
+    ));
+    const current = tournament.players.map((id: any) => refId(id)!);
+    const keep = new Set([...rostered, ...current.filter((id: string) => played.has(id))]);
+
+    tournament.players = Array.from(keep);
+    return current.filter((id: string) => !keep.has(id));
+  }
+}
@@ -1,21 +1,55 @@
 import { Types, Document } from 'mongoose';
 import Tournament from '../models/tournament.model';
 import Player from '../models/player.model';
+import User from '../models/user.model';
 import { 
   IMatch, 
   IRound, 
+  IGroupAssignment,
+  GroupMethod,
+  IPlayerScore,
+  IMcMahonOverride,
+  IAttendance,
+  ILateEntry,
+  ByeAssignment,
+  IRoundAbsence,
+  IWithdrawal,
+  HandicapPolicy,
+  IMatchResultInput,
+  IStanding,
+  MatchResultType,
   ITournament, 
+  TieBreaker,
   TournamentFormat, 
   TournamentStatus,
   TournamentDocument 
 } from '../types/tournament.types';
-import { MongoId, toString } from '../types/mongoose.types';
+import { MongoId, refId, toObjectId, toString } from '../types/mongoose.types';
+import { IBracket } from '../types/bracket.types';
+import { ITeamMatch, ITournamentTeam } from '../types/team.types';
+import { IBergerRound, IRoundRobinSchedule } from '../types/berger.types';
+import { BracketService } from './bracket.service';
+import { BergerService } from './berger.service';
+import { MaxWeightPairingEngine } from './pairing.service';
+import { StandingsService } from './standings.service';
+import { ColorService } from './color.service';
+import { IPairingEngine, IPairingPlayer } from '../types/pairing.types';
+import { compareByStrength, rankToValue, valueToRank } from '../utils/rank.utils';
+import { calculateHandicap } from '../utils/handicap.utils';
+import { createByeMatch, getByePoints } from '../utils/bye.utils';
+import { findWithdrawal, getAbsence, getEntryPoints, getNextRoundNumber, isPresent } from '../utils/attendance.utils';
+import { hasRole } from '../utils/permission.utils';
+import { getGroupMembers, isGrouped, resolveGroupAssignments, validateGroupSettings } from '../utils/group.utils';
+import { getBoardMatches, getTeamMatchOutcome, getTeamName, isTeamEvent, selectLineup } from '../utils/team.utils';
+import { UserRole } from '../types/user.types';
+import { WIN_POINTS, getMatchColors, getMatchOutcome, hasResult, isByeMatch, outcomePoints, resolveMatchResult } from '../utils/result.utils';
 
 interface PlayerDocument extends Document {
   _id: Types.ObjectId;
   name: string;
   rank: string;
   rating?: number;
+  club?: string;
   wins: number;
   losses: number;
   draws: number;
@@ -31,6 +65,37 @@ interface PopulatedTournament extends Document {
   players: PlayerDocument[];
   rounds: IRound[];
   description?: string;
+  thirdPlaceMatch?: boolean;
+  bracketReset?: boolean;
+  bracket?: IBracket;
+  upperBar?: number;
+  initialScore?: number;
+  minimumScore?: number;
+  playerScores: IPlayerScore[];
+  mcmahonOverrides?: IMcMahonOverride[];
+  requireCheckIn?: boolean;
+  attendance?: IAttendance[];
+  lateEntries?: ILateEntry[];
+  skipRoundPoints?: number;
+  withdrawalPoints?: number;
+  withdrawals?: IWithdrawal[];
+  handicapPolicy?: HandicapPolicy;
+  handicapReduction?: number;
+  maxHandicap?: number;
+  komi?: number;
+  handicapKomi?: number;
+  byeAssignment?: ByeAssignment;
+  repeatByes?: boolean;
+  byePoints?: number;
+  byeCountsForSos?: boolean;
+  doubleRoundRobin?: boolean;
+  seeding?: MongoId[];
+  groups?: string[];
+  groupMethod?: GroupMethod | null;
+  groupRankBands?: string[];
+  groupAssignments?: IGroupAssignment[];
+  boardCount?: number | null;
+  teams?: ITournamentTeam[];
 }
 
 type TournamentPlayer = PlayerDocument | null;
@@ -44,6 +109,12 @@ function convertToTournamentDocument(populated: PopulatedTournament): Tournament
 }
 
 export class TournamentService {
+  private bracketService = new BracketService();
+  private bergerService = new BergerService();
+  private pairingEngine: IPairingEngine = new MaxWeightPairingEngine();
+  private standingsService = new StandingsService();
+  private colorService = new ColorService();
+
   async createTournament(tournamentData: Partial<ITournament>) {
     // 对于 McMahon 赛制，确保所有必要字段都存在
     if (tournamentData.format === TournamentFormat.MCMAHON) {
@@ -66,6 +137,23 @@ export class TournamentService {
       tournamentData.playerScores = [];
     }
 
+    if (tournamentData.groupMethod) {
+      validateGroupSettings(tournamentData);
+    }
+
+    // 团体赛只支持瑞士制和循环赛，不能同时分组
+    if (tournamentData.boardCount) {
+      if (tournamentData.format !== TournamentFormat.SWISS && tournamentData.format !== TournamentFormat.ROUNDROBIN) {
+        throw new Error('Team tournaments are only supported for SWISS and ROUNDROBIN');
+      }
+      if (!Number.isInteger(tournamentData.boardCount) || tournamentData.boardCount < 1) {
+        throw new Error('Board count must be a positive integer');
+      }
+      if (tournamentData.groupMethod) {
+        throw new Error('Team tournaments cannot be split into groups');
+      }
+    }
+
     const tournament = new Tournament(tournamentData);
     return await tournament.save();
   }
@@ -102,26 +190,41 @@ export class TournamentService {
     }
 
     // 计算当前轮次编号
-    const currentRoundNumber = tournament.rounds.length > 0 
-      ? Math.max(...tournament.rounds.map(r => r.roundNumber)) + 1 
-      : 1;
+    const currentRoundNumber = getNextRoundNumber(tournament);
 
-    // 根据赛制生成对局
+    // 根据赛制生成对局；团体赛先配对队伍，再生成每台的对局
     let matches: IMatch[];
-    switch (tournament.format) {
-      case TournamentFormat.MCMAHON:
-        matches = await this.generateMcMahonPairings(tournament);
-        break;
-      case TournamentFormat.SWISS:
-        matches = await this.generateSwissPairings(tournament);
-        break;
-      case TournamentFormat.ROUNDROBIN:
-        matches = await this.generateRoundRobinPairings(tournament);
-        break;
-      default:
-        throw new Error(`Unsupported tournament format: ${tournament.format}`);
+    let teamMatches: ITeamMatch[] | undefined;
+    if (isTeamEvent(tournament)) {
+      ({ teamMatches, matches } = await this.generateTeamPairings(tournament));
+    } else {
+      switch (tournament.format) {
+        case TournamentFormat.MCMAHON:
+          matches = await this.generateMcMahonPairings(tournament);
+          break;
+        case TournamentFormat.SWISS:
+          matches = isGrouped(tournament)
+            ? await this.generateGroupPairings(tournament)
+            : await this.generateSwissPairings(tournament);
+          break;
+        case TournamentFormat.ROUNDROBIN:
+          matches = isGrouped(tournament)
+            ? await this.generateGroupPairings(tournament)
+            : await this.generateRoundRobinPairings(tournament);
+          break;
+        case TournamentFormat.SINGLEELIMINATION:
+        case TournamentFormat.DOUBLEELIMINATION:
+          matches = this.generateEliminationPairings(tournament, currentRoundNumber);
+          break;
+        default:
+          throw new Error(`Unsupported tournament format: ${tournament.format}`);
+      }
     }
 
+    // 确定每局的让子、贴目和黑白
+    this.applyHandicaps(tournament, matches);
+    this.colorService.assignColors(tournament.rounds, matches, tournament.players);
+
     // 获取所有选手的名字映射
     const playerNames = new Map(
       tournament.players.map((player: any) => [player._id.toString(), player.name])
@@ -141,11 +244,23 @@ export class TournamentService {
     });
 
     // 创建新轮次
-    const newRound = {
+    const newRound: IRound = {
       roundNumber: currentRoundNumber,
       matches,
-      completed: false
+      completed: false,
+      absences: this.buildAbsences(tournament, matches, currentRoundNumber),
+      ...(teamMatches && { teamMatches })
     };
+    if (newRound.absences!.length > 0) {
+      console.log('本轮缺席:', newRound.absences!.map(absence => ({
+        player: playerNames.get(refId(absence.player)!),
+        reason: absence.reason,
+        points: absence.points
+      })));
+    }
+
+    // McMahon：轮空和缺席的得分计入当前分
+    this.applyRoundPoints(tournament, tournament.playerScores || [], newRound, 1);
 
     // 更新比赛
     tournament.rounds.push(newRound);
@@ -153,17 +268,22 @@ export class TournamentService {
 
     // 保存更新
     await tournament.save();
-    
+
+    // 循环赛、淘汰赛中已退赛选手的对局直接判弃权
+    const forfeited = await this.forfeitWithdrawnMatches(tournament, currentRoundNumber);
+    if (forfeited > 0) {
+      return Tournament.findById(tournamentId).exec();
+    }
+
     return tournament;
   }
 
   async updateTournamentResults(
     tournamentId: string,
     matchId: string,
-    winnerId: string,
-    result: string
+    input: IMatchResultInput
   ): Promise<TournamentDocument | null> {
-    console.log('开始更新比赛结果的，调用方法updateTournamentResults:', { tournamentId, matchId, winnerId, result });
+    console.log('开始更新比赛结果的，调用方法updateTournamentResults:', { tournamentId, matchId, ...input });
     const tournament = await Tournament.findById(tournamentId)
       .populate('players')
       .exec();
@@ -184,6 +304,9 @@ export class TournamentService {
     if (!match) {
       throw new Error('Match not found');
     }
+    if (isByeMatch(match)) {
+      throw new Error('Cannot record a result for a bye');
+    }
 
     // 获取所有选手的名字映射
     const playerNames = new Map(
@@ -197,89 +320,69 @@ export class TournamentService {
         player2: playerNames.get(match.player2.toString()),
         winner: match.winner ? playerNames.get(match.winner.toString()) : null,
         result: match.result,
+        resultType: match.resultType,
         player1Score: match.player1Score,
         player2Score: match.player2Score
       }))
     });
 
-    // 更新比赛结果
-    match.winner = new Types.ObjectId(winnerId);  // 直接使用Types.ObjectId
-    match.result = result;
+    const resolved = resolveMatchResult(match, input);
 
-    // 更新选手得分
-    const playerScores = new Map(
-      tournament.playerScores?.map(score => [score.player.toString(), score]) || []
-    );
-    
-    const winner = playerScores.get(winnerId);
-    const loser = playerScores.get(
-      match.player1.toString() === winnerId 
-        ? match.player2.toString() 
-        : match.player1.toString()
-    );
+    // 淘汰赛必须分出胜负
+    if (match.bracketCode && !resolved.winnerId) {
+      throw new Error(`Elimination matches require a winner, ${resolved.resultType} is not allowed`);
+    }
 
-    // 获取选手名字
-    const winnerPlayer = tournament.players.find((p: any) => p._id.toString() === winnerId);
-    const loserPlayer = tournament.players.find((p: any) => 
-      p._id.toString() === (match.player1.toString() === winnerId ? match.player2.toString() : match.player1.toString())
-    );
+    const playerScores = tournament.playerScores || [];
 
-    console.log('更新得分前:', {
-      winner: winner ? { 
-        name: winnerPlayer?.name,
-        currentScore: winner.currentScore 
-      } : null,
-      loser: loser ? { 
-        name: loserPlayer?.name,
-        currentScore: loser.currentScore 
-      } : null
-    });
+    const previousWinner = match.winner ? refId(match.winner) : null;
 
-    if (winner) {
-      winner.currentScore += 2;  // McMahon 赛制胜者得2分
-      console.log('有人得分增加了:', {
-        winner: winner ? { 
-          name: winnerPlayer?.name,
-          currentScore: winner.currentScore 
-        } : null,
-      });
-      winner.wins += 1;
-      // 记录对手
-      if (!winner.opponents) winner.opponents = [];
-      winner.opponents.push(match.player1.toString() === winnerId ? match.player2 : match.player1);
-    }
-    if (loser) {
-      loser.losses += 1;
-      // 记录对手
-      if (!loser.opponents) loser.opponents = [];
-      loser.opponents.push(match.player1.toString() === winnerId ? match.player1 : match.player2);
+    // 重新录入结果时，先撤销旧结果的计分
+    if (hasResult(match)) {
+      console.log('撤销旧结果:', { winner: match.winner, resultType: match.resultType });
+      this.applyMatchScores(playerScores, match, -1);
     }
 
-    console.log('更新得分后:', {
-      winner: winner ? { 
-        name: winnerPlayer?.name,
-        currentScore: winner.currentScore 
-      } : null,
-      loser: loser ? { 
-        name: loserPlayer?.name,
-        currentScore: loser.currentScore 
-      } : null
-    });
+    // 更新比赛结果
+    match.winner = resolved.winnerId ? new Types.ObjectId(resolved.winnerId) : null;
+    match.resultType = resolved.resultType;
+    match.winningColor = resolved.winningColor;
+    match.margin = resolved.margin;
+    match.reason = resolved.reason;
+    match.result = resolved.result;
+
+    // 淘汰赛：把胜者和负者送入签表中的下一场对局
+    // 更改胜者时撤销旧胜者的晋级和负者的失利记录，按更正后的结果重建签表
+    if (tournament.bracket && match.bracketCode && resolved.winnerId) {
+      if (previousWinner && previousWinner !== resolved.winnerId) {
+        this.bracketService.correctResult(tournament.bracket, match.bracketCode, tournament.rounds);
+      } else {
+        this.bracketService.recordResult(tournament.bracket, match.bracketCode, resolved.winnerId);
+      }
+      tournament.markModified('bracket');
+    }
 
-    tournament.playerScores = Array.from(playerScores.values());
+    // 更新选手得分
+    this.applyMatchScores(playerScores, match, 1);
+    tournament.playerScores = playerScores;
+
+    console.log('更新得分后:', playerScores
+      .filter(score => [match.player1.toString(), match.player2.toString()].includes(score.player.toString()))
+      .map(score => ({
+        name: playerNames.get(score.player.toString()),
+        currentScore: score.currentScore
+      }))
+    );
 
     // 检查当前轮次是否完成
-    const isRoundComplete = round.matches.every(m => m.winner != null);
-    if (isRoundComplete) {
-      round.completed = true;
-    }
+    round.completed = round.matches.every(m => hasResult(m));
 
     console.log('保存前确认winner:', {
       tournamentId,
       matchId,
       winner: match.winner,
-      winnerType: typeof match.winner,
-      isObjectId: match.winner instanceof Types.ObjectId
+      resultType: match.resultType,
+      result: match.result
     });
 
     // 直接保存整个tournament对象
@@ -301,6 +404,73 @@ export class TournamentService {
     return updatedTournament;
   }
 
+  // 删除轮次后按剩下的轮次重建淘汰赛签表；全部删除时清空，下次开赛重新排种子
+  rebuildBracket(tournament: Document & ITournament): void {
+    if (!tournament.bracket) {
+      return;
+    }
+    if (tournament.rounds.length === 0) {
+      tournament.bracket = undefined;
+    } else {
+      this.bracketService.rebuild(tournament.bracket, tournament.rounds);
+    }
+    tournament.markModified('bracket');
+  }
+
+  // 轮空、请假、退赛的得分计入 McMahon 当前分，sign 为 -1 时撤销
+  applyRoundPoints(tournament: { byePoints?: number }, playerScores: IPlayerScore[], round: IRound, sign: 1 | -1): void {
+    const addPoints = (playerId: string | null, points: number) => {
+      const score = playerScores.find(s => s.player.toString() === playerId);
+      if (score) {
+        score.currentScore += sign * points;
+      }
+    };
+    for (const match of round.matches) {
+      if (isByeMatch(match)) {
+        addPoints(refId(match.player1), getByePoints(tournament));
+      }
+    }
+    for (const absence of round.absences || []) {
+      addPoints(refId(absence.player), absence.points || 0);
+    }
+  }
+
+  // 按对局结果更新选手得分记录，sign 为 -1 时撤销
+  applyMatchScores(playerScores: IPlayerScore[], match: IMatch, sign: 1 | -1): void {
+    const outcome = getMatchOutcome(match);
+    if (!outcome || isByeMatch(match)) {
+      return;
+    }
+
+    const sides = [
+      { score: playerScores.find(s => s.player.toString() === match.player1.toString()), result: outcome.player1, opponent: match.player2 },
+      { score: playerScores.find(s => s.player.toString() === match.player2.toString()), result: outcome.player2, opponent: match.player1 }
+    ];
+
+    for (const { score, result, opponent } of sides) {
+      if (!score) {
+        continue;
+      }
+      score.currentScore += sign * outcomePoints(result);
+      if (result === 'WIN') score.wins += sign;
+      if (result === 'LOSS') score.losses += sign;
+      if (result === 'DRAW') score.draws += sign;
+
+      // 只有真正对弈过才记录对手
+      if (outcome.played) {
+        if (!score.opponents) score.opponents = [];
+        if (sign > 0) {
+          score.opponents.push(opponent);
+        } else {
+          const index = score.opponents.findIndex(o => o.toString() === opponent.toString());
+          if (index !== -1) {
+            score.opponents.splice(index, 1);
+          }
+        }
+      }
+    }
+  }
+
   async getPlayerById(id: string): Promise<PlayerDocument | null> {
     return Player.findById<PlayerDocument>(id).exec();
   }
@@ -393,351 +563,148 @@ export class TournamentService {
     );
   }
 
-  async generateSwissPairings(tournamentId: string): Promise<IMatch[]> {
-    const tournament = await Tournament.findById(tournamentId)
-      .populate('players')
-      .populate({
-        path: 'rounds.matches.player1',
-        select: 'name rank'
-      })
-      .populate({
-        path: 'rounds.matches.player2',
-        select: 'name rank'
-      })
-      .exec();
-
-    if (!tournament) {
+  async createNextRound(tournament: ITournament): Promise<IRound[]> {
+    // 配对需要选手的段位、俱乐部等信息
+    const populated = await Tournament.findById(tournament._id)
+      .populate<{ players: PlayerDocument[] }>('players')
+      .exec() as PopulatedTournament | null;
+    if (!populated) {
       throw new Error('Tournament not found');
     }
 
-    const scores = this.calculatePlayerScores(tournament);
-    const playerScores = tournament.players.map((player: any) => ({
-      player: player._id.toString(),
-      name: player.name,
-      score: this.getPlayerScore(scores, player._id.toString())
-    })).sort((a, b) => b.score - a.score); // 按分数降序排序
-
-    const matches: IMatch[] = [];
-    const paired = new Set<string>();
-
-    // 为每个未配对的选手寻找对手
-    for (let i = 0; i < playerScores.length && used.size < sortedPlayers.length - 1; i++) {
-      const player1 = sortedPlayers[i];
-      if (used.has(player1._id.toString())) {
-        console.log(`跳过 ${player1.name} - 已经被配对`);
-        continue;
-      }
-
-      console.log(`\n为 ${player1.name} 寻找对手...`);
-      const player1Id = player1._id.toString();
-      const player1Opponents = playedMatches.get(player1Id) || new Set<string>();
-
-      // 寻找最近的未配对且未对战过的选手
-      for (let j = i + 1; j < sortedPlayers.length; j++) {
-        const player2 = sortedPlayers[j];
-        const player2Id = player2._id.toString();
-        
-        if (used.has(player2Id)) {
-          console.log(`  跳过 ${player2.name} - 已经被配对`);
-          continue;
-        }
-
-        // 检查是否已经对战过
-        const hasPlayed = player1Opponents.has(player2Id);
-        console.log(`  检查 ${player2.name} - ${hasPlayed ? '已对阵过' : '未对阵过'}`);
-
-        if (!hasPlayed) {  // 如果还没有对战过
-          console.log(`  配对成功: ${player1.name} vs ${player2.name}`);
-          matches.push({
-            player1: player1._id,
-            player2: player2._id,
-            winner: null,
-            result: '',
-            player1Score: playerScores.get(player1Id)?.currentScore || 0,
-            player2Score: playerScores.get(player2Id)?.currentScore || 0
-          });
-
-          used.add(player1Id);
-          used.add(player2Id);
-          break;
-        }
-      }
-
-      // 如果没有找到未对战过的选手，则与最近的未配对选手配对
-      if (!used.has(player1Id)) {
-        console.log(`  ${player1.name} 没有找到未对战过的选手，尝试强制配对`);
-        for (let j = i + 1; j < sortedPlayers.length; j++) {
-          const player2 = sortedPlayers[j];
-          const player2Id = player2._id.toString();
-          
-          if (!used.has(player2Id)) {
-            console.log(`  强制配对: ${player1.name} vs ${player2.name}`);
-            matches.push({
-              player1: player1._id,
-              player2: player2._id,
-              winner: null,
-              result: '',
-              player1Score: playerScores.get(player1Id)?.currentScore || 0,
-              player2Score: playerScores.get(player2Id)?.currentScore || 0
-            });
-
-            used.add(player1Id);
-            used.add(player2Id);
-            break;
-          }
-        }
-      }
-    }
-
-    // 处理轮空选手
-    const remainingPlayer = sortedPlayers.find(p => !used.has(p._id.toString()));
-    if (remainingPlayer) {
-      matches.push({
-        player1: remainingPlayer._id,
-        player2: remainingPlayer._id,  // 自己对阵自己表示轮空
-        winner: remainingPlayer._id,   // 轮空自动获胜
-        result: 'BYE',
-        player1Score: playerScores.get(remainingPlayer._id.toString())?.currentScore || 0,
-        player2Score: playerScores.get(remainingPlayer._id.toString())?.currentScore || 0
-      });
-
-      // 轮空选手自动获胜，得1分
-      const score = playerScores.get(remainingPlayer._id.toString());
-      if (score) {
-        score.currentScore += 1;
-      }
-    }
-
-    return matches;
-  }
-
-  async createNextRound(tournament: ITournament): Promise<IRound[]> {
     let matches: IMatch[] = [];
-
-    if (tournament.format === TournamentFormat.SWISS) {
-      matches = await this.generateSwissPairings(tournament._id!.toString());
+    let teamMatches: ITeamMatch[] | undefined;
+
+    if (isTeamEvent(populated)) {
+      ({ teamMatches, matches } = await this.generateTeamPairings(populated));
+      tournament.seeding = populated.seeding;
+    } else if (isGrouped(populated)) {
+      matches = await this.generateGroupPairings(populated);
+      tournament.seeding = populated.seeding;
+      tournament.groupAssignments = populated.groupAssignments;
+    } else if (tournament.format === TournamentFormat.SWISS) {
+      matches = await this.generateSwissPairings(populated);
+    } else if (tournament.format === TournamentFormat.MCMAHON) {
+      matches = await this.generateMcMahonPairings(populated);
     } else if (tournament.format === TournamentFormat.ROUNDROBIN) {
       // 现有的轮循环逻辑
-      matches = this.generateRoundRobinPairings(tournament);
+      matches = await this.generateRoundRobinPairings(populated);
+      tournament.seeding = populated.seeding;
     } else {
-      // 现有的淘汰赛逻辑
-      matches = this.generateEliminationPairings(tournament);
+      matches = this.generateEliminationPairings(populated, tournament.rounds.length + 1);
+      tournament.bracket = populated.bracket;
     }
 
+    // 确定每局的让子、贴目和黑白
+    this.applyHandicaps(populated, matches);
+    this.colorService.assignColors(populated.rounds, matches, populated.players);
+
     const newRound: IRound = {
       roundNumber: tournament.rounds.length + 1,
       matches,
-      completed: false
+      completed: false,
+      absences: this.buildAbsences(populated, matches, tournament.rounds.length + 1),
+      ...(teamMatches && { teamMatches })
     };
+    this.applyRoundPoints(populated, tournament.playerScores || [], newRound, 1);
 
     tournament.rounds.push(newRound);
     // 返回更新后的 tournament，让 controller 来处理保存
     return tournament.rounds;
   }
 
-  // 计算选手得分
-  calculatePlayerScores(tournament: any): Map<string, { score: number, opponentScore: number }> {
-    const scores = new Map<string, { score: number, opponentScore: number }>();
-    
-    // 初始化选手得分为其初始分数
-    tournament.playerScores.forEach((playerScore: any) => {
-      scores.set(playerScore.player.toString(), { 
-        score: playerScore.initialScore || 0,  // 使用初始分数，如果没有则为0
-        opponentScore: 0 
-      });
-    });
+  // 获取排序后的选手列表，排名规则由 tournament.tieBreakers 决定
+  getSortedPlayers(tournament: any): IStanding[] {
+    return this.standingsService.getStandings(tournament);
+  }
 
-    // 遍历所有轮次和比赛，计算得分
-    tournament.rounds.forEach((round: any) => {
-      round.matches.forEach((match: any) => {
-        if (match.winner) {
-          const winnerId = match.winner._id.toString();
-          const loserId = match.player1._id.toString() === winnerId 
-            ? match.player2._id.toString() 
-            : match.player1._id.toString();
-
-          // 获胜者得2分
-          const winnerScore = scores.get(winnerId) || { score: 0, opponentScore: 0 };
-          scores.set(winnerId, {
-            score: winnerScore.score + 2,
-            opponentScore: winnerScore.opponentScore
-          });
-
-          // 失败者得0分
-          if (match.result !== 'BYE') {
-            const loserScore = scores.get(loserId) || { score: 0, opponentScore: 0 };
-            scores.set(loserId, {
-              score: loserScore.score,
-              opponentScore: loserScore.opponentScore
-            });
-          }
-        }
-      });
-    });
+  getTieBreakers(tournament: any): TieBreaker[] {
+    return this.standingsService.getTieBreakers(tournament);
+  }
 
-    // 计算对手分
-    tournament.rounds.forEach((round: any) => {
-      round.matches.forEach((match: any) => {
-        if (match.winner && match.result !== 'BYE') {
-          const player1Id = match.player1._id.toString();
-          const player2Id = match.player2._id.toString();
-          
-          // 更新双方的对手分
-          const player1Score = scores.get(player1Id);
-          const player2Score = scores.get(player2Id);
-          
-          if (player1Score && player2Score) {
-            scores.set(player1Id, {
-              ...player1Score,
-              opponentScore: player1Score.opponentScore + player2Score.score
-            });
-            
-            scores.set(player2Id, {
-              ...player2Score,
-              opponentScore: player2Score.opponentScore + player1Score.score
-            });
-          }
-        }
-      });
-    });
+  // McMahon 初始分：上限（bar）及以上的选手为 initialScore，
+  // 每低一个段位少 1 分，低于下限（floor）的选手统一为 minimumScore
+  calculateMcMahonInitialScore(
+    rank: string,
+    settings: { upperBar?: number; initialScore?: number; minimumScore?: number }
+  ): number {
+    const upperBar = settings.upperBar ?? 0;
+    const initialScore = settings.initialScore ?? 0;
+    const minimumScore = settings.minimumScore ?? initialScore;
+
+    const rankValue = rankToValue(rank);
+    if (rankValue === null) {
+      console.log(`警告: 无法解析段位 ${rank}, 使用最低分数 ${minimumScore}`);
+      return minimumScore;
+    }
 
-    return scores;
+    if (rankValue >= upperBar) {
+      return initialScore;
+    }
+    return Math.max(minimumScore, initialScore - (upperBar - rankValue));
   }
 
-  // 获取选手的当前得分
-  getPlayerScore(scores: Map<string, { score: number, opponentScore: number }>, playerId: string): { score: number, opponentScore: number } {
-    return scores.get(playerId.toString()) || { score: 0, opponentScore: 0 };
+  // 选手的 McMahon 初始分，按得分计。分组（initialScore、手动调整）以段位差为单位，
+  // 每个段位差记一场胜局的分数（WIN_POINTS），这样赢一局正好追上一个段位
+  getMcMahonStartScore(
+    player: { _id: MongoId; rank: string },
+    tournament: { upperBar?: number; initialScore?: number; minimumScore?: number; mcmahonOverrides?: IMcMahonOverride[] }
+  ): number {
+    const override = (tournament.mcmahonOverrides || []).find(o => refId(o.player) === refId(player._id));
+    const group = override ? override.initialScore : this.calculateMcMahonInitialScore(player.rank, tournament);
+    return group * WIN_POINTS;
   }
 
-  // 查找两个选手之间的直接对局结果
-  findHeadToHeadResult(tournament: any, player1Id: string, player2Id: string): string | null {
-    for (const round of tournament.rounds) {
-      for (const match of round.matches) {
-        // 检查是否是这两个选手的比赛
-        if ((match.player1._id.toString() === player1Id && match.player2._id.toString() === player2Id) ||
-            (match.player1._id.toString() === player2Id && match.player2._id.toString() === player1Id)) {
-          if (match.winner) {
-            return match.winner._id.toString();
-          }
-        }
-      }
+  // 指派本比赛的裁判，只有具有裁判及以上角色的用户才能被指派
+  async setReferees(tournamentId: string, refereeIds: string[]) {
+    const tournament = await Tournament.findById(tournamentId);
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const uniqueIds = Array.from(new Set(refereeIds));
+    const users = await User.find({ _id: { $in: uniqueIds } }).select('role');
+    if (users.length !== uniqueIds.length) {
+      throw new Error('Referee user not found');
     }
-    return null;
+    const invalid = users.find(user => !hasRole(user.role, UserRole.REFEREE));
+    if (invalid) {
+      throw new Error(`User ${invalid._id} does not have the REFEREE role`);
+    }
+
+    tournament.referees = uniqueIds.map(id => new Types.ObjectId(id));
+    await tournament.save();
+    console.log('Updated referees:', tournament.referees);
+    return tournament;
   }
 
-  // 获取排序后的选手列表
-  getSortedPlayers(tournament: any): { player: any, score: number, opponentScore: number, totalScore: number }[] {
-    // 如果是 SWISS 赛制，需要先计算选手的分数
-    if (tournament.format === TournamentFormat.SWISS) {
-      // 计算每个选手的得分和对手分
-      const scores = new Map<string, { score: number, opponentScore: number }>();
-      
-      // 初始化所有选手的分数
-      tournament.players.forEach((player: any) => {
-        scores.set(player._id.toString(), { score: 0, opponentScore: 0 });
-      });
-      
-      // 遍历所有轮次计算分数
-      tournament.rounds.forEach((round: any) => {
-        round.matches.forEach((match: any) => {
-          if (match.winner) {
-            const winnerId = match.winner._id.toString();
-            const loserId = match.player1._id.toString() === winnerId ? 
-              match.player2._id.toString() : match.player1._id.toString();
-            
-            // 更新胜者分数
-            const winnerScore = scores.get(winnerId) || { score: 0, opponentScore: 0 };
-            scores.set(winnerId, {
-              score: winnerScore.score + 2,
-              opponentScore: winnerScore.opponentScore + (scores.get(loserId)?.score || 0)
-            });
-            
-            // 更新败者分数
-            const loserScore = scores.get(loserId) || { score: 0, opponentScore: 0 };
-            scores.set(loserId, {
-              score: loserScore.score,
-              opponentScore: loserScore.opponentScore + (scores.get(winnerId)?.score || 0)
-            });
-          }
-        });
-      });
-      
-      // 转换成需要的格式
-      const playersWithScores = tournament.players.map((player: any) => {
-        const playerScore = scores.get(player._id.toString()) || { score: 0, opponentScore: 0 };
-        return {
-          player,
-          score: playerScore.score,
-          opponentScore: playerScore.opponentScore,
-          totalScore: playerScore.score  // SWISS 赛制总分就是胜场数 * 2
-        };
-      });
-      
-      // 排序：先按总分，总分相同时按直接对局结果
-      return playersWithScores.sort((a, b) => {
-        // 如果总分不同，按总分排序
-        if (Math.abs(b.totalScore - a.totalScore) > 0.001) {
-          return b.totalScore - a.totalScore;
-        }
-        
-        // 如果总分相同，查找直接对局结果
-        const headToHeadWinner = this.findHeadToHeadResult(tournament, 
-          a.player._id.toString(), 
-          b.player._id.toString()
-        );
-        
-        if (headToHeadWinner === a.player._id.toString()) {
-          return -1;  // a 排在前面
-        } else if (headToHeadWinner === b.player._id.toString()) {
-          return 1;   // b 排在前面
-        }
-        
-        // 如果没有直接对局或者是平局，按对手分排序
-        return b.opponentScore - a.opponentScore;
-      });
-    } else {
-      // McMahon 赛制使用原有的逻辑
-      const playersWithScores = tournament.playerScores.map((playerScore: any) => {
-        const player = tournament.players.find((p: any) => p._id.toString() === playerScore.player.toString());
-        
-        // McMahon赛制：总得分＝当前分数＋｛[对手积分总和÷（最高分／2）]－轮次数｝
-        const currentScore = playerScore.currentScore || 0;
-        const opponentScore = playerScore.opponentScore || 0;
-        const upperBar = tournament.upperBar || 8;  // 如果没有设置upperBar，默认使用8
-        const roundCount = tournament.rounds ? tournament.rounds.length : 0;
-        const totalScore = currentScore + ((opponentScore / (upperBar / 2)) - roundCount);
-        
-        return {
-          player,
-          score: playerScore.currentScore || 0,
-          opponentScore: playerScore.opponentScore || 0,
-          totalScore: Number(totalScore.toFixed(2))  // 确保返回数字而不是字符串
-        };
-      });
+  // 第一轮之前调整单个选手的 McMahon 分组（传入 null 则恢复按段位计算）
+  async setMcMahonOverride(tournamentId: string, playerId: string, initialScore: number | null) {
+    const tournament = await Tournament.findById(tournamentId).exec();
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.format !== TournamentFormat.MCMAHON) {
+      throw new Error('McMahon overrides are only available for McMahon tournaments');
+    }
+    if (tournament.rounds.length > 0) {
+      throw new Error('McMahon groups cannot be changed after round 1 has been generated');
+    }
+    if (!tournament.players.some(p => toString(p) === playerId)) {
+      throw new Error('Player is not in this tournament');
+    }
 
-      // 排序：先按总分，总分相同时按直接对局结果
-      return playersWithScores.sort((a, b) => {
-        // 如果总分不同，按总分排序
-        if (Math.abs(b.totalScore - a.totalScore) > 0.001) {
-          return b.totalScore - a.totalScore;
-        }
-        
-        // 如果总分相同，查找直接对局结果
-        const headToHeadWinner = this.findHeadToHeadResult(tournament, 
-          a.player._id.toString(), 
-          b.player._id.toString()
-        );
-        
-        if (headToHeadWinner === a.player._id.toString()) {
-          return -1;  // a 排在前面
-        } else if (headToHeadWinner === b.player._id.toString()) {
-          return 1;   // b 排在前面
-        }
-        
-        // 如果没有直接对局或者是平局，按对手分排序
-        return b.opponentScore - a.opponentScore;
-      });
+    const overrides = (tournament.mcmahonOverrides || []).filter(o => toString(o.player) !== playerId);
+    if (initialScore !== null) {
+      const { minimumScore = initialScore, initialScore: topScore = initialScore } = tournament;
+      if (initialScore < minimumScore || initialScore > topScore) {
+        throw new Error(`Initial score must be between ${minimumScore} and ${topScore}`);
+      }
+      overrides.push({ player: new Types.ObjectId(playerId), initialScore });
     }
+
+    tournament.mcmahonOverrides = overrides;
+    return await tournament.save();
   }
 
   private async setInitialMcMahonScores(tournament: PopulatedTournament): Promise<void> {
@@ -752,42 +719,8 @@ export class TournamentService {
     console.log("清空了playerScores数组");
 
     for (const player of tournament.players) {
-      //const rank = player.rank;
-      const rank = player.rank.toLowerCase(); //Convert to lowercase,我不认为这个问题的关键。1/9
-      let initialScore = 0;
-      console.log(`处理选手: ${player.name}, 段位: ${rank}`);
-
-      // Extract rank number and type (match both upper and lower case d/k)
-      //const rankMatch = rank.match(/(\d+)([dDkK])/);
-      const standardMatch = rank.match(/^(\d+)([dk])$/);
-      if (standardMatch) {
-      //if (rankMatch) {
-        //const [_, number, type] = rankMatch;
-        const [_, number, type] = standardMatch;
-        const rankNum = parseInt(number);
-        //const upperType = type.toUpperCase();
-        //console.log(`解析段位: 数字=${rankNum}, 类型=${upperType}`);
-
-        if (type === 'd') {
-          if (rankNum >= 5) {
-            initialScore = 6;  // 5D and above
-            console.log(`5D以上, 设置初始分为: ${initialScore}`);
-          } else {
-            initialScore = 0;  // 1D-4D
-            console.log(`1D-4D, 设置初始分为: ${initialScore}`);
-          }
-        } else if (type === 'k') {
-          if (rankNum <= 5) {
-            initialScore = -6;  // 1K-5K
-            console.log(`1K-5K, 设置初始分为: ${initialScore}`);
-          } else {
-            initialScore = -12;  // 6K and below
-            console.log(`6K以下, 设置初始分为: ${initialScore}`);
-          }
-        }
-      } else {
-        console.log(`警告: 无法解析段位 ${rank}, 使用默认分数 0`);
-      }
+      const initialScore = this.getMcMahonStartScore(player, tournament);
+      console.log(`处理选手: ${player.name}, 段位: ${player.rank}, 初始分: ${initialScore}`);
 
       tournament.playerScores.push({
         player: player._id,
@@ -798,7 +731,6 @@ export class TournamentService {
         draws: 0,
         opponents: []
       });
-      console.log(`已添加选手 ${player.name} 的分数记录: 初始分=${initialScore}`);
     }
 
     console.log("所有选手的分数设置完成，准备保存");
@@ -808,376 +740,506 @@ export class TournamentService {
   }
 
   private async generateMcMahonPairings(tournament: PopulatedTournament): Promise<IMatch[]> {
-    // 获取所有选手的当前分数和对手历史
-    const playerScores = new Map(tournament.playerScores.map(score => [
+    // 获取所有选手的当前 McMahon 分
+    const scores = new Map(tournament.playerScores.map(score => [
       score.player.toString(),
-      {
-        currentScore: score.currentScore,
-        opponents: score.opponents || []
-      }
+      score.currentScore
     ]));
 
-    // 根据当前分数对选手进行排序
-    const sortedPlayers = [...tournament.players].sort((a, b) => {
-      const scoreA = playerScores.get(a._id.toString())?.currentScore || 0;
-      const scoreB = playerScores.get(b._id.toString())?.currentScore || 0;
-      return scoreB - scoreA;  // 按分数降序排序
-    });
+    return this.pairPlayers(tournament, scores);
+  }
+
+  // 收集配对引擎需要的信息：积分、对阵历史、俱乐部、颜色和轮空记录
+  private buildPairingPlayers(tournament: PopulatedTournament, scores: Map<string, number>): IPairingPlayer[] {
+    const pairingPlayers = new Map<string, IPairingPlayer>(
+      tournament.players.map(player => [player._id.toString(), {
+        id: player._id.toString(),
+        score: scores.get(player._id.toString()) || 0,
+        opponents: [],
+        club: player.club,
+        colorBalance: 0,
+        hadBye: false,
+        // 按段位分配轮空时用段位值，未知段位按 30k
+        byeScore: tournament.byeAssignment === ByeAssignment.LOWEST_RANK
+          ? rankToValue(player.rank) ?? -29
+          : scores.get(player._id.toString()) || 0
+      }])
+    );
 
-    // 获取已经进行的对局历史
-    const playedMatches = new Map<string, Set<string>>();
     tournament.rounds.forEach(round => {
       round.matches.forEach(match => {
-        if (match.winner) {  // 只考虑已经完成的对局
-          const player1Id = match.player1.toString();
-          const player2Id = match.player2.toString();
-          
-          // 为player1添加对手
-          if (!playedMatches.has(player1Id)) {
-            playedMatches.set(player1Id, new Set<string>());
-          }
-          playedMatches.get(player1Id)!.add(player2Id);
-          
-          // 为player2添加对手
-          if (!playedMatches.has(player2Id)) {
-            playedMatches.set(player2Id, new Set<string>());
+        const player1 = pairingPlayers.get(match.player1.toString());
+        const player2 = pairingPlayers.get(match.player2.toString());
+
+        if (isByeMatch(match) || !player2) {
+          if (player1) {
+            player1.hadBye = true;
           }
-          playedMatches.get(player2Id)!.add(player1Id);
+          return;
+        }
+        // 双方弃权或未下的对局不算相遇过
+        if (!player1 || getMatchOutcome(match)?.played === false) {
+          return;
         }
+
+        player1.opponents.push(player2.id);
+        player2.opponents.push(player1.id);
+        const { black } = getMatchColors(match);
+        player1.colorBalance += black === player1.id ? 1 : -1;
+        player2.colorBalance += black === player2.id ? 1 : -1;
       });
     });
 
-    console.log("已对阵历史:", Array.from(playedMatches.entries()).map(([id, opponents]) => {
-      const player = tournament.players.find(p => p._id.toString() === id);
-      return `${player?.name}: ${Array.from(opponents).map(oppId => 
-        tournament.players.find(p => p._id.toString() === oppId)?.name
-      ).join(', ')}`;
-    }));
+    return Array.from(pairingPlayers.values());
+  }
 
-    const matches: IMatch[] = [];
-    const used = new Set<string>();
+  // 使用配对引擎生成本轮对局
+  private pairPlayers(tournament: PopulatedTournament, scores: Map<string, number>, shuffle: boolean = false): IMatch[] {
+    // 只编排本轮签到（未标记缺席）的选手
+    const roundNumber = getNextRoundNumber(tournament);
+    const pairingPlayers = this.buildPairingPlayers(tournament, scores)
+      .filter(player => isPresent(tournament, player.id, roundNumber));
+    if (pairingPlayers.length < 2) {
+      throw new Error(`At least 2 players must be present to pair round ${roundNumber}`);
+    }
+    console.log(`第 ${roundNumber} 轮出席 ${pairingPlayers.length}/${tournament.players.length} 人`);
+    if (shuffle) {
+      pairingPlayers.sort(() => Math.random() - 0.5);
+    }
+    const pairings = this.pairingEngine.pair(pairingPlayers, { repeatByes: tournament.repeatByes });
+
+    const playerNames = new Map(tournament.players.map(p => [p._id.toString(), p.name]));
+    console.log('本轮配对:', pairings.map(pairing =>
+      `${playerNames.get(pairing.player1)} vs ${pairing.player2 ? playerNames.get(pairing.player2) : '轮空'}`
+    ));
+
+    return pairings.map(pairing => {
+      if (!pairing.player2) {
+        return createByeMatch(pairing.player1, scores.get(pairing.player1) || 0);
+      }
+      return {
+        player1: new Types.ObjectId(pairing.player1),
+        player2: new Types.ObjectId(pairing.player2),
+        winner: null,
+        result: '',
+        player1Score: scores.get(pairing.player1) || 0,
+        player2Score: scores.get(pairing.player2) || 0
+      };
+    });
+  }
 
-    // 生成对局
-    for (let i = 0; i < sortedPlayers.length && used.size < sortedPlayers.length - 1; i++) {
-      const player1 = sortedPlayers[i];
-      if (used.has(player1._id.toString())) {
-        console.log(`跳过 ${player1.name} - 已经被配对`);
+  // 瑞士制、McMahon：本轮没有编排的选手按请假或退赛记录得分
+  private buildAbsences(tournament: PopulatedTournament, matches: IMatch[], roundNumber: number): IRoundAbsence[] {
+    // 团体赛的替补不算缺席
+    if ((tournament.format !== TournamentFormat.SWISS && tournament.format !== TournamentFormat.MCMAHON)
+      || isTeamEvent(tournament)) {
+      return [];
+    }
+    const paired = new Set(matches.flatMap(match => [refId(match.player1), refId(match.player2)]));
+    return tournament.players
+      .filter(player => !paired.has(player._id.toString()))
+      .map(player => getAbsence(tournament, player._id.toString(), roundNumber));
+  }
+
+  // 循环赛、淘汰赛的对阵是固定的：一方已退赛时判另一方弃权胜，双方都退赛时判双方弃权
+  private async forfeitWithdrawnMatches(tournament: PopulatedTournament, roundNumber: number): Promise<number> {
+    if (!tournament.withdrawals || tournament.withdrawals.length === 0) {
+      return 0;
+    }
+    const round = tournament.rounds.find(r => r.roundNumber === roundNumber);
+    let forfeited = 0;
+    for (const match of round?.matches || []) {
+      if (isByeMatch(match) || hasResult(match)) {
+        continue;
+      }
+      const player1Id = refId(match.player1)!;
+      const player2Id = refId(match.player2)!;
+      const player1Out = Boolean(findWithdrawal(tournament, player1Id, roundNumber));
+      const player2Out = Boolean(findWithdrawal(tournament, player2Id, roundNumber));
+      if (!player1Out && !player2Out) {
         continue;
       }
 
-      console.log(`\n为 ${player1.name} 寻找对手...`);
-      const player1Id = player1._id.toString();
-      const player1Opponents = playedMatches.get(player1Id) || new Set<string>();
-
-      // 寻找最近的未配对且未对战过的选手
-      for (let j = i + 1; j < sortedPlayers.length; j++) {
-        const player2 = sortedPlayers[j];
-        const player2Id = player2._id.toString();
-        
-        if (used.has(player2Id)) {
-          console.log(`  跳过 ${player2.name} - 已经被配对`);
+      let input: IMatchResultInput;
+      if (player1Out && player2Out) {
+        // 淘汰赛必须分出胜负，留给裁判处理
+        if (match.bracketCode) {
           continue;
         }
+        input = { resultType: MatchResultType.DOUBLE_FORFEIT };
+      } else {
+        input = { resultType: MatchResultType.FORFEIT_WIN, winnerId: player1Out ? player2Id : player1Id };
+      }
+      console.log('退赛选手的对局判弃权:', { player1Id, player2Id, ...input });
+      await this.updateTournamentResults(tournament._id.toString(), toString(match._id!), input);
+      forfeited++;
+    }
+    return forfeited;
+  }
 
-        // 检查是否已经对战过
-        const hasPlayed = player1Opponents.has(player2Id);
-        console.log(`  检查 ${player2.name} - ${hasPlayed ? '已对阵过' : '未对阵过'}`);
-
-        if (!hasPlayed) {  // 如果还没有对战过
-          console.log(`  配对成功: ${player1.name} vs ${player2.name}`);
-          matches.push({
-            player1: player1._id,
-            player2: player2._id,
-            winner: null,
-            result: '',
-            player1Score: playerScores.get(player1Id)?.currentScore || 0,
-            player2Score: playerScores.get(player2Id)?.currentScore || 0
-          });
-
-          used.add(player1Id);
-          used.add(player2Id);
-          break;
-        }
+  // 按赛事的让子规则，根据双方段位给每局标注让子数和贴目
+  private applyHandicaps(tournament: PopulatedTournament, matches: IMatch[]): void {
+    const ranks = new Map(tournament.players.map(p => [p._id.toString(), p.rank]));
+    for (const match of matches) {
+      if (isByeMatch(match)) {
+        continue;
       }
+      const { handicap, komi } = calculateHandicap(
+        ranks.get(refId(match.player1)!) || '',
+        ranks.get(refId(match.player2)!) || '',
+        tournament
+      );
+      match.handicap = handicap;
+      match.komi = komi;
+    }
+  }
 
-      // 如果没有找到未对战过的选手，则与最近的未配对选手配对
-      if (!used.has(player1Id)) {
-        console.log(`  ${player1.name} 没有找到未对战过的选手，尝试强制配对`);
-        for (let j = i + 1; j < sortedPlayers.length; j++) {
-          const player2 = sortedPlayers[j];
-          const player2Id = player2._id.toString();
-          
-          if (!used.has(player2Id)) {
-            console.log(`  强制配对: ${player1.name} vs ${player2.name}`);
-            matches.push({
-              player1: player1._id,
-              player2: player2._id,
-              winner: null,
-              result: '',
-              player1Score: playerScores.get(player1Id)?.currentScore || 0,
-              player2Score: playerScores.get(player2Id)?.currentScore || 0
-            });
-
-            used.add(player1Id);
-            used.add(player2Id);
-            break;
-          }
-        }
+  // 淘汰赛：第一轮生成签表，之后根据上一轮的胜者推进签表
+  private generateEliminationPairings(tournament: PopulatedTournament, roundNumber: number): IMatch[] {
+    if (!tournament.bracket) {
+      const seeding = (tournament.seeding || []).map(id => refId(id)!);
+      tournament.bracket = tournament.format === TournamentFormat.DOUBLEELIMINATION
+        ? this.bracketService.createDoubleEliminationBracket(tournament.players, tournament.bracketReset, seeding)
+        : this.bracketService.createSingleEliminationBracket(tournament.players, tournament.thirdPlaceMatch, seeding);
+    } else {
+      const previousRound = tournament.rounds[tournament.rounds.length - 1];
+      if (previousRound) {
+        this.bracketService.applyRoundResults(tournament.bracket, previousRound);
       }
     }
+    tournament.markModified('bracket');
 
-    // 处理轮空选手
-    const remainingPlayer = sortedPlayers.find(p => !used.has(p._id.toString()));
-    if (remainingPlayer) {
-      matches.push({
-        player1: remainingPlayer._id,
-        player2: remainingPlayer._id,  // 自己对阵自己表示轮空
-        winner: remainingPlayer._id,   // 轮空自动获胜
-        result: 'BYE',
-        player1Score: playerScores.get(remainingPlayer._id.toString())?.currentScore || 0,
-        player2Score: playerScores.get(remainingPlayer._id.toString())?.currentScore || 0
-      });
+    if (this.bracketService.isComplete(tournament.bracket)) {
+      throw new Error('Elimination bracket is already complete');
+    }
 
-      // 轮空选手自动获胜，得1分
-      const score = playerScores.get(remainingPlayer._id.toString());
-      if (score) {
-        score.currentScore += 1;
-      }
+    const matches = this.bracketService.scheduleReadyMatches(tournament.bracket, roundNumber);
+    if (matches.length === 0) {
+      throw new Error('No bracket matches are ready to be played');
     }
 
+    console.log('淘汰赛第', roundNumber, '轮对局:', matches.map(m => m.bracketCode));
     return matches;
   }
 
+  // 循环赛：开赛时固定 Berger 序号，之后每轮按 Berger 表编排，黑白由表决定
   private async generateRoundRobinPairings(tournament: PopulatedTournament): Promise<IMatch[]> {
-    const players = tournament.players;
-    const totalRounds = players.length - 1; // 总轮数
-    const currentRoundNumber = tournament.rounds.length; // 当前是第几轮
+    if (tournament.rounds.length === 0) {
+      const numbers = this.bergerService.seed(tournament.players, (tournament.seeding || []).map(id => refId(id)!));
+      tournament.seeding = numbers;
+      console.log('循环赛 Berger 序号:', numbers.map(id => tournament.players.find(p => p._id.equals(id))?.name));
+    }
+    const seeding = (tournament.seeding || []).map(id => refId(id)!);
 
-    if (currentRoundNumber >= totalRounds) {
+    const roundNumber = getNextRoundNumber(tournament);
+    if (roundNumber > this.bergerService.getRoundCount(seeding.length, tournament.doubleRoundRobin)) {
       throw new Error('All rounds have been completed');
     }
 
-    // 如果玩家数量为奇数，添加一个轮空玩家
-    const allPlayers = [...players];
-    if (players.length % 2 !== 0) {
-      allPlayers.push({
-        _id: new Types.ObjectId(),
-        name: 'BYE',
-        rank: 'N/A',
-        wins: 0,
-        losses: 0,
-        draws: 0
-      } as PlayerDocument);
-    }
+    const round = this.bergerService.getRound(seeding, roundNumber, tournament.doubleRoundRobin);
+    return round.pairings.map(pairing => {
+      if (!pairing.white) {
+        return createByeMatch(pairing.black);
+      }
+      const black = new Types.ObjectId(pairing.black);
+      const white = new Types.ObjectId(pairing.white);
+      return {
+        player1: black,
+        player2: white,
+        black,
+        white,
+        winner: null,
+        result: ''
+      } as IMatch;
+    });
+  }
 
-    const n = allPlayers.length;
+  // 分组赛：每组只用本组的选手和对局，按循环赛或瑞士制单独编排，各组同一轮并行进行
+  private async generateGroupPairings(tournament: PopulatedTournament): Promise<IMatch[]> {
+    tournament.groupAssignments = resolveGroupAssignments(tournament.players, tournament);
+    const roundNumber = getNextRoundNumber(tournament);
     const matches: IMatch[] = [];
+    const seeding: MongoId[] = [];
 
-    // 使用圆桌配对算法
-    // 固定第一个玩家，其他玩家围绕圆桌旋转
-    const fixed = allPlayers[0];
-    const rotating = allPlayers.slice(1);
-    
-    // 根据当前轮数旋转玩家
-    for (let i = 0; i < currentRoundNumber; i++) {
-      rotating.unshift(rotating.pop()!);
-    }
-
-    // 生成本轮对局
-    matches.push({
-      player1: fixed,
-      player2: rotating[0],
-      winner: undefined,
-      result: ''
-    });
+    for (const group of tournament.groups!) {
+      const view = this.groupView(tournament, group);
+      if (view.players.length < 2) {
+        throw new Error(`Group ${group} needs at least 2 players`);
+      }
+      // 人数较少的组先打完，之后的轮次不再编排
+      if (tournament.format === TournamentFormat.ROUNDROBIN
+        && roundNumber > this.bergerService.getRoundCount(view.players.length, tournament.doubleRoundRobin)) {
+        seeding.push(...(view.seeding || []));
+        continue;
+      }
 
-    // 配对其他玩家
-    for (let i = 1; i < n/2; i++) {
-      matches.push({
-        player1: rotating[i],
-        player2: rotating[n-1-i],
-        winner: undefined,
-        result: ''
+      const groupMatches = tournament.format === TournamentFormat.ROUNDROBIN
+        ? await this.generateRoundRobinPairings(view)
+        : await this.generateSwissPairings(view);
+      groupMatches.forEach(match => {
+        match.group = group;
       });
+      matches.push(...groupMatches);
+      seeding.push(...(view.seeding || []));
     }
 
-    // 过滤掉包含轮空玩家的对局
-    return matches.filter(match => 
-      match.player1.name !== 'BYE' && 
-      (match.player2.name !== 'BYE' || match.result === 'BYE')
-    );
+    if (matches.length === 0) {
+      throw new Error('All rounds have been completed');
+    }
+    if (tournament.format === TournamentFormat.ROUNDROBIN) {
+      tournament.seeding = seeding;
+    }
+    console.log('分组赛第', roundNumber, '轮:', tournament.groups!.map(group =>
+      `${group} ${matches.filter(match => match.group === group).length} 局`
+    ));
+    return matches;
   }
 
-  private async generateSwissPairings(tournament: PopulatedTournament): Promise<IMatch[]> {
-    const players = tournament.players;
-    const matches: IMatch[] = [];
+  // 一个组的视图：只有本组的选手和本组的对局，其余设置与整个比赛相同
+  private groupView(tournament: PopulatedTournament, group: string): PopulatedTournament {
+    const members = new Set(getGroupMembers(tournament, group));
+    const doc = tournament.toObject();
+    return {
+      ...doc,
+      players: doc.players.filter((player: PlayerDocument) => members.has(player._id.toString())),
+      rounds: doc.rounds.map((round: IRound) => ({
+        ...round,
+        matches: round.matches.filter(match => match.group === group)
+      })),
+      seeding: (doc.seeding || []).filter((id: MongoId) => members.has(refId(id)!))
+    } as PopulatedTournament;
+  }
 
-    // 第一轮：随机配对
-    if (tournament.rounds.length === 0) {
-      // 随机打乱玩家顺序
-      const shuffledPlayers = [...players].sort(() => Math.random() - 0.5);
+  // 团体赛：把每队当作一名选手，用循环赛或瑞士制的编排方法配对队伍，
+  // 再按各队本轮的出场名单生成每台的个人对局
+  private async generateTeamPairings(
+    tournament: PopulatedTournament
+  ): Promise<{ teamMatches: ITeamMatch[]; matches: IMatch[] }> {
+    if ((tournament.teams || []).length < 2) {
+      throw new Error('At least 2 teams are required');
+    }
+    await tournament.populate('teams.team', 'name');
+    const roundNumber = getNextRoundNumber(tournament);
+    const view = this.teamView(tournament);
+    const pairings = tournament.format === TournamentFormat.ROUNDROBIN
+      ? await this.generateRoundRobinPairings(view)
+      : await this.generateSwissPairings(view);
+    if (tournament.format === TournamentFormat.ROUNDROBIN) {
+      tournament.seeding = view.seeding;
+    }
 
-      // 两两配对
-      for (let i = 0; i < shuffledPlayers.length - 1; i += 2) {
-        matches.push({
-          player1: shuffledPlayers[i],
-          player2: shuffledPlayers[i + 1],
-          winner: undefined,
-          result: ''
-        });
-      }
+    // 本轮出场名单：请假、退赛的队员由替补顶上
+    const players = new Map(tournament.players.map(player => [player._id.toString(), player]));
+    const lineups = new Map(tournament.teams!.map(entry => [
+      refId(entry.team)!,
+      selectLineup(
+        entry.roster
+          .filter(id => isPresent(tournament, refId(id)!, roundNumber))
+          .map(id => players.get(refId(id)!))
+          .filter((player): player is PlayerDocument => Boolean(player)),
+        tournament.boardCount!
+      )
+    ]));
 
-      // 如果玩家数量为奇数，最后一名轮空
-      if (shuffledPlayers.length % 2 !== 0) {
-        const byePlayer = shuffledPlayers[shuffledPlayers.length - 1];
-        matches.push({
-          player1: byePlayer,
-          player2: {
-            _id: new Types.ObjectId(),
-            name: 'BYE',
-            rank: 'N/A',
-            wins: 0,
-            losses: 0,
-            draws: 0
-          } as PlayerDocument,
-          winner: byePlayer,
-          result: 'BYE'
-        });
-      }
-    } else {
-      // 后续轮次：按照积分配对
-      const playerScores = new Map<string, number>();
-      const playedPairs = new Set<string>();
-      
-      // 计算每个玩家的积分和已对阵记录
-      for (const round of tournament.rounds) {
-        for (const match of round.matches) {
-          // 记录已对阵的选手对
-          const pair = `${match.player1._id}-${match.player2._id}`;
-          const reversePair = `${match.player2._id}-${match.player1._id}`;
-          playedPairs.add(pair);
-          playedPairs.add(reversePair);
-
-          if (match.winner) {
-            const winnerId = match.winner._id.toString();
-            playerScores.set(winnerId, (playerScores.get(winnerId) || 0) + 2);
-          } else if (match.result === 'DRAW') {
-            const player1Id = match.player1._id.toString();
-            const player2Id = match.player2._id.toString();
-            playerScores.set(player1Id, (playerScores.get(player1Id) || 0) + 1);
-            playerScores.set(player2Id, (playerScores.get(player2Id) || 0) + 1);
-          }
-        }
+    const teamMatches: ITeamMatch[] = [];
+    const matches: IMatch[] = [];
+    for (const pairing of pairings) {
+      const team1 = refId(pairing.player1)!;
+      if (isByeMatch(pairing)) {
+        teamMatches.push({ _id: new Types.ObjectId(), team1, team2: null, lineup1: [], lineup2: [] });
+        continue;
       }
-
-      // 为每个玩家初始化积分（如果还没有）
-      players.forEach(player => {
-        if (!playerScores.has(player._id.toString())) {
-          playerScores.set(player._id.toString(), 0);
+      const team2 = refId(pairing.player2)!;
+      const teamMatch: ITeamMatch = {
+        _id: new Types.ObjectId(),
+        team1,
+        team2,
+        lineup1: lineups.get(team1)!,
+        lineup2: lineups.get(team2)!
+      };
+      teamMatches.push(teamMatch);
+
+      teamMatch.lineup1.forEach((player1, index) => {
+        const player2 = teamMatch.lineup2[index];
+        if (!player1 || !player2) {
+          return;
         }
+        // 第一队在奇数台执黑，偶数台执白
+        const [black, white] = (index % 2 === 0 ? [player1, player2] : [player2, player1]).map(id => toObjectId(id));
+        matches.push({
+          player1: toObjectId(player1),
+          player2: toObjectId(player2),
+          black,
+          white,
+          winner: null,
+          result: '',
+          teamMatch: teamMatch._id,
+          board: index + 1
+        } as IMatch);
       });
+    }
 
-      // 按积分排序玩家
-      const sortedPlayers = [...players].sort((a, b) => {
-        const scoreA = playerScores.get(a._id.toString()) || 0;
-        const scoreB = playerScores.get(b._id.toString()) || 0;
-        return scoreB - scoreA;
-      });
-
-      const pairedPlayers = new Set<string>();
-      const tempMatches: IMatch[] = [];
+    const teamNames = new Map(view.players.map(team => [team._id.toString(), team.name]));
+    console.log('团体赛第', roundNumber, '轮:', teamMatches.map(teamMatch => teamMatch.team2
+      ? `${teamNames.get(refId(teamMatch.team1)!)} vs ${teamNames.get(refId(teamMatch.team2)!)}`
+      : `${teamNames.get(refId(teamMatch.team1)!)} 轮空`
+    ));
+    return { teamMatches, matches };
+  }
 
-      // 为每个未配对的玩家寻找最合适的对手
-      for (let i = 0; i < sortedPlayers.length; i++) {
-        const player1 = sortedPlayers[i];
-        const player1Id = player1._id.toString();
-        
-        if (pairedPlayers.has(player1Id)) continue;
+  // 团体赛的队伍视图：每队是一名"选手"，段位和等级分取主力队员的平均值；
+  // 每场两队对抗是一局，胜负由各台结果得出
+  private teamView(tournament: PopulatedTournament): PopulatedTournament {
+    const doc = tournament.toObject();
+    const players = new Map(tournament.players.map(player => [player._id.toString(), player]));
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    const teams = tournament.teams!.map(entry => {
+      const starters = entry.roster
+        .map(id => players.get(refId(id)!))
+        .filter((player): player is PlayerDocument => Boolean(player))
+        .sort(compareByStrength)
+        .slice(0, tournament.boardCount!);
+      return {
+        _id: toObjectId(refId(entry.team)!),
+        name: getTeamName(entry.team),
+        rank: valueToRank(Math.round(average(starters.map(player => rankToValue(player.rank) ?? -29)))),
+        rating: average(starters.map(player => player.rating || 0))
+      };
+    });
 
-        let bestOpponent: PlayerDocument | null = null;
-        let minScoreDiff = Infinity;
+    return {
+      ...doc,
+      players: teams,
+      rounds: doc.rounds.map((round: IRound) => ({
+        ...round,
+        matches: (round.teamMatches || []).map(teamMatch => this.toTeamResult(teamMatch, round.matches))
+      })),
+      // 队伍总是参加编排，队员的请假、退赛在出场名单中处理
+      requireCheckIn: false,
+      attendance: [],
+      withdrawals: [],
+      lateEntries: []
+    } as unknown as PopulatedTournament;
+  }
 
-        // 寻找积分差最小且未对阵过的对手
-        for (let j = 0; j < sortedPlayers.length; j++) {
-          const player2 = sortedPlayers[j];
-          const player2Id = player2._id.toString();
+  // 把两队对抗表示成一局：局分多的队伍为胜者，局分相同为和棋，尚未下完时没有结果
+  private toTeamResult(teamMatch: ITeamMatch, matches: IMatch[]): IMatch {
+    if (!teamMatch.team2) {
+      return createByeMatch(refId(teamMatch.team1)!);
+    }
+    const team1 = toObjectId(refId(teamMatch.team1)!);
+    const team2 = toObjectId(refId(teamMatch.team2)!);
+    const outcome = getTeamMatchOutcome(teamMatch, getBoardMatches(matches, teamMatch));
+    return {
+      player1: team1,
+      player2: team2,
+      winner: outcome?.player1 === 'WIN' ? team1 : outcome?.player2 === 'WIN' ? team2 : null,
+      resultType: outcome?.player1 === 'DRAW' ? MatchResultType.JIGO : null,
+      result: '',
+      player1Score: 0,
+      player2Score: 0
+    };
+  }
 
-          if (player1Id === player2Id || pairedPlayers.has(player2Id)) continue;
+  // 循环赛完整赛程：开赛前按当前选手预览，开赛后按固定的 Berger 序号公布
+  async getRoundRobinSchedule(tournamentId: string): Promise<IRoundRobinSchedule> {
+    const tournament = await Tournament.findById(tournamentId)
+      .populate<{ players: PlayerDocument[] }>('players')
+      .exec() as PopulatedTournament | null;
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.format !== TournamentFormat.ROUNDROBIN) {
+      throw new Error('Only round robin tournaments have a full schedule');
+    }
 
-          const pair = `${player1._id}-${player2._id}`;
-          if (playedPairs.has(pair)) continue;
+    const published = tournament.rounds.length > 0;
+    if (isGrouped(tournament)) {
+      return this.getGroupSchedule(tournament, published);
+    }
+    // 团体赛的赛程是队伍之间的对阵
+    const participants = isTeamEvent(tournament) ? this.teamView(tournament).players : tournament.players;
+    const seeding = (published
+      ? tournament.seeding!
+      : this.bergerService.seed(participants, (tournament.seeding || []).map(id => refId(id)!))
+    ).map(id => refId(id)!);
+
+    return {
+      published,
+      doubleRoundRobin: Boolean(tournament.doubleRoundRobin),
+      seeding,
+      rounds: this.bergerService.createSchedule(seeding, tournament.doubleRoundRobin)
+    };
+  }
 
-          const score1 = playerScores.get(player1Id) || 0;
-          const score2 = playerScores.get(player2Id) || 0;
-          const scoreDiff = Math.abs(score1 - score2);
+  // 分组循环赛的赛程：各组同一轮的对局合并在一起，台号连续编排
+  private getGroupSchedule(tournament: PopulatedTournament, published: boolean): IRoundRobinSchedule {
+    if (!published) {
+      tournament.groupAssignments = resolveGroupAssignments(tournament.players, tournament);
+    }
+    const rounds = new Map<number, IBergerRound>();
+    const seeding: string[] = [];
+
+    for (const group of tournament.groups!) {
+      const view = this.groupView(tournament, group);
+      const groupSeeding = (published
+        ? view.seeding!
+        : this.bergerService.seed(view.players, (view.seeding || []).map(id => refId(id)!))
+      ).map(id => refId(id)!);
+      seeding.push(...groupSeeding);
+
+      for (const round of this.bergerService.createSchedule(groupSeeding, tournament.doubleRoundRobin)) {
+        const merged = rounds.get(round.roundNumber) || { roundNumber: round.roundNumber, cycle: round.cycle, pairings: [] };
+        merged.pairings.push(...round.pairings.map(pairing => ({
+          ...pairing,
+          board: merged.pairings.length + pairing.board,
+          group
+        })));
+        rounds.set(round.roundNumber, merged);
+      }
+    }
 
-          if (scoreDiff < minScoreDiff) {
-            minScoreDiff = scoreDiff;
-            bestOpponent = player2;
-          }
-        }
+    return {
+      published,
+      doubleRoundRobin: Boolean(tournament.doubleRoundRobin),
+      seeding,
+      rounds: Array.from(rounds.values()).sort((a, b) => a.roundNumber - b.roundNumber)
+    };
+  }
 
-        // 如果找到合适的对手，创建配对
-        if (bestOpponent) {
-          tempMatches.push({
-            player1: player1,
-            player2: bestOpponent,
-            winner: undefined,
-            result: ''
-          });
-          pairedPlayers.add(player1Id);
-          pairedPlayers.add(bestOpponent._id.toString());
-        }
-      }
+  private async generateSwissPairings(tournament: PopulatedTournament): Promise<IMatch[]> {
+    // 补报名选手从补给的分数开始
+    const scores = new Map<string, number>(
+      tournament.players.map(player => [player._id.toString(), getEntryPoints(tournament, player._id.toString())])
+    );
 
-      // 处理剩余未配对的玩家
-      const remainingPlayers = players.filter(p => !pairedPlayers.has(p._id.toString()));
-      
-      // 如果还有未配对的玩家，强制配对（即使已经对阵过）
-      for (let i = 0; i < remainingPlayers.length - 1; i += 2) {
-        tempMatches.push({
-          player1: remainingPlayers[i],
-          player2: remainingPlayers[i + 1],
-          winner: undefined,
-          result: ''
-        });
+    // 计算每个玩家的积分
+    for (const round of tournament.rounds) {
+      for (const absence of round.absences || []) {
+        const playerId = refId(absence.player)!;
+        scores.set(playerId, (scores.get(playerId) || 0) + (absence.points || 0));
       }
-
-      // 如果还有单个未配对的玩家，安排轮空
-      if (remainingPlayers.length % 2 !== 0) {
-        const byePlayer = remainingPlayers[remainingPlayers.length - 1];
-        tempMatches.push({
-          player1: byePlayer,
-          player2: {
-            _id: new Types.ObjectId(),
-            name: 'BYE',
-            rank: 'N/A',
-            wins: 0,
-            losses: 0,
-            draws: 0
-          } as PlayerDocument,
-          winner: byePlayer,
-          result: 'BYE'
-        });
+      for (const match of round.matches) {
+        const outcome = getMatchOutcome(match);
+        if (!outcome) {
+          continue;
+        }
+        const player1Id = match.player1.toString();
+        const player2Id = match.player2.toString();
+        if (isByeMatch(match)) {
+          scores.set(player1Id, (scores.get(player1Id) || 0) + getByePoints(tournament));
+          continue;
+        }
+        scores.set(player1Id, (scores.get(player1Id) || 0) + outcomePoints(outcome.player1));
+        if (player2Id !== player1Id) {
+          scores.set(player2Id, (scores.get(player2Id) || 0) + outcomePoints(outcome.player2));
+        }
       }
-
-      // 按照分数和排序最终的对局列表（高分对局在前）
-      matches.push(...tempMatches.sort((a, b) => {
-        const aScore = Math.max(
-          playerScores.get(a.player1._id.toString()) || 0,
-          playerScores.get(a.player2._id.toString()) || 0
-        );
-        const bScore = Math.max(
-          playerScores.get(b.player1._id.toString()) || 0,
-          playerScores.get(b.player2._id.toString()) || 0
-        );
-        return bScore - aScore;
-      }));
     }
 
-    return matches.filter(match => 
-      match.player1.name !== 'BYE' && 
-      (match.player2.name !== 'BYE' || match.result === 'BYE')
-    );
+    // 第一轮：所有人积分相同，随机配对
+    return this.pairPlayers(tournament, scores, tournament.rounds.length === 0);
   }
 }
@@ -0,0 +1,59 @@
+import { Types } from 'mongoose';
+import { UserService } from './user.service';
+import { AuthService } from './auth.service';
+import User from '../models/user.model';
+
+const userService = new UserService();
+const authService = new AuthService();
+
+// 客户端伪造的关联选手和比赛记录
+const spoofedData = () => ({
+  name: 'Li Wei',
+  email: 'liwei@example.com',
+  password: 'secret1',
+  age: 30,
+  rank: '1d',
+  club: 'Go Club',
+  role: 'ADMIN',
+  player: new Types.ObjectId().toString(),
+  tournaments: [new Types.ObjectId().toString()]
+});
+
+describe('UserService', () => {
+  let save: jest.SpyInstance;
+
+  beforeEach(() => {
+    save = jest.spyOn(User.prototype, 'save').mockImplementation(function (this: any) {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ignores a spoofed player and tournaments when creating a user', async () => {
+    const user = await userService.createUser(spoofedData() as any);
+    expect(save).toHaveBeenCalled();
+    expect(user.player).toBeNull();
+    expect(user.tournaments).toEqual([]);
+    expect(user.role).toBe('PLAYER');
+    expect(user.club).toBe('Go Club');
+  });
+
+  it('ignores a spoofed player and tournaments when registering', async () => {
+    jest.spyOn(AuthService.prototype as any, 'issueTokens').mockResolvedValue({ token: 't', refreshToken: 'r', expiresIn: 900 });
+    const { user } = await authService.register(spoofedData() as any);
+    expect(user.player).toBeNull();
+    expect(user.tournaments).toEqual([]);
+    expect(user.role).toBe('PLAYER');
+  });
+
+  it('only updates profile fields', async () => {
+    const update = jest.spyOn(User, 'findByIdAndUpdate').mockReturnValue({ select: () => Promise.resolve(null) } as any);
+    await userService.updateUser(new Types.ObjectId().toString(), { ...spoofedData(), name: 'Wang Fang' } as any);
+    const { $set } = update.mock.calls[0][1] as any;
+    expect(Object.keys($set).sort()).toEqual(['age', 'club', 'name', 'rank']);
+    expect($set.name).toBe('Wang Fang');
+  });
+});
@@ -1,11 +1,18 @@
 import User from '../models/user.model';
-import { IUser, IUserCreate, IUserUpdate, IUserResponse } from '../types/user.types';
+import Player from '../models/player.model';
+import Tournament from '../models/tournament.model';
+import { IUser, IUserCreate, IUserUpdate, IUserResponse, UserRole } from '../types/user.types';
+import { TournamentStatus } from '../types/tournament.types';
 import { FilterQuery } from 'mongoose';
+import { pickNewUser, pickUserProfile } from '../utils/user.utils';
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
 
 export class UserService {
   // Create new user
   async createUser(userData: IUserCreate): Promise<IUserResponse> {
-    const user = new User(userData);
+    // 角色只能由管理员修改，选手资料通过认领关联
+    const user = new User(pickNewUser(userData));
     await user.save();
     return user.toJSON();
   }
@@ -42,15 +49,32 @@ export class UserService {
 
   // Update user
   async updateUser(id: string, updates: IUserUpdate): Promise<IUserResponse | null> {
+    const data = pickUserProfile(updates);
     const user = await User.findByIdAndUpdate(
       id,
-      { $set: updates },
+      { $set: data },
       { new: true, runValidators: true }
     ).select('-password');
+
+    // 段位、俱乐部同步到关联的选手资料
+    if (user && user.player && (data.rank !== undefined || data.club !== undefined)) {
+      await this.syncPlayerProfile(user);
+    }
     
     return user ? user.toJSON() : null;
   }
 
+  // Change a user's role (admin only)
+  async setRole(id: string, role: UserRole): Promise<IUserResponse | null> {
+    const user = await User.findByIdAndUpdate(
+      id,
+      { $set: { role } },
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    return user ? user.toJSON() as IUserResponse : null;
+  }
+
   // Delete user
   async deleteUser(id: string): Promise<boolean> {
     const result = await User.findByIdAndDelete(id);
@@ -97,4 +121,103 @@ export class UserService {
 
     return user ? user.toJSON() : null;
   }
+
+  // Get the player profile linked to a user
+  async getLinkedPlayer(userId: string) {
+    const user = await User.findById(userId).select('player');
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user.player ? await Player.findById(user.player) : null;
+  }
+
+  // 关联选手资料：传入 playerId 认领已有的选手，否则按用户信息新建选手。
+  // 用户自己认领时姓名必须一致，姓名不同时由裁判长确认（confirmed）
+  async linkPlayer(userId: string, playerId?: string, confirmed: boolean = false) {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.player) {
+      throw new Error('User already has a player profile');
+    }
+
+    let player;
+    if (playerId) {
+      player = await Player.findById(playerId);
+      if (!player) {
+        throw new Error('Player not found');
+      }
+      if (player.user && player.user.toString() !== userId) {
+        throw new Error('Player is already linked to another user');
+      }
+      if (!confirmed && normalizeName(player.name) !== normalizeName(user.name)) {
+        throw new Error('Player name does not match your profile, ask a tournament director to confirm the claim');
+      }
+    } else {
+      const existingPlayer = await Player.findOne({ name: user.name });
+      if (existingPlayer) {
+        throw new Error('A player with this name already exists, claim it with playerId');
+      }
+      player = new Player({
+        name: user.name,
+        rank: user.rank,
+        club: user.club,
+        rating: 1500,
+        wins: 0,
+        losses: 0,
+        draws: 0
+      });
+    }
+
+    // 认领已有选手时以选手资料的段位为准（比赛编排使用），并合并双方的比赛记录
+    player.user = user._id;
+    if (!player.club && user.club) {
+      player.club = user.club;
+    }
+    const tournamentIds = new Set([
+      ...player.tournaments.map(id => id.toString()),
+      ...user.tournaments.map(id => id.toString())
+    ]);
+    player.tournaments = Array.from(tournamentIds);
+    await player.save();
+
+    user.player = player._id.toString();
+    user.rank = player.rank;
+    user.tournaments = Array.from(tournamentIds);
+    await user.save();
+    console.log('Linked user to player:', user.email, player.name);
+
+    return player;
+  }
+
+  // Unlink the player profile from a user (the player and its history are kept)
+  async unlinkPlayer(userId: string): Promise<boolean> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!user.player) {
+      return false;
+    }
+
+    await Player.findByIdAndUpdate(user.player, { $set: { user: null } });
+    user.player = null;
+    await user.save();
+    return true;
+  }
+
+  // 选手正在进行的比赛中段位决定 McMahon 分和让子，这时不同步段位，由裁判长修改
+  private async syncPlayerProfile(user: { player?: any; rank: string; club?: string }) {
+    const playing = await Tournament.exists({ players: user.player, status: TournamentStatus.ONGOING });
+    if (playing) {
+      console.log('选手正在比赛中，不同步段位:', user.player.toString());
+    }
+    await Player.findByIdAndUpdate(user.player, {
+      $set: {
+        ...(!playing && { rank: user.rank }),
+        ...(user.club && { club: user.club })
+      }
+    });
+  }
 }
@@ -0,0 +1,45 @@
+import { Types } from 'mongoose';
+import { IUserCreate, IUserResponse, UserRole } from './user.types';
+
+// 访问令牌中携带的信息
+export interface ITokenPayload {
+  id: string;
+  email: string;
+}
+
+// 已登录用户，role 由权限中间件从数据库读取
+export interface IAuthUser extends ITokenPayload {
+  role?: UserRole;
+}
+
+// 对某个比赛的操作权限
+export enum TournamentAccess {
+  MANAGE = 'MANAGE',   // 修改比赛、编排、删除轮次、结束比赛
+  SCORE = 'SCORE'      // 录入对局结果
+}
+
+export interface IRefreshToken {
+  user: Types.ObjectId;
+  tokenHash: string;        // 只保存刷新令牌的哈希值
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedBy?: string | null;  // 轮换后新令牌的哈希值
+  createdAt?: Date;
+}
+
+export interface IAuthTokens {
+  token: string;            // 访问令牌（JWT）
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface IAuthResponse extends IAuthTokens {
+  user: IUserResponse;
+}
+
+export interface ILoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface IRegisterData extends IUserCreate {}
@@ -0,0 +1,21 @@
+// Berger 表中的一台对局：black 为表中先列出的一方；white 为 null 表示 black 本轮轮空
+export interface IBergerPairing {
+  board: number;
+  black: string;
+  white: string | null;
+  group?: string;          // 分组赛中所属的组
+}
+
+export interface IBergerRound {
+  roundNumber: number;
+  cycle: number;           // 双循环时的第几循环，从1开始
+  pairings: IBergerPairing[];
+}
+
+// 循环赛完整赛程：开赛后 Berger 序号固定，赛程即正式公布
+export interface IRoundRobinSchedule {
+  published: boolean;
+  doubleRoundRobin: boolean;
+  seeding: string[];       // 按 Berger 序号排列的选手
+  rounds: IBergerRound[];
+}
@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+
+export enum BracketSide {
+  WINNERS = 'WINNERS',
+  LOSERS = 'LOSERS',
+  GRAND_FINAL = 'GRAND_FINAL',
+  THIRD_PLACE = 'THIRD_PLACE'
+}
+
+// 指向下一场淘汰赛对局的某个位置（slot 1 = player1, slot 2 = player2）
+export interface IBracketSlotRef {
+  code: string;
+  slot: 1 | 2;
+}
+
+export interface IBracketMatch {
+  code: string;            // 对局编号，例如 W1-3 表示胜者组第1轮第3场，L2-1 表示败者组第2轮第1场
+  side: BracketSide;
+  round: number;           // 淘汰赛内部的轮次
+  position: number;        // 本轮中的位置，从1开始
+  player1: Types.ObjectId | null;
+  player2: Types.ObjectId | null;
+  winner: Types.ObjectId | null;
+  loser: Types.ObjectId | null;
+  bye: boolean;            // 轮空，直接晋级
+  winnerTo?: IBracketSlotRef;
+  loserTo?: IBracketSlotRef;
+  roundNumber?: number;    // 实际安排在比赛的第几轮
+}
+
+// 双败淘汰中每位选手的负局数，满2负即被淘汰
+export interface IBracketLossCount {
+  player: Types.ObjectId;
+  losses: number;
+}
+
+export interface IBracket {
+  size: number;            // 签表大小（2的幂）
+  seeds: Types.ObjectId[]; // 按种子顺序排列的选手
+  thirdPlaceMatch: boolean;
+  bracketReset: boolean;   // 双败淘汰：败者组冠军赢下总决赛后是否加赛一局
+  matches: IBracketMatch[];
+  lossCounts: IBracketLossCount[];
+}
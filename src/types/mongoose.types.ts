@@ -10,6 +10,14 @@ export const toString = (id: MongoId): string => {
   return typeof id === 'string' ? id : id.toString();
 };
 
+// 引用字段可能已经 populate 成文档，也可能只是 ObjectId
+export const refId = (ref: any): string | null => {
+  if (!ref) {
+    return null;
+  }
+  return (ref._id ?? ref).toString();
+};
+
 // Mongoose Document types
 export interface MongooseDocument {
   _id: Types.ObjectId;
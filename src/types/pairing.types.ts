@@ -0,0 +1,33 @@
+// 配对引擎的输入：一名待配对的选手
+export interface IPairingPlayer {
+  id: string;
+  score: number;           // 当前积分（Swiss 积分或 McMahon 分）
+  opponents: string[];     // 已经对阵过的选手
+  club?: string;
+  colorBalance: number;    // 执黑次数 - 执白次数
+  hadBye: boolean;         // 之前是否轮空过
+  byeScore: number;        // 轮空依据（积分或段位），最低者优先轮空
+}
+
+// 轮空规则
+export interface IPairingOptions {
+  repeatByes?: boolean;    // 允许已经轮空过的选手再次轮空
+}
+
+// 各项配对约束的权重，数值越大越优先满足
+export interface IPairingWeights {
+  scoreDifference: number; // 积分差的平方
+  rematch: number;         // 重复对阵
+  colorBalance: number;    // 双方都需要同一种颜色
+  sameClub: number;        // 同一俱乐部
+}
+
+// 配对结果，player2 为 null 表示 player1 轮空
+export interface IPairing {
+  player1: string;
+  player2: string | null;
+}
+
+export interface IPairingEngine {
+  pair(players: IPairingPlayer[], options?: IPairingOptions): IPairing[];
+}
@@ -6,7 +6,13 @@ export interface IPlayer {
   name: string;
   rank: string; // e.g., "1d", "2k"
   rating?: number;
+  club?: string;
+  country?: string;       // 两位字母的国家或地区代码，如 "CN"
+  agaId?: string;         // 美国围棋协会会员号
+  egdPin?: string;        // 欧洲围棋数据库 PIN，8 位数字
+  cwaId?: string;         // 中国围棋协会会员号
   tournaments: MongoId[]; // Array of tournament IDs
+  user?: MongoId | null;  // 关联的用户账号
   wins: number;
   losses: number;
   draws: number;
@@ -26,3 +32,49 @@ export interface IPlayerResponse extends Omit<IPlayer, '_id' | 'tournaments'> {
   id: string;
   tournaments: string[];
 }
+
+// 批量导入选手：表格中可以识别的列；没有 name 列时由名和姓拼成全名
+export type PlayerImportField =
+  'name' | 'firstName' | 'lastName' | 'rank' | 'club' | 'country' | 'agaId' | 'egdPin' | 'cwaId';
+
+export enum PlayerImportAction {
+  CREATE = 'CREATE',  // 新建选手
+  MATCH = 'MATCH',    // 已有选手
+  ERROR = 'ERROR'     // 数据有误，不导入
+}
+
+export interface IPlayerImportOptions {
+  mapping?: Partial<Record<PlayerImportField, string>>; // 字段 -> 表头
+  delimiter?: string;
+  dryRun?: boolean;       // 只预览，不写入
+  skipInvalid?: boolean;  // 跳过有错误的行，否则有错误时不导入
+}
+
+export interface IPlayerImportRow {
+  line: number;           // 表格中的行号，表头为第 1 行
+  name: string;
+  rank: string;
+  club?: string;
+  country?: string;
+  agaId?: string;
+  egdPin?: string;
+  cwaId?: string;
+  action: PlayerImportAction;
+  player?: string;        // 匹配到或新建的选手
+  matchedBy?: 'agaId' | 'egdPin' | 'cwaId' | 'name';
+  updates: string[];      // 为已有选手补充的空字段
+  inTournament?: boolean; // 导入到比赛时：已在比赛中
+  errors: string[];
+  warnings: string[];
+}
+
+export interface IPlayerImportResult {
+  dryRun: boolean;
+  headers: string[];      // 文件的表头，用于选择列
+  columns: Partial<Record<PlayerImportField, string>>; // 识别出的列
+  rows: IPlayerImportRow[];
+  created: number;
+  matched: number;
+  added: number;          // 加入比赛的选手数
+  skipped: number;        // 有错误的行数
+}
@@ -0,0 +1,40 @@
+// 比赛当天打印的文件
+export enum PrintDocument {
+  PAIRINGS = 'pairings',    // 按台次排列的对阵表
+  SLIPS = 'slips',          // 每台一张的成绩单，双方签字
+  WALLCHART = 'wallchart'   // 交叉表
+}
+
+export enum PrintFormat {
+  HTML = 'html',
+  PDF = 'pdf'
+}
+
+export interface IPrintColumn {
+  label: string;
+  width: number;            // 相对宽度
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface IPrintTable {
+  heading?: string;
+  columns: IPrintColumn[];
+  rows: string[][];
+}
+
+// 成绩单：一台对局，双方按执黑、执白排列
+export interface IPrintSlip {
+  title: string;            // 如 "Round 3 - Table 5"
+  players: { color: string; name: string; rank: string }[];
+  details: string;          // 让子、贴目
+}
+
+// 与输出格式无关的打印内容，分别渲染为 HTML 和 PDF
+export interface IPrintContent {
+  title: string;
+  subtitle: string;
+  landscape: boolean;
+  tables: IPrintTable[];
+  notes: string[];          // 表格下方的说明，如轮空、请假的选手
+  slips: IPrintSlip[];
+}
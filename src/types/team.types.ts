@@ -0,0 +1,38 @@
+import { Types } from 'mongoose';
+import { MongoId } from './mongoose.types';
+
+// 队伍：队员名单可以在每场比赛中调整
+export interface ITeam {
+  _id?: Types.ObjectId;
+  name: string;
+  club?: string;
+  players: MongoId[];      // 默认名单
+  createdBy?: MongoId;
+}
+
+// 参加某场团体赛的队伍，名单中按段位排在前 boardCount 位的出场，其余为替补
+export interface ITournamentTeam {
+  team: MongoId;
+  roster: MongoId[];
+}
+
+// 一轮中两队之间的对抗，每台的个人对局保存在 round.matches 中（teamMatch、board 指向这里）
+export interface ITeamMatch {
+  _id?: Types.ObjectId;
+  team1: MongoId;
+  team2: MongoId | null;       // 轮空为 null
+  lineup1: (MongoId | null)[]; // 每台的出场选手，按台次排列，缺人为 null（该台判负）
+  lineup2: (MongoId | null)[];
+}
+
+// 团体排名：先比场分（胜 2 分，和 1 分），再比局分（每台胜 1 分，和 0.5 分）
+export interface ITeamStanding {
+  team: any;
+  matchPoints: number;
+  boardPoints: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  opponents: string[];
+}
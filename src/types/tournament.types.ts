@@ -1,5 +1,7 @@
 import { Types } from 'mongoose';
 import { MongoId, WithMongoId } from './mongoose.types';
+import { IBracket } from './bracket.types';
+import { ITeamMatch, ITournamentTeam } from './team.types';
 
 export enum TournamentFormat {
   ROUNDROBIN = 'ROUNDROBIN',
@@ -15,6 +17,17 @@ export enum TournamentStatus {
   COMPLETED = 'COMPLETED'
 }
 
+// 排名的次级比较项（按顺序依次比较）
+export enum TieBreaker {
+  MMS = 'MMS',          // 主分：McMahon 分（其他赛制为积分）
+  SOS = 'SOS',          // 对手分之和
+  SOSOS = 'SOSOS',      // 对手的对手分之和
+  SODOS = 'SODOS',      // 所胜对手分之和
+  WINS = 'WINS',        // 胜局数
+  CUT_SOS = 'CUT_SOS',  // 去掉最低一个对手分后的 SOS
+  DIRECT = 'DIRECT'     // 直接对局
+}
+
 export interface IPlayerScore {
   _id?: Types.ObjectId;
   player: MongoId;
@@ -26,21 +39,177 @@ export interface IPlayerScore {
   opponents: MongoId[];
 }
 
+// 第一轮前由裁判手动指定的 McMahon 初始分（覆盖按段位计算的分组）
+export interface IMcMahonOverride {
+  player: MongoId;
+  initialScore: number;
+}
+
+// 报名状态
+export enum RegistrationStatus {
+  PENDING = 'PENDING',        // 等待裁判长审核
+  CONFIRMED = 'CONFIRMED',    // 已确认参赛（在 players 中）
+  WAITLISTED = 'WAITLISTED',  // 名额已满，候补
+  WITHDRAWN = 'WITHDRAWN',    // 退出
+  REJECTED = 'REJECTED'       // 被裁判长拒绝
+}
+
+export interface IRegistration {
+  player: MongoId;
+  status: RegistrationStatus;
+  registeredAt: Date;
+  updatedAt?: Date;
+}
+
+// 每轮签到状态
+export enum AttendanceStatus {
+  PRESENT = 'PRESENT',
+  ABSENT = 'ABSENT'
+}
+
+export interface IAttendance {
+  roundNumber: number;
+  player: MongoId;
+  status: AttendanceStatus;
+  points?: number | null;  // 缺席（请假）本轮的得分，为空时使用 tournament.skipRoundPoints
+  updatedAt?: Date;
+}
+
+// 缺席一轮的原因
+export enum AbsenceReason {
+  SKIPPED = 'SKIPPED',      // 请假或未签到
+  WITHDRAWN = 'WITHDRAWN'   // 已退赛
+}
+
+// 编排时没有参加本轮的选手及其得分
+export interface IRoundAbsence {
+  player: MongoId;
+  reason: AbsenceReason;
+  points: number;
+}
+
+// 比赛中途退赛，从 fromRound 起不再编排
+export interface IWithdrawal {
+  player: MongoId;
+  fromRound: number;
+  points?: number | null;  // 之后每轮的得分，为空时使用 tournament.withdrawalPoints
+  withdrawnAt?: Date;
+}
+
+// 比赛开始后补报名的选手，未参加的轮次按 entryPoints 计分
+export interface ILateEntry {
+  player: MongoId;
+  joinedRound: number;   // 从第几轮开始参赛
+  entryPoints: number;   // 补给的分数（胜 2 分，和 1 分）
+}
+
+// 对局结果类型（B+ 黑胜，W+ 白胜）
+export enum MatchResultType {
+  BLACK_WIN = 'B+',                 // 黑胜
+  WHITE_WIN = 'W+',                 // 白胜
+  JIGO = 'JIGO',                    // 和棋
+  FORFEIT_WIN = 'FORFEIT_WIN',      // 对方弃权，不战而胜
+  DOUBLE_FORFEIT = 'DOUBLE_FORFEIT', // 双方弃权
+  DOUBLE_LOSS = 'DOUBLE_LOSS',      // 双方判负
+  NOT_PLAYED = 'NOT_PLAYED'         // 未下，不计分
+}
+
+// 轮空分配：给积分最低的选手，或段位最低的选手
+export enum ByeAssignment {
+  LOWEST_SCORE = 'LOWEST_SCORE',
+  LOWEST_RANK = 'LOWEST_RANK'
+}
+
+// 分组方式：按等级分蛇形分组，或按段位区间分组
+export enum GroupMethod {
+  SNAKE = 'SNAKE',
+  RANK_BANDS = 'RANK_BANDS'
+}
+
+export interface IGroupAssignment {
+  player: MongoId;
+  group: string;
+}
+
+// 晋级规则：按排名取前 N 名，或每组取前 N 名
+export enum QualificationMethod {
+  TOP_N = 'TOP_N',
+  GROUP_WINNERS = 'GROUP_WINNERS'
+}
+
+export interface IQualification {
+  method: QualificationMethod;
+  count: number;   // TOP_N：晋级总人数；GROUP_WINNERS：每组晋级人数
+}
+
+// 多阶段比赛中的一个阶段。每个阶段是一场独立的比赛，有自己的赛制和设置
+export interface IStage {
+  name: string;
+  tournament: MongoId;
+  qualification?: IQualification | null;  // 从上一阶段晋级到本阶段的规则，第一阶段为空
+  qualifiedAt?: Date | null;              // 上一阶段的晋级选手已进入本阶段的时间
+}
+
+// 让子规则：不让子、按段位差让子、段位差减 N 后让子
+export enum HandicapPolicy {
+  NONE = 'NONE',
+  FULL = 'FULL',
+  REDUCED = 'REDUCED'
+}
+
+export enum StoneColor {
+  BLACK = 'B',
+  WHITE = 'W'
+}
+
+// 胜负原因：中盘认输、数子、超时、弃权
+export enum ResultReason {
+  RESIGNATION = 'R',
+  SCORE = 'SCORE',
+  TIME = 'T',
+  FORFEIT = 'F'
+}
+
+// 录入结果时的请求内容，result 可以是 "B+R"、"W+3.5" 这样的记法
+export interface IMatchResultInput {
+  winnerId?: string;
+  resultType?: MatchResultType;
+  result?: string;
+  margin?: number;
+  reason?: ResultReason;
+}
+
 export interface IMatch {
   _id?: Types.ObjectId;
   player1: Types.ObjectId;
   player2: Types.ObjectId;
+  black?: Types.ObjectId | null;   // 执黑方，旧数据没有时默认 player1 执黑
+  white?: Types.ObjectId | null;
+  nigiri?: boolean;                // 是否由猜先决定颜色
+  handicap?: number;               // 让子数，0 为分先
+  komi?: number;                   // 贴目
   winner: Types.ObjectId | null;
   result: string;
+  resultType?: MatchResultType | null;
+  winningColor?: StoneColor | null;
+  margin?: number | null;      // 数子胜负的目数
+  reason?: ResultReason | null;
   player1Score: number;  // McMahon 赛制中选手的当前分数
   player2Score: number;  // McMahon 赛制中选手的当前分数
   round?: number;        
+  bracketCode?: string;  // 淘汰赛对局编号，对应 bracket.matches 中的 code
+  bye?: boolean;         // 轮空：player2 与 player1 相同，得分按 tournament.byePoints
+  group?: string | null; // 分组赛中对局所属的组
+  teamMatch?: Types.ObjectId | null; // 团体赛中所属的两队对抗
+  board?: number | null;  // 团体赛中的台次，从 1 开始
 }
 
 export interface IRound {
   roundNumber: number;
   matches: IMatch[];
   completed: boolean;
+  absences?: IRoundAbsence[];  // 本轮缺席、退赛的选手
+  teamMatches?: ITeamMatch[];  // 团体赛中本轮的两队对抗
 }
 
 export interface ITournament {
@@ -53,15 +222,98 @@ export interface ITournament {
   players: MongoId[];
   rounds: IRound[];
   description?: string;
-  createdBy?: MongoId;
+  createdBy?: MongoId;     // 创建比赛的裁判长（User）
+  referees?: MongoId[];    // 可以录入结果的裁判（User）
+
+  // 报名
+  maxParticipants?: number | null;  // 参赛人数上限，为空表示不限
+  requireApproval?: boolean;        // 自助报名是否需要裁判长审核
+  registrations?: IRegistration[];
+
+  // 签到与补报名（瑞士制、McMahon）
+  requireCheckIn?: boolean;         // 为 true 时只有签到的选手参加编排
+  attendance?: IAttendance[];
+  lateEntryPoints?: number;         // 补报名选手每个缺席轮次补给的分数
+  lateEntries?: ILateEntry[];
+
+  // 请假与退赛
+  skipRoundPoints?: number;         // 请假一轮的得分
+  withdrawalPoints?: number;        // 退赛后每轮的得分
+  withdrawals?: IWithdrawal[];
   
   // McMahon specific fields
   upperBar?: number;
   initialScore?: number;
   minimumScore?: number;
   roundCount?: number;
-  groups?: string[];
+  groups?: string[];               // 组名；设置了 groupMethod 的循环赛、瑞士制按组并行比赛
   playerScores?: IPlayerScore[];
+  mcmahonOverrides?: IMcMahonOverride[];
+
+  // 排名规则（为空时按赛制使用默认顺序）
+  tieBreakers?: TieBreaker[];
+
+  // Handicap and komi
+  handicapPolicy?: HandicapPolicy;
+  handicapReduction?: number;  // REDUCED：段位差减去的数
+  maxHandicap?: number;        // 最多让几子（不超过 9）
+  komi?: number;               // 分先对局的贴目
+  handicapKomi?: number;       // 让子对局的贴目
+
+  // 轮空规则
+  byeAssignment?: ByeAssignment;
+  repeatByes?: boolean;        // 是否允许同一选手再次轮空
+  byePoints?: number;          // 轮空得分，默认按胜局计
+  byeCountsForSos?: boolean;   // 轮空是否计入对手分
+
+  // 分组赛（循环赛、瑞士制）
+  groupMethod?: GroupMethod | null;     // 为空表示不分组
+  groupRankBands?: string[];            // RANK_BANDS：除最后一组外每组的最低段位，例如 ['3d', '1k']
+  groupAssignments?: IGroupAssignment[];
+
+  // 团体赛（循环赛、瑞士制）：按队编排，每队每轮 boardCount 台
+  boardCount?: number | null;           // 为空表示个人赛
+  teams?: ITournamentTeam[];
+
+  // 多阶段比赛：第一阶段保存所有阶段，之后的阶段指向第一阶段
+  stages?: IStage[];
+  parentTournament?: MongoId | null;
+
+  // Round robin specific fields
+  doubleRoundRobin?: boolean;  // 双循环，第二循环交换黑白
+  seeding?: MongoId[];         // 开赛时固定的 Berger 序号
+
+  // Elimination specific fields
+  thirdPlaceMatch?: boolean;
+  bracketReset?: boolean;
+  bracket?: IBracket;
+}
+
+// 排名表中的一行，所有数值型的比较项都会计算出来，方便解释同分时的名次
+export type PlayerOutcome = 'WIN' | 'LOSS' | 'DRAW' | 'NONE';
+
+// 排名表中某位选手的一盘棋
+export interface IStandingGame {
+  roundNumber: number;
+  opponent: string | null;    // 轮空时为 null
+  color: StoneColor | null;
+  outcome: PlayerOutcome;
+  resultType: MatchResultType | null;
+  result: string;
+  margin: number | null;
+  reason: ResultReason | null;
+}
+
+export interface IStanding {
+  player: any;
+  games: IStandingGame[];
+  colorSequence: string;      // 每轮执色，例如 "BWB-"（- 表示轮空或未下）
+  wins: number;
+  losses: number;
+  draws: number;
+  withdrawn: boolean;
+  withdrawnFromRound: number | null;
+  tieBreakers: Record<Exclude<TieBreaker, TieBreaker.DIRECT>, number>;
 }
 
 export type TournamentDocument = WithMongoId<ITournament>;
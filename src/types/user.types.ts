@@ -1,3 +1,12 @@
+// 用户角色，权限从高到低
+export enum UserRole {
+  ADMIN = 'ADMIN',
+  DIRECTOR = 'DIRECTOR',   // 裁判长：创建比赛、编排、删除轮次
+  REFEREE = 'REFEREE',     // 裁判：录入对局结果
+  PLAYER = 'PLAYER',
+  VIEWER = 'VIEWER'
+}
+
 export interface IUser {
   id?: string;
   name: string;
@@ -8,15 +17,22 @@ export interface IUser {
   country?: string;
   city?: string;
   club?: string;
+  role?: UserRole;
+  player?: string | null;  // 关联的选手资料（Player ID）
   tournaments: string[];  // Tournament IDs
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// 用户文档上的实例方法
+export interface IUserMethods {
+  comparePassword(password: string): Promise<boolean>;
+}
+
 export interface IUserResponse extends Omit<IUser, 'password'> {
   id: string;
 }
 
-export interface IUserCreate extends Omit<IUser, 'id' | 'tournaments' | 'createdAt' | 'updatedAt'> {}
+export interface IUserCreate extends Omit<IUser, 'id' | 'role' | 'player' | 'tournaments' | 'createdAt' | 'updatedAt'> {}
 
-export interface IUserUpdate extends Partial<Omit<IUser, 'id' | 'password' | 'tournaments' | 'createdAt' | 'updatedAt'>> {}
+export interface IUserUpdate extends Partial<Omit<IUser, 'id' | 'password' | 'role' | 'player' | 'tournaments' | 'createdAt' | 'updatedAt'>> {}
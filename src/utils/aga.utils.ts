@@ -0,0 +1,19 @@
+import { splitPlayerName } from './opengotha.utils';
+
+// 姓在前，用逗号与名分开，如 "Smith, Anna"
+export const formatAgaName = (fullName: string): string => {
+  const { name, firstName } = splitPlayerName(fullName);
+  return firstName ? `${name}, ${firstName}` : name;
+};
+
+// AGA 日期格式为 月/日/年，如 4/1/2026
+export const formatAgaDate = (date: Date | string): string => {
+  const value = new Date(date);
+  return `${value.getUTCMonth() + 1}/${value.getUTCDate()}/${value.getUTCFullYear()}`;
+};
+
+// 段位大写，如 3D、15K
+export const formatAgaRank = (rank: string): string => rank.trim().toUpperCase();
+
+// 各列用制表符分开
+export const agaLine = (...fields: (string | number)[]): string => fields.join('\t');
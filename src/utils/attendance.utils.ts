@@ -0,0 +1,92 @@
+import {
+  AbsenceReason,
+  AttendanceStatus,
+  IAttendance,
+  ILateEntry,
+  IRoundAbsence,
+  IWithdrawal
+} from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+
+// 一次请假最多的轮数，未设置总轮数的比赛以此为上限
+export const MAX_SKIP_ROUNDS = 20;
+
+// 下一轮的轮次编号
+export const getNextRoundNumber = (tournament: { rounds?: { roundNumber: number }[] }): number => {
+  const rounds = tournament.rounds || [];
+  return rounds.length > 0 ? Math.max(...rounds.map(round => round.roundNumber)) + 1 : 1;
+};
+
+// 从下一轮起还剩的轮数（含下一轮）
+export const getRemainingRounds = (tournament: { roundCount?: number; rounds?: { roundNumber: number }[] }): number =>
+  tournament.roundCount
+    ? Math.max(0, tournament.roundCount - getNextRoundNumber(tournament) + 1)
+    : MAX_SKIP_ROUNDS;
+
+export const findAttendance = (
+  tournament: { attendance?: IAttendance[] },
+  playerId: string,
+  roundNumber: number
+): IAttendance | undefined =>
+  (tournament.attendance || []).find(record =>
+    record.roundNumber === roundNumber && refId(record.player) === playerId
+  );
+
+// 选手在某轮时是否已退赛
+export const findWithdrawal = (
+  tournament: { withdrawals?: IWithdrawal[] },
+  playerId: string,
+  roundNumber: number = Infinity
+): IWithdrawal | undefined =>
+  (tournament.withdrawals || []).find(withdrawal =>
+    refId(withdrawal.player) === playerId && withdrawal.fromRound <= roundNumber
+  );
+
+// 选手是否参加某轮编排：已退赛的不参加；有签到记录按记录；没有记录时，需要签到的比赛视为缺席
+export const isPresent = (
+  tournament: { attendance?: IAttendance[]; requireCheckIn?: boolean; withdrawals?: IWithdrawal[] },
+  playerId: string,
+  roundNumber: number
+): boolean => {
+  if (findWithdrawal(tournament, playerId, roundNumber)) {
+    return false;
+  }
+  const record = findAttendance(tournament, playerId, roundNumber);
+  if (record) {
+    return record.status === AttendanceStatus.PRESENT;
+  }
+  return !tournament.requireCheckIn;
+};
+
+// 补报名选手补给的分数
+export const getEntryPoints = (tournament: { lateEntries?: ILateEntry[] }, playerId: string): number =>
+  (tournament.lateEntries || [])
+    .filter(entry => refId(entry.player) === playerId)
+    .reduce((sum, entry) => sum + (entry.entryPoints || 0), 0);
+
+// 没有参加某轮的选手的缺席原因和得分
+export const getAbsence = (
+  tournament: {
+    attendance?: IAttendance[];
+    withdrawals?: IWithdrawal[];
+    skipRoundPoints?: number;
+    withdrawalPoints?: number;
+  },
+  playerId: string,
+  roundNumber: number
+): IRoundAbsence => {
+  const withdrawal = findWithdrawal(tournament, playerId, roundNumber);
+  if (withdrawal) {
+    return {
+      player: playerId,
+      reason: AbsenceReason.WITHDRAWN,
+      points: withdrawal.points ?? tournament.withdrawalPoints ?? 0
+    };
+  }
+  const record = findAttendance(tournament, playerId, roundNumber);
+  return {
+    player: playerId,
+    reason: AbsenceReason.SKIPPED,
+    points: record?.points ?? tournament.skipRoundPoints ?? 0
+  };
+};
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+export const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+export const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+
+// 读取 JWT 密钥，没有配置时抛出异常（服务器启动时会检查）
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret.trim() === '') {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+export const getAccessTokenExpiresIn = (): string =>
+  process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN;
+
+export const getRefreshTokenDays = (): number => {
+  const days = parseInt(process.env.JWT_REFRESH_EXPIRES_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_REFRESH_TOKEN_DAYS;
+};
+
+// 刷新令牌是随机字符串，数据库里只保存它的哈希
+export const generateRefreshToken = (): string => crypto.randomBytes(48).toString('hex');
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// ADMIN_EMAILS：逗号分隔的管理员邮箱，用于创建第一个管理员
+export const isAdminEmail = (email: string): boolean =>
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean)
+    .includes((email || '').trim().toLowerCase());
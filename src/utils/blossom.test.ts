@@ -0,0 +1,124 @@
+import { maxWeightMatching, WeightedEdge } from './blossom';
+
+// 枚举所有匹配求最优解，用于和 blossom 的结果比较
+const bruteForce = (nvertex: number, edges: WeightedEdge[], maxCardinality: boolean) => {
+  let best = { cardinality: -1, weight: -Infinity };
+  const used = new Array(nvertex).fill(false);
+  const search = (k: number, cardinality: number, weight: number) => {
+    if (k === edges.length) {
+      const better = maxCardinality
+        ? cardinality > best.cardinality || (cardinality === best.cardinality && weight > best.weight)
+        : weight > best.weight;
+      if (better) {
+        best = { cardinality, weight };
+      }
+      return;
+    }
+    search(k + 1, cardinality, weight);
+    const [i, j, w] = edges[k];
+    if (!used[i] && !used[j]) {
+      used[i] = used[j] = true;
+      search(k + 1, cardinality + 1, weight + w);
+      used[i] = used[j] = false;
+    }
+  };
+  search(0, 0, 0);
+  return best;
+};
+
+const matchingValue = (mate: number[], edges: WeightedEdge[]) => {
+  let cardinality = 0;
+  let weight = 0;
+  for (const [i, j, w] of edges) {
+    if (mate[i] === j) {
+      expect(mate[j]).toBe(i);
+      cardinality += 1;
+      weight += w;
+    }
+  }
+  return { cardinality, weight };
+};
+
+// 固定种子的伪随机数，保证测试可重复
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('maxWeightMatching', () => {
+  it('handles empty and single edge graphs', () => {
+    expect(maxWeightMatching([])).toEqual([]);
+    expect(maxWeightMatching([[0, 1, 1]])).toEqual([1, 0]);
+  });
+
+  it('prefers weight unless maxCardinality is set', () => {
+    const edges: WeightedEdge[] = [[0, 1, 5], [1, 2, 11], [2, 3, 5]];
+    expect(maxWeightMatching(edges)).toEqual([-1, 2, 1, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([1, 0, 3, 2]);
+  });
+
+  it('handles negative weights', () => {
+    const edges: WeightedEdge[] = [[1, 2, 2], [1, 3, -2], [2, 3, 1], [2, 4, -1], [3, 4, -6]];
+    expect(maxWeightMatching(edges)).toEqual([-1, 2, 1, -1, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([-1, 3, 4, 1, 2]);
+  });
+
+  it('creates and expands blossoms', () => {
+    expect(maxWeightMatching([[1, 2, 8], [1, 3, 9], [2, 3, 10], [3, 4, 7]])).toEqual([-1, 2, 1, 4, 3]);
+    expect(maxWeightMatching([[1, 2, 8], [1, 3, 9], [2, 3, 10], [3, 4, 7], [1, 6, 5], [4, 5, 6]]))
+      .toEqual([-1, 6, 3, 2, 5, 4, 1]);
+    expect(maxWeightMatching([[1, 2, 9], [1, 3, 8], [2, 3, 10], [1, 4, 5], [4, 5, 4], [1, 6, 3]]))
+      .toEqual([-1, 6, 3, 2, 5, 4, 1]);
+  });
+
+  it('leaves exactly one vertex unmatched in an odd complete graph with maxCardinality', () => {
+    const edges: WeightedEdge[] = [];
+    for (let i = 0; i < 5; i++) {
+      for (let j = i + 1; j < 5; j++) {
+        edges.push([i, j, -(i + j)]);
+      }
+    }
+    const mate = maxWeightMatching(edges, true);
+    expect(mate.filter(m => m === -1)).toHaveLength(1);
+    expect(matchingValue(mate, edges)).toEqual(bruteForce(5, edges, true));
+  });
+
+  it('matches brute force on random graphs', () => {
+    const random = createRandom(42);
+    for (let test = 0; test < 200; test++) {
+      const nvertex = 2 + Math.floor(random() * 7);
+      const edges: WeightedEdge[] = [];
+      for (let i = 0; i < nvertex; i++) {
+        for (let j = i + 1; j < nvertex; j++) {
+          if (random() < 0.6) {
+            edges.push([i, j, Math.floor(random() * 21) - 5]);
+          }
+        }
+      }
+      if (edges.length === 0) {
+        continue;
+      }
+      for (const maxCardinality of [false, true]) {
+        const mate = maxWeightMatching(edges, maxCardinality);
+        const expected = bruteForce(nvertex, edges, maxCardinality);
+        const actual = matchingValue(mate, edges);
+        expect(actual.weight).toBe(expected.weight);
+        if (maxCardinality) {
+          expect(actual.cardinality).toBe(expected.cardinality);
+        }
+      }
+    }
+  });
+
+  it('pairs a large open without overflowing the call stack', () => {
+    const nvertex = 520;
+    const edges: WeightedEdge[] = [];
+    for (let i = 0; i < nvertex; i++) {
+      for (let j = i + 1; j < nvertex; j++) {
+        edges.push([i, j, -((i - j) * (i - j))]);
+      }
+    }
+    const mate = maxWeightMatching(edges, true);
+    expect(mate.every(m => m !== -1)).toBe(true);
+  });
+});
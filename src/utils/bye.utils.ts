@@ -0,0 +1,27 @@
+import { Types } from 'mongoose';
+import { ByeAssignment, IMatch } from '../types/tournament.types';
+import { WIN_POINTS } from './result.utils';
+
+export interface ByeSettings {
+  byeAssignment?: ByeAssignment;
+  repeatByes?: boolean;
+  byePoints?: number;
+  byeCountsForSos?: boolean;
+}
+
+// 轮空得分，旧比赛没有设置时按胜局计
+export const getByePoints = (settings: ByeSettings): number => settings.byePoints ?? WIN_POINTS;
+
+// 轮空对局：自己对阵自己，编排时即视为已完成
+export const createByeMatch = (playerId: string, score: number = 0): IMatch => {
+  const player = new Types.ObjectId(playerId);
+  return {
+    player1: player,
+    player2: player,
+    winner: player,
+    result: 'BYE',
+    bye: true,
+    player1Score: score,
+    player2Score: score
+  };
+};
@@ -0,0 +1,94 @@
+// 表格导出的 CSV/TSV 可能用逗号、分号或制表符分隔；按第一行出现最多的分隔符判断
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+// 按 RFC 4180 解析：字段可用双引号包围，引号内可以有分隔符和换行，"" 表示一个引号。
+// 每个字段去掉首尾空白；空行也保留为一行，使行号与表格一致
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row.map(cell => cell.trim()));
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  // 文件末尾的换行不算一行
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// 表头统一为小写、去掉空格和标点，便于匹配别名
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9\u4e00-\u9fff]/g, '');
+
+// 确定每个字段所在的列：mapping 指定的表头优先，其余字段按别名匹配
+export const resolveColumns = <F extends string>(
+  header: string[],
+  aliases: Record<F, string[]>,
+  mapping: Partial<Record<F, string>> = {}
+): Partial<Record<F, number>> => {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<F, number>> = {};
+  const fields = Object.keys(aliases) as F[];
+
+  for (const field of fields) {
+    const mapped = mapping[field];
+    if (mapped) {
+      const index = normalized.indexOf(normalizeHeader(mapped));
+      if (index === -1) {
+        throw new Error(`Column "${mapped}" not found`);
+      }
+      columns[field] = index;
+    }
+  }
+  for (const field of fields) {
+    if (columns[field] !== undefined) {
+      continue;
+    }
+    const index = normalized.findIndex(name => aliases[field].includes(name));
+    if (index !== -1 && !Object.values(columns).includes(index)) {
+      columns[field] = index;
+    }
+  }
+  return columns;
+};
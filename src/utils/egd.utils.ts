@@ -0,0 +1,56 @@
+import { PlayerOutcome, StoneColor } from '../types/tournament.types';
+import { DRAW_POINTS, WIN_POINTS } from './result.utils';
+import { splitPlayerName } from './opengotha.utils';
+
+const OUTCOME_SYMBOLS: Record<Exclude<PlayerOutcome, 'NONE'>, string> = {
+  WIN: '+',
+  LOSS: '-',
+  DRAW: '='
+};
+
+// 姓在前、名在后，中间一个空格；姓名内部的空格换成下划线
+export const formatEgdName = (fullName: string): string => {
+  const { name, firstName } = splitPlayerName(fullName);
+  return [name, firstName].filter(Boolean).map(part => part.replace(/\s+/g, '_')).join(' ');
+};
+
+// 俱乐部缩写最多 4 个字符，没有俱乐部时为 -
+export const formatEgdClub = (club?: string): string => (club || '').replace(/\s/g, '').slice(0, 4) || '-';
+
+// 没有对手的轮次（轮空、请假、缺席）：0+ 计胜，0= 计和，0- 不得分
+export const formatEgdNoGame = (points: number): string => {
+  if (points >= WIN_POINTS) {
+    return '0+';
+  }
+  return points >= DRAW_POINTS ? '0=' : '0-';
+};
+
+// 对局：对手名次 + 胜负 / 执色 + 让子数，如 12+/w3；未下的对局（弃权）加 !，如 12+!
+export const formatEgdGame = (
+  opponentPlace: number,
+  outcome: PlayerOutcome,
+  played: boolean,
+  color: StoneColor,
+  handicap: number
+): string => {
+  if (outcome === 'NONE') {
+    return '0-';
+  }
+  const symbol = OUTCOME_SYMBOLS[outcome];
+  if (!played) {
+    return `${opponentPlace}${symbol}!`;
+  }
+  return `${opponentPlace}${symbol}/${color.toLowerCase()}${handicap > 0 ? handicap : ''}`;
+};
+
+// 排名分按每胜 1 分输出，去掉多余的小数位
+export const formatEgdScore = (value: number): string => String(Number(value.toFixed(2)));
+
+// 按列对齐，每列宽度取该列最长的值
+export const alignColumns = (rows: string[][]): string[] => {
+  const widths: number[] = [];
+  rows.forEach(row => row.forEach((cell, index) => {
+    widths[index] = Math.max(widths[index] || 0, cell.length);
+  }));
+  return rows.map(row => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd());
+};
@@ -0,0 +1,108 @@
+import { GroupMethod, IGroupAssignment, TournamentFormat } from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+import { compareByStrength, rankToValue } from './rank.utils';
+
+export interface GroupSettings {
+  format?: TournamentFormat;
+  groups?: string[];
+  groupMethod?: GroupMethod | null;
+  groupRankBands?: string[];
+  groupAssignments?: IGroupAssignment[];
+}
+
+interface GroupablePlayer {
+  _id: any;
+  rank: string;
+  rating?: number;
+}
+
+// 可以分组并行比赛的赛制
+export const GROUP_FORMATS = [TournamentFormat.ROUNDROBIN, TournamentFormat.SWISS];
+
+// 是否按组并行比赛；McMahon 的 groups 只是组名，不分组编排
+export const isGrouped = (settings: GroupSettings): boolean =>
+  Boolean(settings.groupMethod)
+  && GROUP_FORMATS.includes(settings.format!)
+  && (settings.groups || []).length > 1;
+
+export const getPlayerGroup = (settings: GroupSettings, playerId: string): string | null =>
+  (settings.groupAssignments || []).find(assignment => refId(assignment.player) === playerId)?.group ?? null;
+
+export const getGroupMembers = (settings: GroupSettings, group: string): string[] =>
+  (settings.groupAssignments || [])
+    .filter(assignment => assignment.group === group)
+    .map(assignment => refId(assignment.player)!);
+
+// 检查分组设置，错误时抛出异常
+export const validateGroupSettings = (settings: GroupSettings): void => {
+  const groups = settings.groups || [];
+  if (!GROUP_FORMATS.includes(settings.format!)) {
+    throw new Error(`Groups are only supported for: ${GROUP_FORMATS.join(', ')}`);
+  }
+  if (!Object.values(GroupMethod).includes(settings.groupMethod!)) {
+    throw new Error(`Invalid group method. Must be one of: ${Object.values(GroupMethod).join(', ')}`);
+  }
+  if (groups.length < 2 || new Set(groups).size !== groups.length) {
+    throw new Error('At least 2 groups with different names are required');
+  }
+  if (settings.groupMethod === GroupMethod.RANK_BANDS) {
+    const bands = (settings.groupRankBands || []).map(rankToValue);
+    if (bands.length !== groups.length - 1 || bands.some(value => value === null)) {
+      throw new Error('Rank bands need a valid minimum rank (e.g. "3d" or "5k") for every group except the last');
+    }
+    if (bands.some((value, index) => index > 0 && value! >= bands[index - 1]!)) {
+      throw new Error('Rank bands must go from the strongest group to the weakest');
+    }
+  }
+};
+
+// 蛇形分组：按等级分（相同时按段位）从高到低，1→N、N→1 往返分到各组，使各组实力接近
+const snakeSeed = (players: GroupablePlayer[], groups: string[]): IGroupAssignment[] =>
+  [...players]
+    .sort((a, b) => (b.rating || 0) - (a.rating || 0) || compareByStrength(a, b))
+    .map((player, index) => {
+      const pass = Math.floor(index / groups.length);
+      const position = index % groups.length;
+      return {
+        player: player._id,
+        group: groups[pass % 2 === 0 ? position : groups.length - 1 - position]
+      };
+    });
+
+// 按段位区间分组：进入第一个最低段位不高于自己段位的组，其余选手（包括段位未知的）进最后一组
+const bandByRank = (players: GroupablePlayer[], groups: string[], bands: string[]): IGroupAssignment[] =>
+  players.map(player => {
+    const value = rankToValue(player.rank) ?? -Infinity;
+    const index = bands.findIndex(band => value >= rankToValue(band)!);
+    return { player: player._id, group: groups[index === -1 ? groups.length - 1 : index] };
+  });
+
+export const assignGroups = (players: GroupablePlayer[], settings: GroupSettings): IGroupAssignment[] => {
+  validateGroupSettings(settings);
+  return settings.groupMethod === GroupMethod.RANK_BANDS
+    ? bandByRank(players, settings.groups!, settings.groupRankBands!)
+    : snakeSeed(players, settings.groups!);
+};
+
+// 还没有分组的选手（例如补报名）：按段位区间分组时按段位，蛇形分组时放入人数最少的组
+const assignMissingGroups = (players: GroupablePlayer[], settings: GroupSettings): IGroupAssignment[] => {
+  const assignments = [...(settings.groupAssignments || [])];
+  const missing = players.filter(player => !getPlayerGroup({ groupAssignments: assignments }, refId(player)!));
+  if (settings.groupMethod === GroupMethod.RANK_BANDS) {
+    return [...assignments, ...bandByRank(missing, settings.groups!, settings.groupRankBands!)];
+  }
+  for (const player of [...missing].sort(compareByStrength)) {
+    const sizes = settings.groups!.map(group => getGroupMembers({ groupAssignments: assignments }, group).length);
+    assignments.push({ player: player._id, group: settings.groups![sizes.indexOf(Math.min(...sizes))] });
+  }
+  return assignments;
+};
+
+// 当前的分组：还没有分组时按分组方式分组；已分组时补入新选手，去掉已不在比赛中的选手
+export const resolveGroupAssignments = (players: GroupablePlayer[], settings: GroupSettings): IGroupAssignment[] => {
+  if ((settings.groupAssignments || []).length === 0) {
+    return assignGroups(players, settings);
+  }
+  const playerIds = new Set(players.map(player => refId(player)!));
+  return assignMissingGroups(players, settings).filter(assignment => playerIds.has(refId(assignment.player)!));
+};
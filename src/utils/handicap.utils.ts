@@ -0,0 +1,41 @@
+import { HandicapPolicy } from '../types/tournament.types';
+import { rankToValue } from './rank.utils';
+
+export const MAX_HANDICAP_STONES = 9;
+
+export interface HandicapSettings {
+  handicapPolicy?: HandicapPolicy;
+  handicapReduction?: number;
+  maxHandicap?: number;
+  komi?: number;
+  handicapKomi?: number;
+}
+
+// 根据双方段位计算让子数和贴目
+// 让子数为 0 时按分先贴目；让 1 子表示弱方执黑不贴目（按让子贴目计算）
+export const calculateHandicap = (
+  rankA: string,
+  rankB: string,
+  settings: HandicapSettings
+): { handicap: number; komi: number } => {
+  const evenKomi = settings.komi ?? 7.5;
+  const handicapKomi = settings.handicapKomi ?? 0.5;
+  const policy = settings.handicapPolicy || HandicapPolicy.NONE;
+
+  const valueA = rankToValue(rankA);
+  const valueB = rankToValue(rankB);
+  if (policy === HandicapPolicy.NONE || valueA === null || valueB === null) {
+    return { handicap: 0, komi: evenKomi };
+  }
+
+  let stones = Math.abs(valueA - valueB);
+  if (policy === HandicapPolicy.REDUCED) {
+    stones -= settings.handicapReduction || 0;
+  }
+  const maxStones = Math.min(settings.maxHandicap ?? MAX_HANDICAP_STONES, MAX_HANDICAP_STONES);
+  stones = Math.max(0, Math.min(stones, maxStones));
+
+  return stones > 0
+    ? { handicap: stones, komi: handicapKomi }
+    : { handicap: 0, komi: evenKomi };
+};
@@ -0,0 +1,171 @@
+import { MatchResultType, StoneColor, TieBreaker, TournamentFormat } from '../types/tournament.types';
+import { rankToValue, valueToRank } from './rank.utils';
+
+// OpenGotha 文件中每位选手的参赛标记长度（每轮一位，1 为参加）
+export const PARTICIPATION_LENGTH = 32;
+
+// OpenGotha 的 McMahon 分从 30K 起算
+export const OPENGOTHA_MM_ZERO = '30K';
+
+// OpenGotha 文件的数据都在元素的属性里，按属性读写即可，不需要完整的 XML 解析
+export const escapeXml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+
+// 生成一个只有属性的元素，例如 <Game roundNumber="1" .../>
+export const xmlElement = (tag: string, attributes: Record<string, unknown>): string =>
+  `<${tag} ${Object.entries(attributes).map(([name, value]) => `${name}="${escapeXml(value)}"`).join(' ')}/>`;
+
+// 取出所有名为 tag 的元素的属性
+export const parseXmlElements = (xml: string, tag: string): Record<string, string>[] => {
+  const elements: Record<string, string>[] = [];
+  const elementPattern = new RegExp(`<${tag}(\\s[^>]*?)?\\/?>`, 'g');
+  for (const element of xml.matchAll(elementPattern)) {
+    const attributes: Record<string, string> = {};
+    for (const attribute of (element[1] || '').matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1]] = unescapeXml(attribute[2] ?? attribute[3]);
+    }
+    elements.push(attributes);
+  }
+  return elements;
+};
+
+// 对局中用姓 + 名（去掉空格、大写）指代选手
+export const toPlayerKey = (name: string, firstName: string): string =>
+  `${name}${firstName}`.replace(/\s/g, '').toUpperCase();
+
+// "Zhang San" 拆成名 Zhang、姓 San；没有空格的名字整体作为姓
+export const splitPlayerName = (fullName: string): { name: string; firstName: string } => {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length < 2) {
+    return { name: fullName.trim(), firstName: '' };
+  }
+  return { name: parts.slice(1).join(' '), firstName: parts[0] };
+};
+
+export const toOpenGothaRank = (rank: string): string => rank.trim().toUpperCase();
+
+// OpenGotha 的段位为 30K-9D；职业段位按 9d 处理，无法识别时返回 null
+export const fromOpenGothaRank = (rank: string): string | null => {
+  const text = (rank || '').trim().toLowerCase();
+  if (/^\d+p$/.test(text)) {
+    return '9d';
+  }
+  const value = rankToValue(text);
+  return value === null ? null : valueToRank(value);
+};
+
+// 对局结果，_BYDEF 表示未下（弃权）
+export const OpenGothaResult = {
+  UNKNOWN: 'RESULT_UNKNOWN',
+  WHITE_WINS: 'RESULT_WHITEWINS',
+  BLACK_WINS: 'RESULT_BLACKWINS',
+  EQUAL: 'RESULT_EQUAL',
+  BOTH_LOSE: 'RESULT_BOTHLOSE',
+  BOTH_WIN: 'RESULT_BOTHWIN',
+  WHITE_WINS_BYDEF: 'RESULT_WHITEWINS_BYDEF',
+  BLACK_WINS_BYDEF: 'RESULT_BLACKWINS_BYDEF',
+  EQUAL_BYDEF: 'RESULT_EQUAL_BYDEF',
+  BOTH_LOSE_BYDEF: 'RESULT_BOTHLOSE_BYDEF',
+  BOTH_WIN_BYDEF: 'RESULT_BOTHWIN_BYDEF'
+} as const;
+
+export const toOpenGothaResult = (resultType: MatchResultType | null | undefined, winningColor: StoneColor | null): string => {
+  switch (resultType) {
+    case MatchResultType.BLACK_WIN:
+      return OpenGothaResult.BLACK_WINS;
+    case MatchResultType.WHITE_WIN:
+      return OpenGothaResult.WHITE_WINS;
+    case MatchResultType.FORFEIT_WIN:
+      return winningColor === StoneColor.BLACK ? OpenGothaResult.BLACK_WINS_BYDEF : OpenGothaResult.WHITE_WINS_BYDEF;
+    case MatchResultType.JIGO:
+      return OpenGothaResult.EQUAL;
+    case MatchResultType.DOUBLE_LOSS:
+      return OpenGothaResult.BOTH_LOSE;
+    case MatchResultType.DOUBLE_FORFEIT:
+      return OpenGothaResult.BOTH_LOSE_BYDEF;
+    default:
+      return OpenGothaResult.UNKNOWN;
+  }
+};
+
+// 导入时的结果；双方都胜没有对应的结果类型，按未录入处理
+export const fromOpenGothaResult = (
+  result: string
+): { resultType: MatchResultType; winner: StoneColor | null } | null => {
+  switch (result) {
+    case OpenGothaResult.BLACK_WINS:
+      return { resultType: MatchResultType.BLACK_WIN, winner: StoneColor.BLACK };
+    case OpenGothaResult.WHITE_WINS:
+      return { resultType: MatchResultType.WHITE_WIN, winner: StoneColor.WHITE };
+    case OpenGothaResult.BLACK_WINS_BYDEF:
+      return { resultType: MatchResultType.FORFEIT_WIN, winner: StoneColor.BLACK };
+    case OpenGothaResult.WHITE_WINS_BYDEF:
+      return { resultType: MatchResultType.FORFEIT_WIN, winner: StoneColor.WHITE };
+    case OpenGothaResult.EQUAL:
+    case OpenGothaResult.EQUAL_BYDEF:
+      return { resultType: MatchResultType.JIGO, winner: null };
+    case OpenGothaResult.BOTH_LOSE:
+      return { resultType: MatchResultType.DOUBLE_LOSS, winner: null };
+    case OpenGothaResult.BOTH_LOSE_BYDEF:
+      return { resultType: MatchResultType.DOUBLE_FORFEIT, winner: null };
+    default:
+      return null;
+  }
+};
+
+// 排名规则与 OpenGotha 排名依据的对应关系；McMahon 用 MMS 系列，其他赛制用 NBW 系列
+const MCMAHON_CRITERIA: Partial<Record<TieBreaker, string>> = {
+  [TieBreaker.MMS]: 'MMS',
+  [TieBreaker.SOS]: 'SOSM',
+  [TieBreaker.SOSOS]: 'SOSOSM',
+  [TieBreaker.SODOS]: 'SODOSM',
+  [TieBreaker.CUT_SOS]: 'SOSMM1',
+  [TieBreaker.WINS]: 'NBW',
+  [TieBreaker.DIRECT]: 'DC'
+};
+
+const SWISS_CRITERIA: Partial<Record<TieBreaker, string>> = {
+  [TieBreaker.MMS]: 'NBW',
+  [TieBreaker.WINS]: 'NBW',
+  [TieBreaker.SOS]: 'SOSW',
+  [TieBreaker.SOSOS]: 'SOSOSW',
+  [TieBreaker.SODOS]: 'SODOSW',
+  [TieBreaker.CUT_SOS]: 'SOSWM1',
+  [TieBreaker.DIRECT]: 'DC'
+};
+
+export const toPlacementCriteria = (format: TournamentFormat, tieBreakers: TieBreaker[]): string[] => {
+  const criteria = format === TournamentFormat.MCMAHON ? MCMAHON_CRITERIA : SWISS_CRITERIA;
+  return Array.from(new Set(tieBreakers.map(tieBreaker => criteria[tieBreaker]).filter((name): name is string => Boolean(name))));
+};
+
+// 第一个排名依据为 MMS 的是 McMahon，否则按瑞士制导入
+export const fromPlacementCriteria = (names: string[]): { format: TournamentFormat; tieBreakers: TieBreaker[] } => {
+  const format = names.length === 0 || names[0] === 'MMS' ? TournamentFormat.MCMAHON : TournamentFormat.SWISS;
+  const criteria = format === TournamentFormat.MCMAHON ? MCMAHON_CRITERIA : SWISS_CRITERIA;
+  const tieBreakers: TieBreaker[] = [];
+  for (const name of names) {
+    const tieBreaker = (Object.keys(criteria) as TieBreaker[]).find(key => criteria[key] === name);
+    if (tieBreaker && !tieBreakers.includes(tieBreaker)) {
+      tieBreakers.push(tieBreaker);
+    }
+  }
+  return { format, tieBreakers };
+};
+
+export const toOpenGothaDate = (date: Date | string | undefined): string =>
+  date ? new Date(date).toISOString().slice(0, 10) : '';
@@ -0,0 +1,56 @@
+import { buildPdf, createPdfPage, fitPdfText, measurePdfText, pdfText } from './pdf.utils';
+import { renderPrintPdf } from './print.utils';
+
+describe('pdf utils', () => {
+  it('writes Chinese names with the CJK font', () => {
+    const page = createPdfPage();
+    pdfText(page, 10, 20, '李威 (1d)', 10);
+    // 李 U+674E，威 U+5A01
+    expect(page.ops[0]).toContain('/F3 10 Tf <674E5A01> Tj /F1 10 Tf ( \\(1d\\)) Tj');
+    expect(page.ops[0]).not.toContain('?');
+  });
+
+  it('measures Chinese characters as full width', () => {
+    expect(measurePdfText('业余组', 10)).toBe(30);
+    expect(measurePdfText('王芳 A', 10)).toBeCloseTo(20 + measurePdfText(' A', 10));
+    expect(fitPdfText('职业组选手', 10, 'regular', 35)).toBe('职业...');
+  });
+
+  it('still replaces characters neither font has', () => {
+    const page = createPdfPage();
+    pdfText(page, 10, 20, 'Ł', 10);
+    expect(page.ops[0]).toContain('(?) Tj');
+  });
+
+  it('renders a result slip with a Chinese name', () => {
+    const pdf = renderPrintPdf({
+      title: '业余组',
+      subtitle: '第 1 轮',
+      landscape: false,
+      tables: [],
+      notes: [],
+      slips: [{
+        title: 'Round 1 - Table 1',
+        players: [{ color: 'Black', name: '李威', rank: '1d' }, { color: 'White', name: 'Kim', rank: '2k' }],
+        details: ''
+      }]
+    }).toString('latin1');
+
+    expect(pdf).toContain('<674E5A01> Tj');
+    expect(pdf).toContain('/Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H');
+    expect(pdf).toContain('/ToUnicode 8 0 R');
+    expect(pdf).toContain('/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1)');
+    // 标题用 UTF-16BE 写入文档信息
+    expect(pdf).toContain('/Title <FEFF4E1A4F597EC4');
+  });
+
+  it('keeps the cross-reference offsets valid', () => {
+    const page = createPdfPage();
+    pdfText(page, 10, 20, '职业组', 10, 'bold');
+    const pdf = buildPdf([page]).toString('latin1');
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = pdf.slice(xref).split('\n').slice(3).filter(line => / n $/.test(line)).map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+  });
+});
@@ -0,0 +1,228 @@
+// 最简单的 PDF 输出，不嵌入字体：西文用 PDF 自带的 Helvetica（WinAnsi 编码），
+// 中日文用 Adobe 预定义的中文字体 STSong-Light（Type0/CIDFont，UniGB-UCS2-H 编码），
+// 阅读器用本机的宋体显示。两种字体都不包含的字符输出为 ?
+
+export type PdfFont = 'regular' | 'bold';
+
+// A4，单位为点（1/72 英寸）
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface IPdfPage {
+  width: number;
+  height: number;
+  ops: string[];            // 页面内容流中的绘图命令
+}
+
+// Helvetica 字符 32-126 的宽度（1/1000 字号），取自 Adobe 字体度量文件
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+const CJK_FONT_NAME = 'F3';
+
+// STSong-Light 没有粗体，粗体用描边加粗（线宽为字号的 3%）
+const CJK_BOLD_STROKE = 0.03;
+
+// WinAnsi 中与 Latin-1 位置不同的常用字符
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+const isWinAnsi = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return Boolean(WIN_ANSI_EXTRA[char]) || (char.length === 1 && (code < 0x80 || code >= 0xa0) && code <= 0xff);
+};
+
+// 用中文字体输出的字符：CJK 部首、标点、假名、汉字、兼容汉字和全角字符，都是等宽的全角字
+const isCjk = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return char.length === 1
+    && ((code >= 0x2e80 && code <= 0x9fff) || (code >= 0xf900 && code <= 0xfaff) || (code >= 0xff00 && code <= 0xffef));
+};
+
+// 转成单字节的 WinAnsi 字符串，字体不包含的字符换成 ?
+const toWinAnsi = (text: string): string =>
+  Array.from(text).map(char => {
+    if (WIN_ANSI_EXTRA[char]) {
+      return String.fromCharCode(WIN_ANSI_EXTRA[char]);
+    }
+    return isWinAnsi(char) ? char : '?';
+  }).join('');
+
+interface TextRun {
+  cjk: boolean;
+  text: string;
+}
+
+// 按字体把文字分段：中文字符一段，其余字符（包括输出为 ? 的）一段
+const splitRuns = (text: string): TextRun[] =>
+  Array.from(text).reduce((runs: TextRun[], char) => {
+    const cjk = !isWinAnsi(char) && isCjk(char);
+    const last = runs[runs.length - 1];
+    if (last && last.cjk === cjk) {
+      last.text += char;
+    } else {
+      runs.push({ cjk, text: char });
+    }
+    return runs;
+  }, []);
+
+const escapePdfString = (text: string): string => toWinAnsi(text).replace(/([\\()])/g, '\\$1');
+
+const toHex = (code: number): string => code.toString(16).toUpperCase().padStart(4, '0');
+
+// UniGB-UCS2-H 编码：每个字符两个字节，即 Unicode 码位
+const toUcs2Hex = (text: string): string =>
+  Array.from(text).map(char => toHex(char.charCodeAt(0))).join('');
+
+// 文档信息中的字符串：含非西文字符时用带 BOM 的 UTF-16BE
+const pdfInfoString = (text: string): string =>
+  Array.from(text).every(isWinAnsi)
+    ? `(${escapePdfString(text)})`
+    : `<FEFF${text.split('').map(unit => toHex(unit.charCodeAt(0))).join('')}>`;
+
+const formatNumber = (value: number): string => String(Number(value.toFixed(2)));
+
+export const measurePdfText = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const total = splitRuns(text).reduce((sum, run) => {
+    if (run.cjk) {
+      return sum + run.text.length * 1000;
+    }
+    return sum + Array.from(toWinAnsi(run.text)).reduce((runSum, char) => {
+      const code = char.charCodeAt(0);
+      return runSum + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+    }, 0);
+  }, 0);
+  return total * size / 1000;
+};
+
+// 超出宽度时截断并加 ...
+export const fitPdfText = (text: string, size: number, font: PdfFont, maxWidth: number): string => {
+  if (measurePdfText(text, size, font) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && measurePdfText(`${fitted}...`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+export const createPdfPage = (landscape = false): IPdfPage => ({
+  width: landscape ? A4_HEIGHT : A4_WIDTH,
+  height: landscape ? A4_WIDTH : A4_HEIGHT,
+  ops: []
+});
+
+// 以下坐标均从页面左上角起算，y 向下；文字的 y 为基线位置
+// 一个 BT 块内依次输出各段文字，Tj 会把位置移到上一段的末尾
+export const pdfText = (page: IPdfPage, x: number, y: number, text: string, size: number, font: PdfFont = 'regular') => {
+  const runs = splitRuns(text).map(run => {
+    if (!run.cjk) {
+      return `/${FONT_NAMES[font]} ${formatNumber(size)} Tf (${escapePdfString(run.text)}) Tj`;
+    }
+    const glyphs = `/${CJK_FONT_NAME} ${formatNumber(size)} Tf <${toUcs2Hex(run.text)}> Tj`;
+    return font === 'bold' ? `2 Tr ${formatNumber(size * CJK_BOLD_STROKE)} w ${glyphs} 0 Tr` : glyphs;
+  });
+  page.ops.push(`BT ${formatNumber(x)} ${formatNumber(page.height - y)} Td ${runs.join(' ')} ET`);
+};
+
+export const pdfLine = (page: IPdfPage, x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) => {
+  page.ops.push(
+    `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(page.height - y1)} m ${formatNumber(x2)} ${formatNumber(page.height - y2)} l S`
+  );
+};
+
+export const pdfRect = (page: IPdfPage, x: number, y: number, width: number, height: number, lineWidth = 0.5) => {
+  page.ops.push(
+    `${formatNumber(lineWidth)} w ${formatNumber(x)} ${formatNumber(page.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re S`
+  );
+};
+
+// ToUnicode：UCS-2 编码就是 Unicode 码位，按高字节分成 256 段，每段最多 100 条
+const buildToUnicode = (): string => {
+  const ranges = Array.from({ length: 256 }, (_, high) => {
+    const start = toHex(high << 8);
+    return `<${start}> <${toHex((high << 8) | 0xff)}> <${start}>`;
+  });
+  const blocks: string[] = [];
+  for (let index = 0; index < ranges.length; index += 100) {
+    const block = ranges.slice(index, index + 100);
+    blocks.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+};
+
+// 组装 PDF 文件：目录、页面树、三种字体（中文字体由 Type0、CIDFont、字体描述和 ToUnicode 组成）、
+// 每页一个内容流，最后是交叉引用表
+export const buildPdf = (pages: IPdfPage[], title = ''): Buffer => {
+  const objects: string[] = [];
+  const fontIds = [3, 4, 5];
+  const pageIds = pages.map((_, index) => 9 + index * 2);
+  const toUnicode = buildToUnicode();
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = '<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H /DescendantFonts [6 0 R] /ToUnicode 8 0 R >>';
+  objects[6] = '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light '
+    + '/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 4 >> /FontDescriptor 7 0 R /DW 1000 >>';
+  objects[7] = '<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] '
+    + '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>';
+  objects[8] = `<< /Length ${toUnicode.length} >>\nstream\n${toUnicode}\nendstream`;
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = page.ops.join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] `
+      + `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R /${CJK_FONT_NAME} ${fontIds[2]} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title ${pdfInfoString(title)} /Producer (weiqibisai) >>`;
+
+  // 所有内容都是单字节字符（中文以十六进制写出），字符串长度即字节数
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(output, 'latin1');
+};
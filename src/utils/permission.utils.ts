@@ -0,0 +1,38 @@
+import { TournamentAccess } from '../types/auth.types';
+import { UserRole } from '../types/user.types';
+import { refId } from '../types/mongoose.types';
+
+// 角色等级，高等级拥有低等级的全部权限
+const ROLE_LEVELS: Record<UserRole, number> = {
+  [UserRole.ADMIN]: 4,
+  [UserRole.DIRECTOR]: 3,
+  [UserRole.REFEREE]: 2,
+  [UserRole.PLAYER]: 1,
+  [UserRole.VIEWER]: 0
+};
+
+export const hasRole = (role: UserRole | undefined, required: UserRole): boolean =>
+  ROLE_LEVELS[role || UserRole.PLAYER] >= ROLE_LEVELS[required];
+
+// 判断用户能否对某个比赛执行操作
+export const canAccessTournament = (
+  user: { id: string; role?: UserRole },
+  tournament: { createdBy?: any; referees?: any[] },
+  access: TournamentAccess
+): boolean => {
+  if (user.role === UserRole.ADMIN) {
+    return true;
+  }
+
+  // 比赛所有者（裁判长）拥有全部权限；没有所有者的旧比赛，任何裁判长都可以管理
+  const ownerId = refId(tournament.createdBy);
+  if (hasRole(user.role, UserRole.DIRECTOR) && (ownerId === null || ownerId === user.id)) {
+    return true;
+  }
+
+  // 被指派到本比赛的裁判只能录入结果
+  if (access === TournamentAccess.SCORE && hasRole(user.role, UserRole.REFEREE)) {
+    return (tournament.referees || []).some(referee => refId(referee) === user.id);
+  }
+  return false;
+};
@@ -0,0 +1,19 @@
+// 两位字母的国家或地区代码，如 "CN"
+export const COUNTRY_PATTERN = /^[A-Za-z]{2}$/;
+
+// 各协会会员号的格式
+export const PLAYER_ID_PATTERNS = {
+  agaId: /^\d{1,8}$/,
+  egdPin: /^\d{8}$/,
+  cwaId: /^[A-Za-z0-9-]{1,20}$/
+} as const;
+
+export type PlayerIdField = keyof typeof PLAYER_ID_PATTERNS;
+
+export const PLAYER_ID_FIELDS = Object.keys(PLAYER_ID_PATTERNS) as PlayerIdField[];
+
+export const PLAYER_ID_LABELS: Record<PlayerIdField, string> = {
+  agaId: 'AGA ID',
+  egdPin: 'EGD PIN',
+  cwaId: 'Chinese association ID'
+};
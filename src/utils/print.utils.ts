@@ -0,0 +1,237 @@
+import { IPrintColumn, IPrintContent, IPrintSlip, IPrintTable } from '../types/print.types';
+import { IPdfPage, PdfFont, buildPdf, createPdfPage, fitPdfText, measurePdfText, pdfLine, pdfRect, pdfText } from './pdf.utils';
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const RESULT_CHOICES = ['Black wins', 'White wins', 'Jigo'];
+
+const PRINT_CSS = `
+body { font-family: Arial, Helvetica, "Noto Sans CJK SC", "Microsoft YaHei", sans-serif; font-size: 10pt; color: #000; margin: 8mm; }
+h1 { font-size: 16pt; margin: 0 0 1mm; }
+h2 { font-size: 12pt; margin: 5mm 0 2mm; }
+.subtitle { margin: 0 0 4mm; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border: 1px solid #555; padding: 1mm 1.5mm; }
+th { background: #eee; }
+thead { display: table-header-group; }
+tr { break-inside: avoid; }
+.left { text-align: left; }
+.center { text-align: center; }
+.right { text-align: right; }
+.notes { margin-top: 3mm; }
+.slips { display: grid; grid-template-columns: 1fr 1fr; gap: 5mm; }
+.slip { border: 1px dashed #000; padding: 3mm 4mm; break-inside: avoid; }
+.slip h3 { font-size: 11pt; margin: 0 0 1mm; }
+.slip p { margin: 2mm 0; }
+.box { display: inline-block; width: 3mm; height: 3mm; border: 1px solid #000; margin: 0 1mm 0 3mm; vertical-align: middle; }
+.blank { display: inline-block; width: 35mm; border-bottom: 1px solid #000; }
+@media print {
+  body { margin: 0; }
+  .no-print { display: none; }
+}`;
+
+const renderHtmlTable = (table: IPrintTable): string => {
+  const cellClass = (column: IPrintColumn) => column.align || 'left';
+  const totalWidth = table.columns.reduce((sum, column) => sum + column.width, 0);
+  return [
+    ...(table.heading ? [`<h2>${escapeHtml(table.heading)}</h2>`] : []),
+    '<table>',
+    `<colgroup>${table.columns.map(column => `<col style="width: ${(column.width / totalWidth * 100).toFixed(1)}%">`).join('')}</colgroup>`,
+    `<thead><tr>${table.columns.map(column => `<th class="${cellClass(column)}">${escapeHtml(column.label)}</th>`).join('')}</tr></thead>`,
+    '<tbody>',
+    ...table.rows.map(row =>
+      `<tr>${row.map((cell, index) => `<td class="${cellClass(table.columns[index])}">${escapeHtml(cell)}</td>`).join('')}</tr>`
+    ),
+    '</tbody>',
+    '</table>'
+  ].join('\n');
+};
+
+const renderHtmlSlip = (slip: IPrintSlip): string => [
+  '<div class="slip">',
+  `<h3>${escapeHtml(slip.title)}</h3>`,
+  `<p>${escapeHtml(slip.details)}</p>`,
+  ...slip.players.map(player => `<p><strong>${escapeHtml(player.color)}:</strong> ${escapeHtml(player.name)} (${escapeHtml(player.rank)})</p>`),
+  `<p>Result:${RESULT_CHOICES.map(choice => `<span class="box"></span>${escapeHtml(choice)}`).join('')}</p>`,
+  '<p>Margin: <span class="blank"></span></p>',
+  ...slip.players.map(player => `<p>${escapeHtml(player.color)} signature: <span class="blank"></span></p>`),
+  '</div>'
+].join('\n');
+
+// HTML 版本：浏览器打印，@page 控制纸张方向
+export const renderPrintHtml = (content: IPrintContent): string => [
+  '<!DOCTYPE html>',
+  '<html>',
+  '<head>',
+  '<meta charset="utf-8">',
+  `<title>${escapeHtml(`${content.title} - ${content.subtitle}`)}</title>`,
+  `<style>@page { size: A4 ${content.landscape ? 'landscape' : 'portrait'}; margin: 10mm; }${PRINT_CSS}</style>`,
+  '</head>',
+  '<body>',
+  '<p class="no-print"><button onclick="window.print()">Print</button></p>',
+  ...(content.slips.length > 0
+    ? [`<div class="slips">${content.slips.map(renderHtmlSlip).join('\n')}</div>`]
+    : [
+      `<h1>${escapeHtml(content.title)}</h1>`,
+      `<p class="subtitle">${escapeHtml(content.subtitle)}</p>`,
+      ...content.tables.map(renderHtmlTable),
+      ...(content.notes.length > 0
+        ? [`<div class="notes">${content.notes.map(note => `<p>${escapeHtml(note)}</p>`).join('')}</div>`]
+        : [])
+    ]),
+  '</body>',
+  '</html>',
+  ''
+].join('\n');
+
+const MARGIN = 36;
+const ROW_HEIGHT = 15;
+const FONT_SIZE = 9;
+const SLIP_COLUMNS = 2;
+const SLIP_ROWS = 4;
+
+// PDF 中按行往下排版，y 为当前位置
+interface PdfLayout {
+  landscape: boolean;
+  pages: IPdfPage[];
+  page: IPdfPage;
+  y: number;
+}
+
+const newPage = (layout: PdfLayout) => {
+  layout.page = createPdfPage(layout.landscape);
+  layout.pages.push(layout.page);
+  layout.y = MARGIN;
+};
+
+// 当前页放不下时换页，返回是否换了页
+const ensureSpace = (layout: PdfLayout, height: number): boolean => {
+  if (layout.y + height > layout.page.height - MARGIN) {
+    newPage(layout);
+    return true;
+  }
+  return false;
+};
+
+const usableWidth = (page: IPdfPage): number => page.width - MARGIN * 2;
+
+const drawCell = (
+  page: IPdfPage, x: number, y: number, width: number, text: string, column: IPrintColumn, font: PdfFont
+) => {
+  pdfRect(page, x, y, width, ROW_HEIGHT);
+  const fitted = fitPdfText(text, FONT_SIZE, font, width - 6);
+  const textWidth = measurePdfText(fitted, FONT_SIZE, font);
+  const textX = column.align === 'right'
+    ? x + width - 3 - textWidth
+    : column.align === 'center' ? x + (width - textWidth) / 2 : x + 3;
+  pdfText(page, textX, y + ROW_HEIGHT - 4, fitted, FONT_SIZE, font);
+};
+
+const drawPdfTable = (layout: PdfLayout, table: IPrintTable) => {
+  const totalWidth = table.columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = table.columns.map(column => column.width / totalWidth * usableWidth(layout.page));
+  const drawRow = (cells: string[], font: PdfFont) => {
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      drawCell(layout.page, x, layout.y, widths[index], cell, table.columns[index], font);
+      x += widths[index];
+    });
+    layout.y += ROW_HEIGHT;
+  };
+  const header = table.columns.map(column => column.label);
+
+  ensureSpace(layout, (table.heading ? 22 : 0) + ROW_HEIGHT * 2);
+  if (table.heading) {
+    layout.y += 10;
+    pdfText(layout.page, MARGIN, layout.y, table.heading, 12, 'bold');
+    layout.y += 8;
+  }
+  drawRow(header, 'bold');
+  for (const row of table.rows) {
+    // 换页后重复表头
+    if (ensureSpace(layout, ROW_HEIGHT)) {
+      drawRow(header, 'bold');
+    }
+    drawRow(row, 'regular');
+  }
+};
+
+// 成绩单：每页 2 列 4 行，沿边框裁开
+const drawPdfSlip = (page: IPdfPage, x: number, y: number, width: number, height: number, slip: IPrintSlip) => {
+  pdfRect(page, x, y, width, height, 0.3);
+  const left = x + 10;
+  const inner = width - 20;
+  let line = y + 18;
+  pdfText(page, left, line, fitPdfText(slip.title, 10, 'bold', inner), 10, 'bold');
+  line += 14;
+  pdfText(page, left, line, fitPdfText(slip.details, FONT_SIZE, 'regular', inner), FONT_SIZE);
+  for (const player of slip.players) {
+    line += 16;
+    pdfText(page, left, line, `${player.color}:`, 10, 'bold');
+    pdfText(page, left + 40, line, fitPdfText(`${player.name} (${player.rank})`, 10, 'regular', inner - 40), 10);
+  }
+  line += 20;
+  pdfText(page, left, line, 'Result:', FONT_SIZE);
+  let choiceX = left + 38;
+  for (const choice of RESULT_CHOICES) {
+    pdfRect(page, choiceX, line - 7, 8, 8);
+    pdfText(page, choiceX + 11, line, choice, FONT_SIZE);
+    choiceX += 22 + measurePdfText(choice, FONT_SIZE);
+  }
+  line += 22;
+  pdfText(page, left, line, 'Margin:', FONT_SIZE);
+  pdfLine(page, left + 38, line + 1, left + inner, line + 1);
+  for (const player of slip.players) {
+    line += 22;
+    pdfText(page, left, line, `${player.color} signature:`, FONT_SIZE);
+    pdfLine(page, left + 85, line + 1, left + inner, line + 1);
+  }
+};
+
+// PDF 版本：A4，每页底部注明标题和页码
+export const renderPrintPdf = (content: IPrintContent): Buffer => {
+  const firstPage = createPdfPage(content.landscape);
+  const layout: PdfLayout = { landscape: content.landscape, pages: [firstPage], page: firstPage, y: MARGIN };
+
+  if (content.slips.length > 0) {
+    const gap = 10;
+    const width = (usableWidth(layout.page) - gap) / SLIP_COLUMNS;
+    const height = (layout.page.height - MARGIN * 2 - gap * (SLIP_ROWS - 1)) / SLIP_ROWS;
+    content.slips.forEach((slip, index) => {
+      const position = index % (SLIP_COLUMNS * SLIP_ROWS);
+      if (index > 0 && position === 0) {
+        newPage(layout);
+      }
+      const column = position % SLIP_COLUMNS;
+      const row = Math.floor(position / SLIP_COLUMNS);
+      drawPdfSlip(layout.page, MARGIN + column * (width + gap), MARGIN + row * (height + gap), width, height, slip);
+    });
+  } else {
+    layout.y += 14;
+    pdfText(layout.page, MARGIN, layout.y, fitPdfText(content.title, 16, 'bold', usableWidth(layout.page)), 16, 'bold');
+    layout.y += 16;
+    pdfText(layout.page, MARGIN, layout.y, content.subtitle, 10);
+    layout.y += 10;
+    content.tables.forEach(table => drawPdfTable(layout, table));
+    layout.y += 6;
+    for (const note of content.notes) {
+      ensureSpace(layout, 14);
+      layout.y += 14;
+      pdfText(layout.page, MARGIN, layout.y, fitPdfText(note, FONT_SIZE, 'regular', usableWidth(layout.page)), FONT_SIZE);
+    }
+  }
+
+  layout.pages.forEach((page, index) => {
+    const footer = `${content.title} - ${content.subtitle}`;
+    const pageNumber = `${index + 1} / ${layout.pages.length}`;
+    pdfText(page, MARGIN, page.height - 18, fitPdfText(footer, 8, 'regular', page.width / 2), 8);
+    pdfText(page, page.width - MARGIN - measurePdfText(pageNumber, 8), page.height - 18, pageNumber, 8);
+  });
+  return buildPdf(layout.pages, `${content.title} - ${content.subtitle}`);
+};
@@ -0,0 +1,31 @@
+// 选手段位格式，如 "1d"、"30k"
+export const RANK_PATTERN = /^([1-9]d|[1-3][0-9]k|[1-9]k)$/;
+
+// 段位换算：1d = 1, 9d = 9, 1k = 0, 2k = -1, 30k = -29
+// 相邻段位之间相差 1，方便计算段位差
+export const rankToValue = (rank: string): number | null => {
+  const match = rank?.trim().toLowerCase().match(/^(\d+)([dk])$/);
+  if (!match) {
+    return null;
+  }
+
+  const number = parseInt(match[1]);
+  return match[2] === 'd' ? number : 1 - number;
+};
+
+export const valueToRank = (value: number): string => {
+  return value >= 1 ? `${value}d` : `${1 - value}k`;
+};
+
+// 按段位和等级分从强到弱比较，用于种子排序
+export const compareByStrength = (
+  a: { rank: string; rating?: number },
+  b: { rank: string; rating?: number }
+): number => {
+  const rankA = rankToValue(a.rank) ?? -Infinity;
+  const rankB = rankToValue(b.rank) ?? -Infinity;
+  if (rankA !== rankB) {
+    return rankB - rankA;
+  }
+  return (b.rating || 0) - (a.rating || 0);
+};
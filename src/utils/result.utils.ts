@@ -0,0 +1,247 @@
+import {
+  IMatchResultInput,
+  MatchResultType,
+  PlayerOutcome,
+  ResultReason,
+  StoneColor
+} from '../types/tournament.types';
+import { refId } from '../types/mongoose.types';
+
+export { PlayerOutcome };
+
+export interface MatchOutcome {
+  player1: PlayerOutcome;
+  player2: PlayerOutcome;
+  played: boolean;   // 双方是否真正对弈过（影响对手分和重复对阵判断）
+}
+
+export const WIN_POINTS = 2;
+export const DRAW_POINTS = 1;
+
+export const outcomePoints = (outcome: PlayerOutcome): number => {
+  if (outcome === 'WIN') {
+    return WIN_POINTS;
+  }
+  return outcome === 'DRAW' ? DRAW_POINTS : 0;
+};
+
+// 旧数据没有 bye 字段，按 result 为 'BYE' 或自己对阵自己判断
+export const isByeMatch = (match: any): boolean =>
+  match.bye === true || match.result === 'BYE' || refId(match.player1) === refId(match.player2);
+
+type NoWinnerResultType = Exclude<
+  MatchResultType,
+  MatchResultType.BLACK_WIN | MatchResultType.WHITE_WIN | MatchResultType.FORFEIT_WIN
+>;
+
+// 没有胜者的结果类型的计分规则
+const RESULT_OUTCOMES: Record<NoWinnerResultType, MatchOutcome> = {
+  [MatchResultType.JIGO]: { player1: 'DRAW', player2: 'DRAW', played: true },
+  [MatchResultType.DOUBLE_FORFEIT]: { player1: 'LOSS', player2: 'LOSS', played: false },
+  [MatchResultType.DOUBLE_LOSS]: { player1: 'LOSS', player2: 'LOSS', played: true },
+  [MatchResultType.NOT_PLAYED]: { player1: 'NONE', player2: 'NONE', played: false }
+};
+
+// 执黑、执白的选手；旧数据没有 black/white 时 player1 执黑
+export const getMatchColors = (match: any): { black: string | null; white: string | null } => {
+  if (match.black && match.white) {
+    return { black: refId(match.black), white: refId(match.white) };
+  }
+  return { black: refId(match.player1), white: refId(match.player2) };
+};
+
+// 计算一场对局双方的结果，尚未录入结果时返回 null
+export const getMatchOutcome = (match: any): MatchOutcome | null => {
+  if (isByeMatch(match)) {
+    return match.winner ? { player1: 'WIN', player2: 'NONE', played: false } : null;
+  }
+
+  const winnerId = refId(match.winner);
+  const player1Won = winnerId !== null && winnerId === refId(match.player1);
+  const decided = (played: boolean): MatchOutcome => player1Won
+    ? { player1: 'WIN', player2: 'LOSS', played }
+    : { player1: 'LOSS', player2: 'WIN', played };
+
+  // 有胜者的结果按胜者计算，与 player1/player2 谁执黑无关
+  switch (match.resultType) {
+    case MatchResultType.BLACK_WIN:
+    case MatchResultType.WHITE_WIN:
+      return decided(true);
+    case MatchResultType.FORFEIT_WIN:
+      return decided(false);
+    case MatchResultType.JIGO:
+    case MatchResultType.DOUBLE_FORFEIT:
+    case MatchResultType.DOUBLE_LOSS:
+    case MatchResultType.NOT_PLAYED:
+      return RESULT_OUTCOMES[match.resultType as NoWinnerResultType];
+  }
+
+  // 兼容旧数据：只有 winner 或 result 为 'DRAW'
+  if (winnerId) {
+    return decided(true);
+  }
+  if (match.result === 'DRAW') {
+    return RESULT_OUTCOMES[MatchResultType.JIGO];
+  }
+  return null;
+};
+
+export const hasResult = (match: any): boolean => getMatchOutcome(match) !== null;
+
+export interface ResolvedMatchResult {
+  resultType: MatchResultType;
+  winnerId: string | null;
+  winningColor: StoneColor | null;
+  margin: number | null;
+  reason: ResultReason | null;
+  result: string;
+}
+
+// 解析 "B+R"、"W+3.5"、"B+T"、"W+F"、"Jigo" 等记法，无法识别时返回 null
+export const parseResultNotation = (
+  notation: string
+): { resultType: MatchResultType; margin: number | null; reason: ResultReason | null } | null => {
+  const text = notation.trim().toUpperCase();
+  if (text === 'JIGO' || text === '0' || text === 'DRAW') {
+    return { resultType: MatchResultType.JIGO, margin: null, reason: null };
+  }
+
+  const match = text.match(/^([BW])\+(R|T|F|\d+(?:\.\d+)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const resultType = match[1] === 'B' ? MatchResultType.BLACK_WIN : MatchResultType.WHITE_WIN;
+  const detail = match[2];
+  if (!detail) {
+    return { resultType, margin: null, reason: null };
+  }
+  if (detail === 'R' || detail === 'T' || detail === 'F') {
+    return { resultType, margin: null, reason: detail as ResultReason };
+  }
+  return { resultType, margin: parseFloat(detail), reason: ResultReason.SCORE };
+};
+
+// 生成记法，例如 B+R、W+3.5
+export const formatResultNotation = (
+  resultType: MatchResultType,
+  winningColor: StoneColor | null,
+  margin: number | null,
+  reason: ResultReason | null
+): string => {
+  if (resultType === MatchResultType.JIGO) {
+    return 'Jigo';
+  }
+  if (!winningColor) {
+    return '';
+  }
+  if (reason === ResultReason.SCORE) {
+    return margin !== null ? `${winningColor}+${margin}` : `${winningColor}+`;
+  }
+  return reason ? `${winningColor}+${reason}` : `${winningColor}+`;
+};
+
+// 根据请求中的结果类型、胜者和记法，得出要保存的完整结果
+export const resolveMatchResult = (match: any, input: IMatchResultInput): ResolvedMatchResult => {
+  const player1Id = refId(match.player1)!;
+  const player2Id = refId(match.player2)!;
+  const colors = getMatchColors(match);
+  const blackId = colors.black!;
+  const whiteId = colors.white!;
+  let winnerId = input.winnerId;
+
+  if (input.resultType && !Object.values(MatchResultType).includes(input.resultType)) {
+    throw new Error(`Invalid result type. Must be one of: ${Object.values(MatchResultType).join(', ')}`);
+  }
+  if (input.reason && !Object.values(ResultReason).includes(input.reason)) {
+    throw new Error(`Invalid result reason. Must be one of: ${Object.values(ResultReason).join(', ')}`);
+  }
+  if (input.margin !== undefined && input.margin !== null && (typeof input.margin !== 'number' || input.margin < 0)) {
+    throw new Error('Margin must be a non-negative number');
+  }
+  if (winnerId && winnerId !== player1Id && winnerId !== player2Id) {
+    throw new Error('Invalid winner ID. Winner must be one of the match players');
+  }
+
+  const parsed = input.result ? parseResultNotation(input.result) : null;
+  let resultType = input.resultType ?? parsed?.resultType;
+  let reason = input.reason ?? parsed?.reason ?? null;
+  let margin = input.margin ?? parsed?.margin ?? null;
+
+  // 只传 winnerId 时按执黑/执白推出结果类型
+  if (!resultType) {
+    if (!winnerId) {
+      throw new Error('Winner ID or result type is required');
+    }
+    resultType = winnerId === blackId ? MatchResultType.BLACK_WIN : MatchResultType.WHITE_WIN;
+  }
+
+  // "B+F" / "W+F"：按弃权处理
+  if (reason === ResultReason.FORFEIT
+    && (resultType === MatchResultType.BLACK_WIN || resultType === MatchResultType.WHITE_WIN)) {
+    const colorWinner = resultType === MatchResultType.BLACK_WIN ? blackId : whiteId;
+    if (winnerId && winnerId !== colorWinner) {
+      throw new Error(`Winner does not match result type ${resultType}`);
+    }
+    resultType = MatchResultType.FORFEIT_WIN;
+    winnerId = colorWinner;
+  }
+
+  let resolvedWinner: string | null;
+  switch (resultType) {
+    case MatchResultType.BLACK_WIN:
+      if (winnerId && winnerId !== blackId) {
+        throw new Error('Winner does not match result type B+');
+      }
+      resolvedWinner = blackId;
+      break;
+    case MatchResultType.WHITE_WIN:
+      if (winnerId && winnerId !== whiteId) {
+        throw new Error('Winner does not match result type W+');
+      }
+      resolvedWinner = whiteId;
+      break;
+    case MatchResultType.FORFEIT_WIN:
+      if (!winnerId) {
+        throw new Error('Winner ID is required for a forfeit win');
+      }
+      resolvedWinner = winnerId;
+      reason = ResultReason.FORFEIT;
+      margin = null;
+      break;
+    default:
+      resolvedWinner = null;
+  }
+
+  // 目数只对数子胜负有意义
+  if (margin !== null) {
+    if (!resolvedWinner) {
+      throw new Error(`A margin cannot be recorded for ${resultType}`);
+    }
+    if (reason && reason !== ResultReason.SCORE) {
+      throw new Error('A margin can only be recorded for a win on score');
+    }
+    reason = ResultReason.SCORE;
+  }
+  if (reason && !resolvedWinner) {
+    throw new Error(`A reason cannot be recorded for ${resultType}`);
+  }
+  if (reason === ResultReason.FORFEIT && resultType !== MatchResultType.FORFEIT_WIN) {
+    throw new Error('Use the FORFEIT_WIN result type for a forfeit');
+  }
+
+  const winningColor = resolvedWinner
+    ? (resolvedWinner === blackId ? StoneColor.BLACK : StoneColor.WHITE)
+    : null;
+  const notation = formatResultNotation(resultType, winningColor, margin, reason);
+
+  return {
+    resultType,
+    winnerId: resolvedWinner,
+    winningColor,
+    margin,
+    reason,
+    // 其他结果类型保留调用方传入的说明文字
+    result: notation || (parsed ? '' : input.result || '')
+  };
+};
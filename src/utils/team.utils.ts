@@ -0,0 +1,79 @@
+import { IMatch } from '../types/tournament.types';
+import { ITeam, ITeamMatch } from '../types/team.types';
+import { MongoId, refId, toString } from '../types/mongoose.types';
+import { compareByStrength } from './rank.utils';
+import { MatchOutcome, WIN_POINTS, getMatchOutcome, outcomePoints } from './result.utils';
+
+export interface TeamMatchScore {
+  team1Points: number;   // 局分：每台胜 1 分，和 0.5 分
+  team2Points: number;
+  complete: boolean;     // 所有出场的台次是否都已录入结果
+}
+
+interface LineupPlayer {
+  _id: any;
+  rank: string;
+  rating?: number;
+}
+
+// 是否为团体赛
+export const isTeamEvent = (tournament: { boardCount?: number | null }): boolean =>
+  Boolean(tournament.boardCount);
+
+// 参赛队伍的队名：populate 之后取 name，否则用队伍 id
+export const getTeamName = (team: MongoId | Pick<ITeam, 'name'>): string =>
+  typeof team === 'object' && 'name' in team ? team.name : toString(team);
+
+// 出场名单：可以出场的队员按段位（相同时按等级分）排列，前 boardCount 位依次坐第 1 台到第 N 台，
+// 人数不足时后面的台次为 null
+export const selectLineup = (players: LineupPlayer[], boardCount: number): (string | null)[] => {
+  const starters = [...players].sort(compareByStrength).slice(0, boardCount);
+  return Array.from({ length: boardCount }, (_, index) => starters[index] ? refId(starters[index])! : null);
+};
+
+// 一场两队对抗的各台对局
+export const getBoardMatches = (matches: IMatch[], teamMatch: ITeamMatch): IMatch[] =>
+  matches.filter(match => match.teamMatch && refId(match.teamMatch) === refId(teamMatch._id));
+
+// 两队的局分：一方缺人的台次判另一方胜，双方都缺人的台次不计
+export const getTeamMatchScore = (teamMatch: ITeamMatch, boardMatches: IMatch[]): TeamMatchScore => {
+  const boards = Math.max(teamMatch.lineup1.length, teamMatch.lineup2.length);
+  const score: TeamMatchScore = { team1Points: 0, team2Points: 0, complete: true };
+
+  for (let board = 1; board <= boards; board++) {
+    const player1 = teamMatch.lineup1[board - 1] ?? null;
+    const player2 = teamMatch.lineup2[board - 1] ?? null;
+    if (player1 && player2) {
+      const match = boardMatches.find(m => m.board === board);
+      const outcome = match ? getMatchOutcome(match) : null;
+      if (!outcome) {
+        score.complete = false;
+        continue;
+      }
+      score.team1Points += outcomePoints(outcome.player1) / WIN_POINTS;
+      score.team2Points += outcomePoints(outcome.player2) / WIN_POINTS;
+    } else if (player1) {
+      score.team1Points += 1;
+    } else if (player2) {
+      score.team2Points += 1;
+    }
+  }
+  return score;
+};
+
+// 两队对抗的胜负，局分多者胜；尚有台次未录入结果时返回 null
+export const getTeamMatchOutcome = (teamMatch: ITeamMatch, boardMatches: IMatch[]): MatchOutcome | null => {
+  if (!teamMatch.team2) {
+    return { player1: 'WIN', player2: 'NONE', played: false };
+  }
+  const score = getTeamMatchScore(teamMatch, boardMatches);
+  if (!score.complete) {
+    return null;
+  }
+  if (score.team1Points === score.team2Points) {
+    return { player1: 'DRAW', player2: 'DRAW', played: true };
+  }
+  return score.team1Points > score.team2Points
+    ? { player1: 'WIN', player2: 'LOSS', played: true }
+    : { player1: 'LOSS', player2: 'WIN', played: true };
+};
@@ -0,0 +1,18 @@
+import { IUserCreate, IUserUpdate } from '../types/user.types';
+
+// 用户可以自己修改的资料字段；邮箱、密码、角色、关联选手和比赛记录只能通过专门的接口修改
+export const USER_PROFILE_FIELDS = ['name', 'age', 'rank', 'country', 'city', 'club'] as const;
+
+export const pickUserProfile = (data: Record<string, any>): IUserUpdate =>
+  Object.fromEntries(
+    USER_PROFILE_FIELDS.filter(field => data[field] !== undefined).map(field => [field, data[field]])
+  ) as IUserUpdate;
+
+// 新建用户时只接受注册资料，不关联选手、没有比赛记录
+export const pickNewUser = (data: Record<string, any>): IUserCreate & { player: null; tournaments: string[] } => ({
+  ...pickUserProfile(data),
+  email: data.email,
+  password: data.password,
+  player: null,
+  tournaments: []
+} as IUserCreate & { player: null; tournaments: string[] });